@@ -1,10 +1,44 @@
-import React, { useState, useEffect } from 'react';
-import { AppStep, ProcessingStatus, ProcessingState, MeetingData } from './types';
+import React, { useState, useEffect, useRef } from 'react';
+import { ActionItem, ActionItemFollowUp, AppStep, BatchJobStatus, HistoryContent, HistoryDocument, MeetingHistory, MeetingMinutes, Revision, RevisionSource, ProcessingStatus, ProcessingState, MeetingData, ModelErrorKind, LanguageSettings, GlossaryTerm, MeetingRecord, MinutesTemplate, ProviderId, ProviderSettings, RedactionSettings, SpeakerProfile, TrackedActionItem, TranscriptSegment } from './types';
 import FileDropzone from './components/FileDropzone';
 import TranscriptView from './components/TranscriptView';
 import MinutesView from './components/MinutesView';
-import { fileToBase64 } from './utils/fileHelpers';
-import { transcribeAudio, correctTranscript, generateMeetingMinutes } from './services/geminiService';
+import ProviderSettingsPanel from './components/ProviderSettingsPanel';
+import ProcessingProgress from './components/ProcessingProgress';
+import SpeakerPanel from './components/SpeakerPanel';
+import MeetingLibrary from './components/MeetingLibrary';
+import TemplateManager from './components/TemplateManager';
+import ExportDialog from './components/ExportDialog';
+import MeetingRecorder from './components/MeetingRecorder';
+import GlossaryManager from './components/GlossaryManager';
+import RedactionManager from './components/RedactionManager';
+import ErrorNotice from './components/ErrorNotice';
+import LanguageSettingsBar from './components/LanguageSettingsBar';
+import BatchQueue from './components/BatchQueue';
+import MeetingQA from './components/MeetingQA';
+import ActionItemTracker from './components/ActionItemTracker';
+import RevisionHistory, { HistoryControls } from './components/RevisionHistory';
+import UsageView from './components/UsageView';
+import { CallOptions, MAX_ATTEMPTS, askAboutMeeting, regenerateMinutesPart } from './services/geminiService';
+import { generateMinutesFor, processRecording } from './services/meetingPipeline';
+import { classifyError, loadProviderSettings, saveProviderSettings, PROVIDER_LABELS } from './services/providers';
+import { forgetSpeaker, loadKnownSpeakers, rememberSpeaker } from './services/speakerRoster';
+import { loadGlossary, saveGlossary } from './services/glossary';
+import { clearRecording } from './services/recordingStore';
+import { loadLanguageSettings, saveLanguageSettings } from './services/languages';
+import { startBatchQueue, subscribeToBatchMinutes, subscribeToBatchQueue } from './services/batchQueue';
+import { getAllTemplates, getTemplate, loadLastTemplateId, saveCustomTemplates, saveLastTemplateId } from './services/minutesTemplates';
+import { createMeetingId, getMeeting, getMeetingAudio, saveMeeting } from './services/meetingLibrary';
+import { loadRedactionSettings, saveRedactionSettings } from './services/redaction';
+import { applyFollowUp, listOpenActionItems, revertFollowUp, updateTrackedActionItem } from './services/actionItemTracker';
+import { addRevision, emptyHistory, loadEditorName, loadHistory, nameRevision, saveEditorName, saveHistory, updateRevisions, withBaseline } from './services/revisionHistory';
+import { enforceBudget } from './services/usage';
+import { formatSpeakerLabel, relabelSpeaker } from './utils/speakers';
+import { MinutesPart, minutesFromMarkdown, minutesParts } from './utils/minutes';
+import { isAbortError } from './utils/abort';
+
+const LAST_MEETING_KEY = 'meetingmind.lastMeetingId';
+const AUTOSAVE_DELAY_MS = 800;
 
 const App: React.FC = () => {
   const [step, setStep] = useState<AppStep>(AppStep.AUTH);
@@ -16,36 +50,148 @@ const App: React.FC = () => {
   const [data, setData] = useState<MeetingData>({
     fileName: '',
     fileType: '',
-    transcript: '',
-    minutes: '',
+    transcript: [],
+    rawTranscript: [],
+    acceptedChanges: [],
+    minutes: null,
+    speakers: [],
+    language: loadLanguageSettings(),
+    questions: [],
   });
 
   const [audioFile, setAudioFile] = useState<File | null>(null);
 
+  const [providerSettings, setProviderSettings] = useState<ProviderSettings>(loadProviderSettings);
+  const [showProviderSettings, setShowProviderSettings] = useState(false);
+  const [knownSpeakers, setKnownSpeakers] = useState<SpeakerProfile[]>(loadKnownSpeakers);
+  const [meetingId, setMeetingId] = useState<string | null>(null);
+  const [templates, setTemplates] = useState<MinutesTemplate[]>(getAllTemplates);
+  const [templateId, setTemplateId] = useState<string>(loadLastTemplateId);
+  const [showTemplateManager, setShowTemplateManager] = useState(false);
+  const [glossary, setGlossary] = useState<GlossaryTerm[]>(loadGlossary);
+  const [showGlossaryManager, setShowGlossaryManager] = useState(false);
+  const [redactionSettings, setRedactionSettings] = useState<RedactionSettings>(loadRedactionSettings);
+  const [showRedactionManager, setShowRedactionManager] = useState(false);
+  const [showExportDialog, setShowExportDialog] = useState(false);
+  const [inputMode, setInputMode] = useState<'upload' | 'record'>('upload');
+  // Languages for the next meeting; a processed meeting keeps its own copy in `data.language`
+  const [languageSettings, setLanguageSettings] = useState<LanguageSettings>(loadLanguageSettings);
+  // Batch jobs queued or running, for the header
+  const [activeBatchJobs, setActiveBatchJobs] = useState(0);
+  const [sidePanel, setSidePanel] = useState<'speakers' | 'ask'>('speakers');
+  // Transcript line a Q&A citation points at
+  const [highlight, setHighlight] = useState<{ segmentId: string } | null>(null);
+  const [history, setHistory] = useState<MeetingHistory>(emptyHistory);
+  // How many revisions back from the newest each document is, while undoing
+  const [undone, setUndone] = useState<Record<HistoryDocument, number>>({ transcript: 0, minutes: 0 });
+  const [editorName, setEditorName] = useState(loadEditorName);
+  const [historyDialog, setHistoryDialog] = useState<HistoryDocument | null>(null);
+  const abortRef = useRef<AbortController | null>(null);
+  // The meeting open now, for async work that finishes after the user switched meetings
+  const meetingIdRef = useRef<string | null>(null);
+  meetingIdRef.current = meetingId;
+  // The meeting as last read from or written to the library; autosave skips it so opening is not an edit
+  const savedDataRef = useRef<MeetingData | null>(null);
+
   // Check for existing API key on mount
   useEffect(() => {
     const checkKey = async () => {
-      if (window.aistudio) {
+      let hasKey: boolean;
+      if (providerSettings.providerId !== ProviderId.GEMINI) {
+        // Non-Gemini providers are configured in the settings panel, no Google key needed
+        hasKey = true;
+      } else if (window.aistudio) {
         // IDX/AI Studio Environment
-        if (await window.aistudio.hasSelectedApiKey()) {
-            setStep(AppStep.UPLOAD);
-        } else {
-            setStep(AppStep.AUTH);
-        }
+        hasKey = await window.aistudio.hasSelectedApiKey();
       } else {
         // Local / Production Environment
         // Check if API_KEY is injected via environment variables (e.g., .env file)
-        if (process.env.API_KEY) {
-          setStep(AppStep.UPLOAD);
-        } else {
-          // Stay on AUTH to show setup instructions
-          setStep(AppStep.AUTH);
+        hasKey = !!process.env.API_KEY;
+      }
+
+      if (!hasKey) {
+        // Stay on AUTH to show setup instructions
+        setStep(AppStep.AUTH);
+        return;
+      }
+      setStep(AppStep.UPLOAD);
+
+      // Bring back the meeting that was open before a refresh
+      const lastMeetingId = localStorage.getItem(LAST_MEETING_KEY);
+      if (lastMeetingId) {
+        try {
+          const record = await getMeeting(lastMeetingId);
+          if (record) await openMeeting(record);
+        } catch (e) {
+          console.error("Could not restore the last meeting:", e);
         }
       }
     };
     checkKey();
   }, []);
 
+  // The batch queue resumes once a provider is usable
+  const isAuthenticated = step !== AppStep.AUTH;
+  useEffect(() => {
+    if (!isAuthenticated) return;
+    startBatchQueue().catch(e => console.error("Could not load the batch queue:", e));
+  }, [isAuthenticated]);
+
+  useEffect(() => subscribeToBatchQueue(jobs => {
+    setActiveBatchJobs(jobs.filter(job => job.status === BatchJobStatus.QUEUED || job.status === BatchJobStatus.RUNNING).length);
+  }), []);
+
+  // A batch job may finish the minutes of the meeting open here; without taking them up, the open
+  // copy would be saved over them with the next edit. Subscribed anew each render for current state.
+  useEffect(() => subscribeToBatchMinutes(async (id) => {
+    if (id !== meetingIdRef.current) return;
+    try {
+      const minutes = (await getMeeting(id))?.data.minutes;
+      if (!minutes || meetingIdRef.current !== id) return;
+      setData(prev => ({ ...prev, minutes }));
+      recordRevision('minutes', minutes, RevisionSource.MINUTES_GENERATION);
+    } catch (e) {
+      console.error("Could not load the minutes written by the batch queue:", e);
+    }
+  }));
+
+  // Save edits to the library shortly after they stop
+  useEffect(() => {
+    // Streamed partial results are not worth saving; the final result is saved once processing ends
+    if (!meetingId || !data.transcript.length || processingState.status === ProcessingStatus.PROCESSING) return;
+    if (data === savedDataRef.current) return;
+    const timer = setTimeout(() => {
+      savedDataRef.current = data;
+      saveMeeting(meetingId, data).catch(e => console.error("Autosave failed:", e));
+    }, AUTOSAVE_DELAY_MS);
+    return () => clearTimeout(timer);
+  }, [data, meetingId, processingState.status]);
+
+  useEffect(() => {
+    if (!meetingId || history.meetingId !== meetingId) return;
+    const timer = setTimeout(() => {
+      saveHistory(history).catch(e => console.error("Saving the version history failed:", e));
+    }, AUTOSAVE_DELAY_MS);
+    return () => clearTimeout(timer);
+  }, [history, meetingId]);
+
+  useEffect(() => {
+    if (meetingId) {
+      localStorage.setItem(LAST_MEETING_KEY, meetingId);
+    } else {
+      localStorage.removeItem(LAST_MEETING_KEY);
+    }
+  }, [meetingId]);
+
+  const handleSaveProviderSettings = (settings: ProviderSettings) => {
+    saveProviderSettings(settings);
+    setProviderSettings(settings);
+    setShowProviderSettings(false);
+    if (step === AppStep.AUTH && settings.providerId !== ProviderId.GEMINI) {
+      setStep(AppStep.UPLOAD);
+    }
+  };
+
   // Handle IDX API Key Selection
   const handleApiKeySelection = async () => {
     try {
@@ -59,63 +205,408 @@ const App: React.FC = () => {
     }
   };
 
-  // Helper to handle API errors
+  // Starts a cancellable operation; a previous one still running is aborted
+  const beginOperation = (): AbortSignal => {
+    abortRef.current?.abort();
+    abortRef.current = new AbortController();
+    return abortRef.current.signal;
+  };
+
+  const handleCancel = () => {
+    abortRef.current?.abort();
+  };
+
+  // Helper to handle API errors; the notice suggests a fix for the kind of failure
   const handleError = (error: any, message: string) => {
     console.error(error);
-    if (error.message && error.message.includes("Requested entity was not found")) {
-         setProcessingState({
-            status: ProcessingStatus.ERROR,
-            message: "API Key Error: Please re-select your API Key.",
-            error: error.message
-         });
-         setStep(AppStep.AUTH);
-    } else {
-        setProcessingState({
-            status: ProcessingStatus.ERROR,
-            message: message,
-            error: error.message || "An unknown error occurred",
-        });
+    const classified = classifyError(error);
+    setProcessingState({
+      status: ProcessingStatus.ERROR,
+      message,
+      error: classified.message || "An unknown error occurred",
+      errorKind: classified.kind,
+      retryAfterSeconds: classified.retryAfterSeconds,
+    });
+    // A rejected Gemini key is fixed on the key screen; other providers through their settings
+    if (classified.kind === ModelErrorKind.AUTH && providerSettings.providerId === ProviderId.GEMINI) {
+      setStep(AppStep.AUTH);
     }
   };
 
-  const handleFileSelect = async (file: File) => {
+  // Keeps the progress view honest while a transient failure is waited out; usage is
+  // attributed to the open meeting unless another id is given
+  const callOptions = (signal: AbortSignal, id = meetingId): CallOptions => ({
+    signal,
+    meetingId: id || undefined,
+    onRetry: (error, attempt, delayMs) => {
+      const reason = error.kind === ModelErrorKind.RATE_LIMIT ? 'Rate limited' : 'Request failed';
+      setProcessingState(prev => ({
+        ...prev,
+        message: `${reason}, retrying in ${Math.ceil(delayMs / 1000)}s (attempt ${attempt + 1}/${MAX_ATTEMPTS})...`,
+      }));
+    },
+  });
+
+  const loadMeetingHistory = async (record: MeetingRecord): Promise<MeetingHistory> =>
+    withBaseline(await loadHistory(record.id), record.data.transcript, record.data.minutes);
+
+  const resetHistory = (next: MeetingHistory) => {
+    setHistory(next);
+    setUndone({ transcript: 0, minutes: 0 });
+    setHistoryDialog(null);
+  };
+
+  // Adds the document's new content to its history; after an undo it starts a new revision
+  // instead of merging into the newest one, which is not what the editor shows.
+  const recordRevision = <D extends HistoryDocument>(document: D, content: HistoryContent[D], source: RevisionSource) => {
+    const author = source === RevisionSource.MANUAL_EDIT || source === RevisionSource.RESTORE ? editorName : '';
+    const merge = undone[document] === 0 && source !== RevisionSource.RESTORE;
+    setHistory(prev => updateRevisions(prev, document, revisions => addRevision(revisions, content, source, author, { merge })));
+    setUndone(prev => ({ ...prev, [document]: 0 }));
+  };
+
+  const editTranscript = (transcript: TranscriptSegment[]) => {
+    setData(prev => ({ ...prev, transcript }));
+    recordRevision('transcript', transcript, RevisionSource.MANUAL_EDIT);
+  };
+
+  const editMinutes = (minutes: MeetingMinutes) => {
+    setData(prev => ({ ...prev, minutes }));
+    recordRevision('minutes', minutes, RevisionSource.MANUAL_EDIT);
+  };
+
+  // The documents are the meeting fields of the same name
+  const applyRevision = <D extends HistoryDocument>(document: D, revision: Revision<HistoryContent[D]>) => {
+    setData(prev => ({ ...prev, [document]: revision.content }));
+  };
+
+  // Undo (-1) or redo (+1) walks the document's revisions without adding one
+  const stepHistory = (document: HistoryDocument, direction: -1 | 1) => {
+    const revisions = history[document];
+    const steps = undone[document] - direction;
+    const revision = revisions[revisions.length - 1 - steps];
+    if (steps < 0 || !revision) return;
+    applyRevision(document, revision);
+    setUndone(prev => ({ ...prev, [document]: steps }));
+  };
+
+  const historyControls = (document: HistoryDocument): HistoryControls => ({
+    canUndo: history[document].length - 1 - undone[document] > 0,
+    canRedo: undone[document] > 0,
+    onUndo: () => stepHistory(document, -1),
+    onRedo: () => stepHistory(document, 1),
+    onShowHistory: () => setHistoryDialog(document),
+  });
+
+  const currentRevisionId = (document: HistoryDocument): string | undefined => {
+    const revisions = history[document];
+    return revisions[revisions.length - 1 - undone[document]]?.id;
+  };
+
+  const handleRestoreRevision = <D extends HistoryDocument>(document: D, revision: Revision<HistoryContent[D]>) => {
+    applyRevision(document, revision);
+    recordRevision(document, revision.content, RevisionSource.RESTORE);
+  };
+
+  const handleRenameRevision = (document: HistoryDocument, id: string, name: string) => {
+    setHistory(prev => updateRevisions(prev, document, revisions => nameRevision(revisions, id, name)));
+  };
+
+  const handleEditorNameChange = (name: string) => {
+    setEditorName(name);
+    saveEditorName(name);
+  };
+
+  // `existingMeetingId` re-runs a library meeting in place instead of creating a new one.
+  // Resolves to whether the meeting was processed and saved.
+  const handleFileSelect = async (file: File, existingMeetingId?: string, language = languageSettings): Promise<boolean> => {
+    const id = existingMeetingId || createMeetingId();
+    const signal = beginOperation();
+    // A re-run adds to the meeting's existing history, so the earlier versions stay restorable
+    const existing = existingMeetingId ? await getMeeting(existingMeetingId).catch(() => undefined) : undefined;
+    const meetingHistory = existing
+      ? await loadMeetingHistory(existing).catch(() => emptyHistory(id))
+      : emptyHistory(id);
+    setMeetingId(null);
+    resetHistory(meetingHistory);
     setAudioFile(file);
     setData(prev => ({ ...prev, fileName: file.name, fileType: file.type }));
-    setProcessingState({ status: ProcessingStatus.PROCESSING, message: 'Transcribing audio... (Step 1/2)' });
-    
+    setProcessingState({ status: ProcessingStatus.PROCESSING, message: 'Decoding audio...' });
+
+    // The corrected lines stream into the editor once the raw transcript is in; cancelling or a
+    // failed correction keeps the unrefined transcript, which has been paid for
+    let transcribed = false;
+    let cancelled = false;
+    let refineError: unknown = null;
     try {
-      const base64Audio = await fileToBase64(file);
-      const rawTranscript = await transcribeAudio(base64Audio, file.type);
-      
-      setProcessingState({ status: ProcessingStatus.PROCESSING, message: 'Refining transcript with AI... (Step 2/2)' });
-      const refinedTranscript = await correctTranscript(rawTranscript);
-      
-      setData(prev => ({ ...prev, transcript: refinedTranscript }));
-      setStep(AppStep.TRANSCRIBE);
-      setProcessingState({ status: ProcessingStatus.SUCCESS, message: 'Processing complete' });
+      const processed = await processRecording(file, { knownSpeakers, glossary, language }, {
+        ...callOptions(signal, id),
+        // Asked before anything is sent, so a cap can stop an expensive recording
+        beforeTranscribe: (seconds) => enforceBudget(seconds, async (message) => window.confirm(`${message}\n\nTranscribe anyway?`)),
+        onProgress: (_fraction, message, chunks) => setProcessingState({ status: ProcessingStatus.PROCESSING, message, chunks }),
+        onRawTranscript: (rawTranscript) => {
+          transcribed = true;
+          setData({
+            fileName: file.name,
+            fileType: file.type,
+            recordedAt: file.lastModified,
+            transcript: rawTranscript,
+            rawTranscript,
+            acceptedChanges: [],
+            minutes: null,
+            speakers: [],
+            language,
+            questions: [],
+          });
+          recordRevision('transcript', rawTranscript, RevisionSource.TRANSCRIPTION);
+          setStep(AppStep.TRANSCRIBE);
+        },
+        onPartialTranscript: (partial) => setData(prev => ({ ...prev, transcript: partial })),
+        onCorrectionError: (error) => {
+          if (isAbortError(error)) cancelled = true;
+          else refineError = error;
+        },
+      });
+      setData(processed);
+      if (!cancelled && !refineError) recordRevision('transcript', processed.transcript, RevisionSource.AI_CORRECTION);
+      savedDataRef.current = processed;
+      await saveMeeting(id, processed, file);
+      setMeetingId(id);
+      if (refineError) {
+        handleError(refineError, 'AI refinement failed; the unrefined transcript was kept.');
+        return true;
+      }
+      setProcessingState(cancelled
+        ? { status: ProcessingStatus.IDLE, message: 'Refinement cancelled; the unrefined transcript was kept.' }
+        : { status: ProcessingStatus.SUCCESS, message: 'Processing complete' });
+      return true;
     } catch (error) {
-      handleError(error, 'Failed to process audio.');
+      if (transcribed) {
+        handleError(error, 'Failed to save the meeting.');
+      } else if (isAbortError(error)) {
+        setStep(AppStep.UPLOAD);
+        setProcessingState({ status: ProcessingStatus.IDLE, message: 'Transcription cancelled.' });
+      } else {
+        handleError(error, 'Failed to process audio.');
+      }
+      return false;
+    }
+  };
+
+  const handleRecorded = async (file: File) => {
+    if (await handleFileSelect(file)) {
+      await clearRecording();
     }
   };
 
   const handleGenerateMinutes = async () => {
-    if (!data.transcript) return;
+    if (!data.transcript.length) return;
 
+    const template = getTemplate(templateId, templates);
+    const signal = beginOperation();
+    // Minutes render as they stream in; on cancel or failure the previous minutes come back
+    const previousMinutes = data.minutes;
+    const restore = () => {
+      setData(prev => ({ ...prev, minutes: previousMinutes }));
+      if (!previousMinutes) setStep(AppStep.TRANSCRIBE);
+    };
+    setData(prev => ({ ...prev, minutes: minutesFromMarkdown('', template.id) }));
+    setStep(AppStep.MINUTES);
     setProcessingState({ status: ProcessingStatus.PROCESSING, message: 'Generating meeting minutes...' });
     try {
-      const minutes = await generateMeetingMinutes(data.transcript);
+      // Minutes still get written if the library cannot be read, just without follow-ups
+      const openItems = await listOpenActionItems(meetingId).catch(error => {
+        console.error('Could not load open action items:', error);
+        return [];
+      });
+      const minutes = await generateMinutesFor(data, template, openItems, {
+        ...callOptions(signal),
+        onPartial: (partial) => setData(prev => ({ ...prev, minutes: partial })),
+      });
       setData(prev => ({ ...prev, minutes }));
-      setStep(AppStep.MINUTES);
-      setProcessingState({ status: ProcessingStatus.SUCCESS, message: 'Minutes generated' });
+      recordRevision('minutes', minutes, RevisionSource.MINUTES_GENERATION);
+      setProcessingState({
+        status: ProcessingStatus.SUCCESS,
+        message: minutes.followUps.length ? `Minutes generated, ${minutes.followUps.length} follow-up(s) on earlier action items to review` : 'Minutes generated',
+      });
     } catch (error) {
-      handleError(error, 'Failed to generate minutes.');
+      restore();
+      if (isAbortError(error)) {
+        setProcessingState({ status: ProcessingStatus.IDLE, message: 'Minutes generation cancelled.' });
+      } else {
+        handleError(error, 'Failed to generate minutes.');
+      }
+    }
+  };
+
+  // Follow-ups change other meetings, so they only apply when the user confirms them, and can be reverted
+  const handleFollowUp = async (followUp: ActionItemFollowUp, apply: boolean) => {
+    try {
+      const updated = apply ? await applyFollowUp(followUp) : await revertFollowUp(followUp);
+      if (!updated) throw new Error('The action item is no longer in the library.');
+      setData(prev => prev.minutes ? {
+        ...prev,
+        minutes: {
+          ...prev.minutes,
+          followUps: prev.minutes.followUps.map(f => (f.meetingId === followUp.meetingId && f.itemId === followUp.itemId ? updated : f)),
+        },
+      } : prev);
+    } catch (error) {
+      handleError(error, 'Could not update the earlier action item.');
+    }
+  };
+
+  const handleRegenerateMinutesPart = async (part: MinutesPart, instructions: string) => {
+    const minutes = data.minutes;
+    if (!minutes || !data.transcript.length) return;
+    // The minutes' own template, which may differ from the one selected for the next generation
+    const template = getTemplate(minutes.templateId, templates);
+    const title = minutesParts(minutes).find(p => p.part === part)?.title || part;
+    const signal = beginOperation();
+    setProcessingState({ status: ProcessingStatus.PROCESSING, message: `Regenerating "${title}"...` });
+    try {
+      const next = await regenerateMinutesPart(data.transcript, data.speakers, template, data.language, minutes, part, instructions, callOptions(signal));
+      setData(prev => ({ ...prev, minutes: next }));
+      recordRevision('minutes', next, RevisionSource.MINUTES_GENERATION);
+      setProcessingState({ status: ProcessingStatus.SUCCESS, message: `"${title}" regenerated` });
+    } catch (error) {
+      if (isAbortError(error)) {
+        setProcessingState({ status: ProcessingStatus.IDLE, message: 'Section regeneration cancelled.' });
+      } else {
+        handleError(error, `Failed to regenerate "${title}".`);
+      }
     }
   };
 
+  const handleRenameSpeaker = (label: string, profile: SpeakerProfile) => {
+    const newLabel = formatSpeakerLabel(profile);
+    editTranscript(relabelSpeaker(data.transcript, label, newLabel));
+    setData(prev => ({
+      ...prev,
+      speakers: [
+        ...prev.speakers.filter(s => s.label !== label && s.label !== newLabel),
+        { ...profile, label: newLabel },
+      ],
+    }));
+    setKnownSpeakers(rememberSpeaker(profile));
+  };
+
+  const handleForgetSpeaker = (name: string) => {
+    setKnownSpeakers(forgetSpeaker(name));
+  };
+
+  const handleMergeSpeakers = (from: string, into: string) => {
+    editTranscript(relabelSpeaker(data.transcript, from, into));
+    setData(prev => ({ ...prev, speakers: prev.speakers.filter(s => s.label !== from) }));
+  };
+
+  const handleAskQuestion = async (question: string, signal: AbortSignal) => {
+    const askedAbout = meetingId;
+    const answer = await askAboutMeeting(data.transcript, question, data.questions, { signal, meetingId: askedAbout || undefined });
+    const entry = { id: createMeetingId(), question, ...answer, askedAt: Date.now() };
+    if (meetingIdRef.current === askedAbout) {
+      setData(prev => ({ ...prev, questions: [...prev.questions, entry] }));
+      return;
+    }
+    // Another meeting was opened meanwhile; the answer belongs to the one it was asked about
+    const record = askedAbout ? await getMeeting(askedAbout) : undefined;
+    if (record) await saveMeeting(record.id, { ...record.data, questions: [...record.data.questions, entry] });
+  };
+
+  const showCitation = (segmentId: string) => {
+    setSidePanel('ask');
+    setStep(AppStep.TRANSCRIBE);
+    setHighlight({ segmentId });
+  };
+
+  const handleUpdateTrackedItem = async ({ meetingId: itemMeetingId, item }: TrackedActionItem, patch: Partial<ActionItem>) => {
+    if (itemMeetingId !== meetingId) {
+      await updateTrackedActionItem(itemMeetingId, item.id, patch);
+      return;
+    }
+    // The open meeting is saved by the autosave; writing the library directly would be overwritten
+    if (data.minutes) {
+      editMinutes({ ...data.minutes, actionItems: data.minutes.actionItems.map(i => (i.id === item.id ? { ...i, ...patch } : i)) });
+    }
+  };
+
+  const openActionItem = async ({ meetingId: itemMeetingId, item }: TrackedActionItem, showLine: boolean) => {
+    if (itemMeetingId !== meetingId && !(await openMeetingById(itemMeetingId))) return;
+    if (showLine && item.sourceSegmentId) {
+      setStep(AppStep.TRANSCRIBE);
+      setHighlight({ segmentId: item.sourceSegmentId });
+    } else {
+      setStep(AppStep.MINUTES);
+    }
+  };
+
+  const openMeeting = async (record: MeetingRecord) => {
+    const audio = record.hasAudio ? await getMeetingAudio(record.id) : undefined;
+    setAudioFile(audio ? new File([audio], record.data.fileName, { type: record.data.fileType }) : null);
+    const meetingHistory = await loadMeetingHistory(record);
+    savedDataRef.current = record.data;
+    setData(record.data);
+    setMeetingId(record.id);
+    resetHistory(meetingHistory);
+    setHighlight(null);
+    setStep(record.data.minutes ? AppStep.MINUTES : AppStep.TRANSCRIBE);
+  };
+
+  const openMeetingById = async (id: string): Promise<boolean> => {
+    try {
+      const record = await getMeeting(id);
+      if (!record) throw new Error('The meeting is no longer in the library.');
+      await openMeeting(record);
+      return true;
+    } catch (e) {
+      handleError(e, 'Failed to open meeting.');
+      return false;
+    }
+  };
+
+  const rerunMeeting = async (record: MeetingRecord) => {
+    const audio = await getMeetingAudio(record.id);
+    if (!audio) return;
+    setStep(AppStep.UPLOAD);
+    // The stored blob has no date of its own; keep the one the meeting was recorded on
+    const file = new File([audio], record.data.fileName, { type: record.data.fileType, lastModified: record.data.recordedAt });
+    await handleFileSelect(file, record.id, record.data.language);
+  };
+
+  const handleTemplateChange = (id: string) => {
+    setTemplateId(id);
+    saveLastTemplateId(id);
+  };
+
+  const handleLanguageSettingsChange = (settings: LanguageSettings) => {
+    setLanguageSettings(settings);
+    saveLanguageSettings(settings);
+  };
+
+  const handleSaveCustomTemplates = (custom: MinutesTemplate[]) => {
+    saveCustomTemplates(custom);
+    setTemplates(getAllTemplates());
+  };
+
+  const handleSaveGlossary = (terms: GlossaryTerm[]) => {
+    saveGlossary(terms);
+    setGlossary(terms);
+    setShowGlossaryManager(false);
+  };
+
+  const handleSaveRedactionSettings = (settings: RedactionSettings) => {
+    saveRedactionSettings(settings);
+    setRedactionSettings(settings);
+    setShowRedactionManager(false);
+  };
+
   const resetApp = () => {
+    setMeetingId(null);
     setStep(AppStep.UPLOAD);
-    setData({ fileName: '', fileType: '', transcript: '', minutes: '' });
+    setData({ fileName: '', fileType: '', transcript: [], rawTranscript: [], acceptedChanges: [], minutes: null, speakers: [], language: languageSettings, questions: [] });
     setAudioFile(null);
+    setHighlight(null);
+    resetHistory(emptyHistory());
     setProcessingState({ status: ProcessingStatus.IDLE, message: '' });
   };
 
@@ -132,6 +623,39 @@ const App: React.FC = () => {
             </div>
             <h1 className="text-xl font-bold text-gray-900 tracking-tight">MeetingMind AI</h1>
           </div>
+
+          <div className="md:order-last flex items-center gap-2">
+            <button
+              onClick={() => setShowGlossaryManager(true)}
+              className="flex items-center gap-1.5 px-3 py-1 text-sm font-medium text-gray-600 border border-gray-200 rounded-full hover:bg-gray-50 transition-colors"
+              title="Plant glossary"
+            >
+              <svg xmlns="http://www.w3.org/2000/svg" fill="none" viewBox="0 0 24 24" strokeWidth={1.5} stroke="currentColor" className="w-4 h-4">
+                <path strokeLinecap="round" strokeLinejoin="round" d="M12 6.042A8.967 8.967 0 006 3.75c-1.052 0-2.062.18-3 .512v14.25A8.987 8.987 0 016 18c2.305 0 4.408.867 6 2.292m0-14.25a8.966 8.966 0 016-2.292c1.052 0 2.062.18 3 .512v14.25A8.987 8.987 0 0018 18a8.967 8.967 0 00-6 2.292m0-14.25v14.25" />
+              </svg>
+              Glossary{glossary.length > 0 && ` (${glossary.length})`}
+            </button>
+            <button
+              onClick={() => setShowRedactionManager(true)}
+              className="flex items-center gap-1.5 px-3 py-1 text-sm font-medium text-gray-600 border border-gray-200 rounded-full hover:bg-gray-50 transition-colors"
+              title="Redaction of sensitive data before model calls"
+            >
+              <svg xmlns="http://www.w3.org/2000/svg" fill="none" viewBox="0 0 24 24" strokeWidth={1.5} stroke="currentColor" className="w-4 h-4">
+                <path strokeLinecap="round" strokeLinejoin="round" d="M9 12.75L11.25 15 15 9.75m-3-7.036A11.959 11.959 0 013.598 6 11.99 11.99 0 003 9.749c0 5.592 3.824 10.29 9 11.623 5.176-1.332 9-6.03 9-11.622 0-1.31-.21-2.571-.598-3.751h-.152c-3.196 0-6.1-1.248-8.25-3.285z" />
+              </svg>
+              Redaction{!redactionSettings.enabled && ' (off)'}
+            </button>
+            <button
+              onClick={() => setShowProviderSettings(true)}
+              className="flex items-center gap-1.5 px-3 py-1 text-sm font-medium text-gray-600 border border-gray-200 rounded-full hover:bg-gray-50 transition-colors"
+              title="AI Provider Settings"
+            >
+              <svg xmlns="http://www.w3.org/2000/svg" fill="none" viewBox="0 0 24 24" strokeWidth={1.5} stroke="currentColor" className="w-4 h-4">
+                <path strokeLinecap="round" strokeLinejoin="round" d="M10.5 6h9.75M10.5 6a1.5 1.5 0 11-3 0m3 0a1.5 1.5 0 10-3 0M3.75 6H7.5m3 12h9.75m-9.75 0a1.5 1.5 0 01-3 0m3 0a1.5 1.5 0 00-3 0m-3.75 0H7.5m9-6h3.75m-3.75 0a1.5 1.5 0 01-3 0m3 0a1.5 1.5 0 00-3 0m-9.75 0h9.75" />
+              </svg>
+              {PROVIDER_LABELS[providerSettings.providerId]}
+            </button>
+          </div>
           
           {/* Steps Indicator - Only show if authenticated */}
           {step !== AppStep.AUTH && (
@@ -155,6 +679,31 @@ const App: React.FC = () => {
               </div>
               <div className="text-gray-300">→</div>
               <div className={`px-3 py-1 rounded-full ${step === AppStep.MINUTES ? 'bg-indigo-100 text-indigo-700' : 'text-gray-400'}`}>3. Minutes</div>
+              <div className="w-px h-5 bg-gray-200 mx-2"></div>
+              <div
+                onClick={() => setStep(AppStep.LIBRARY)}
+                className={`px-3 py-1 rounded-full cursor-pointer ${step === AppStep.LIBRARY ? 'bg-indigo-100 text-indigo-700' : 'text-gray-500 hover:text-gray-700'}`}
+              >
+                Library
+              </div>
+              <div
+                onClick={() => setStep(AppStep.BATCH)}
+                className={`px-3 py-1 rounded-full cursor-pointer ${step === AppStep.BATCH ? 'bg-indigo-100 text-indigo-700' : 'text-gray-500 hover:text-gray-700'}`}
+              >
+                Batch{activeBatchJobs > 0 && ` (${activeBatchJobs})`}
+              </div>
+              <div
+                onClick={() => setStep(AppStep.ACTIONS)}
+                className={`px-3 py-1 rounded-full cursor-pointer ${step === AppStep.ACTIONS ? 'bg-indigo-100 text-indigo-700' : 'text-gray-500 hover:text-gray-700'}`}
+              >
+                Action Items
+              </div>
+              <div
+                onClick={() => setStep(AppStep.USAGE)}
+                className={`px-3 py-1 rounded-full cursor-pointer ${step === AppStep.USAGE ? 'bg-indigo-100 text-indigo-700' : 'text-gray-500 hover:text-gray-700'}`}
+              >
+                Usage
+              </div>
             </div>
           )}
         </div>
@@ -165,24 +714,15 @@ const App: React.FC = () => {
         
         {/* Error Notification */}
         {processingState.status === ProcessingStatus.ERROR && (
-          <div className="mb-6 p-4 bg-red-50 border border-red-200 rounded-lg flex items-start gap-3 animate-fade-in">
-            <svg xmlns="http://www.w3.org/2000/svg" viewBox="0 0 20 20" fill="currentColor" className="w-5 h-5 text-red-600 mt-0.5">
-              <path fillRule="evenodd" d="M18 10a8 8 0 11-16 0 8 8 0 0116 0zm-8-5a.75.75 0 01.75.75v4.5a.75.75 0 01-1.5 0v-4.5A.75.75 0 0110 5zm0 10a1 1 0 100-2 1 1 0 000 2z" clipRule="evenodd" />
-            </svg>
-            <div>
-              <h3 className="text-sm font-semibold text-red-800">Error Occurred</h3>
-              <p className="text-sm text-red-700 mt-1">{processingState.error || processingState.message}</p>
-              <button 
-                onClick={() => setProcessingState({ status: ProcessingStatus.IDLE, message: '' })}
-                className="mt-2 text-xs font-medium text-red-600 hover:text-red-800 underline"
-              >
-                Dismiss
-              </button>
-            </div>
-          </div>
+          <ErrorNotice
+            processingState={processingState}
+            onDismiss={() => setProcessingState({ status: ProcessingStatus.IDLE, message: '' })}
+            onOpenProviderSettings={() => setShowProviderSettings(true)}
+            onReselectKey={window.aistudio && providerSettings.providerId === ProviderId.GEMINI ? handleApiKeySelection : undefined}
+          />
         )}
 
-        <div className="max-w-4xl mx-auto h-[600px] flex flex-col">
+        <div className={`${step === AppStep.TRANSCRIBE || step === AppStep.MINUTES || step === AppStep.ACTIONS || step === AppStep.USAGE ? 'max-w-6xl' : 'max-w-4xl'} mx-auto h-[600px] flex flex-col`}>
           
           {/* Auth Step */}
           {step === AppStep.AUTH && (
@@ -231,6 +771,13 @@ const App: React.FC = () => {
                          </div>
                     </div>
                  )}
+
+                 <button
+                   onClick={() => setShowProviderSettings(true)}
+                   className="mt-6 text-sm text-gray-600 hover:text-gray-900 underline"
+                 >
+                   Use a local server or the offline demo instead
+                 </button>
                </div>
              </div>
           )}
@@ -238,37 +785,233 @@ const App: React.FC = () => {
           {/* Upload Step */}
           {step === AppStep.UPLOAD && (
             <div className="my-auto animate-fade-in">
-              <FileDropzone 
-                onFileSelect={handleFileSelect} 
+              <div className="flex justify-center gap-1 mb-4 text-sm font-medium">
+                {(['upload', 'record'] as const).map(mode => (
+                  <button
+                    key={mode}
+                    onClick={() => setInputMode(mode)}
+                    disabled={processingState.status === ProcessingStatus.PROCESSING}
+                    className={`px-4 py-1.5 rounded-full transition-colors disabled:opacity-50 ${inputMode === mode ? 'bg-indigo-100 text-indigo-700' : 'text-gray-500 hover:text-gray-700'}`}
+                  >
+                    {mode === 'upload' ? 'Upload file' : 'Record meeting'}
+                  </button>
+                ))}
+              </div>
+              <LanguageSettingsBar
+                settings={languageSettings}
+                onChange={handleLanguageSettingsChange}
                 disabled={processingState.status === ProcessingStatus.PROCESSING}
               />
+              {inputMode === 'upload' ? (
+                <FileDropzone 
+                  onFileSelect={handleFileSelect} 
+                  disabled={processingState.status === ProcessingStatus.PROCESSING}
+                />
+              ) : (
+                <MeetingRecorder
+                  onRecorded={handleRecorded}
+                  disabled={processingState.status === ProcessingStatus.PROCESSING}
+                />
+              )}
+              {processingState.status === ProcessingStatus.PROCESSING && (
+                <ProcessingProgress processingState={processingState} onCancel={handleCancel} />
+              )}
             </div>
           )}
 
           {/* Transcript Step */}
           {step === AppStep.TRANSCRIBE && (
-             <TranscriptView
-               transcript={data.transcript}
-               fileName={data.fileName}
-               onTranscriptChange={(newText) => setData(prev => ({ ...prev, transcript: newText }))}
-               onGenerateMinutes={handleGenerateMinutes}
-               processingState={processingState}
-             />
+            <div className="flex gap-4 h-full">
+              <div className="flex-1 min-w-0">
+                <TranscriptView
+                  transcript={data.transcript}
+                  rawTranscript={data.rawTranscript}
+                  acceptedChanges={data.acceptedChanges}
+                  onAcceptedChangesChange={(acceptedChanges) => setData(prev => ({ ...prev, acceptedChanges }))}
+                  audioFile={audioFile}
+                  onTranscriptChange={editTranscript}
+                  onGenerateMinutes={handleGenerateMinutes}
+                  onExport={() => setShowExportDialog(true)}
+                  templates={templates}
+                  selectedTemplateId={getTemplate(templateId, templates).id}
+                  onTemplateChange={handleTemplateChange}
+                  onManageTemplates={() => setShowTemplateManager(true)}
+                  minutesLanguage={data.language.minutesLanguage}
+                  onMinutesLanguageChange={(minutesLanguage) => setData(prev => ({ ...prev, language: { ...prev.language, minutesLanguage } }))}
+                  processingState={processingState}
+                  onCancel={handleCancel}
+                  highlight={highlight}
+                  history={historyControls('transcript')}
+                />
+              </div>
+              <div className="hidden lg:flex flex-col gap-2 w-80 shrink-0">
+                <div className="flex gap-1 text-sm font-medium">
+                  {(['speakers', 'ask'] as const).map(panel => (
+                    <button
+                      key={panel}
+                      onClick={() => setSidePanel(panel)}
+                      className={`px-3 py-0.5 rounded-full ${sidePanel === panel ? 'bg-indigo-100 text-indigo-700' : 'text-gray-500 hover:text-gray-700'}`}
+                    >
+                      {panel === 'speakers' ? 'Speakers' : `Ask${data.questions.length ? ` (${data.questions.length})` : ''}`}
+                    </button>
+                  ))}
+                </div>
+                <div className="flex-1 min-h-0">
+                  {sidePanel === 'speakers' ? (
+                    <SpeakerPanel
+                      transcript={data.transcript}
+                      speakers={data.speakers}
+                      knownSpeakers={knownSpeakers}
+                      onRename={handleRenameSpeaker}
+                      onMerge={handleMergeSpeakers}
+                      onForget={handleForgetSpeaker}
+                      disabled={processingState.status === ProcessingStatus.PROCESSING}
+                    />
+                  ) : (
+                    <MeetingQA
+                      transcript={data.transcript}
+                      questions={data.questions}
+                      onAsk={handleAskQuestion}
+                      onClear={() => setData(prev => ({ ...prev, questions: [] }))}
+                      onCitationClick={showCitation}
+                      disabled={processingState.status === ProcessingStatus.PROCESSING}
+                    />
+                  )}
+                </div>
+              </div>
+            </div>
+          )}
+
+          {/* Library */}
+          {step === AppStep.LIBRARY && (
+            <MeetingLibrary
+              currentMeetingId={meetingId}
+              onOpen={(record) => openMeeting(record).catch(e => handleError(e, 'Failed to open meeting.'))}
+              onRerun={rerunMeeting}
+              onDeleted={(id) => id === meetingId && resetApp()}
+              disabled={processingState.status === ProcessingStatus.PROCESSING}
+            />
+          )}
+
+          {/* Batch queue */}
+          {step === AppStep.BATCH && (
+            <BatchQueue
+              templates={templates}
+              selectedTemplateId={getTemplate(templateId, templates).id}
+              languageSettings={languageSettings}
+              onLanguageSettingsChange={handleLanguageSettingsChange}
+              onOpenMeeting={openMeetingById}
+            />
+          )}
+
+          {/* Action item tracker */}
+          {step === AppStep.ACTIONS && (
+            <ActionItemTracker
+              currentMeetingId={meetingId}
+              currentData={data}
+              onUpdateItem={handleUpdateTrackedItem}
+              onOpenItem={openActionItem}
+              disabled={processingState.status === ProcessingStatus.PROCESSING}
+            />
+          )}
+
+          {/* Usage and cost */}
+          {step === AppStep.USAGE && (
+            <UsageView
+              onOpenMeeting={openMeetingById}
+              disabled={processingState.status === ProcessingStatus.PROCESSING}
+            />
           )}
 
           {/* Minutes Step */}
           {step === AppStep.MINUTES && (
-            <MinutesView
-              minutes={data.minutes}
-              fileName={data.fileName}
-              onBack={() => setStep(AppStep.TRANSCRIBE)}
-              onReset={resetApp}
-            />
+            <div className="flex gap-4 h-full">
+              <div className="flex-1 min-w-0">
+                <MinutesView
+                  minutes={data.minutes!}
+                  onExport={() => setShowExportDialog(true)}
+                  onMinutesChange={editMinutes}
+                  onRegeneratePart={handleRegenerateMinutesPart}
+                  onFollowUp={handleFollowUp}
+                  onBack={() => setStep(AppStep.TRANSCRIBE)}
+                  onReset={resetApp}
+                  processingState={processingState}
+                  onCancel={handleCancel}
+                  history={historyControls('minutes')}
+                />
+              </div>
+              <div className="hidden lg:block w-80 shrink-0">
+                <MeetingQA
+                  transcript={data.transcript}
+                  questions={data.questions}
+                  onAsk={handleAskQuestion}
+                  onClear={() => setData(prev => ({ ...prev, questions: [] }))}
+                  onCitationClick={showCitation}
+                  disabled={processingState.status === ProcessingStatus.PROCESSING}
+                />
+              </div>
+            </div>
           )}
 
         </div>
       </main>
       
+      {historyDialog && (
+        <RevisionHistory
+          document={historyDialog}
+          onDocumentChange={setHistoryDialog}
+          history={history}
+          currentRevisionIds={{ transcript: currentRevisionId('transcript'), minutes: currentRevisionId('minutes') }}
+          transcript={data.transcript}
+          minutes={data.minutes}
+          editorName={editorName}
+          onEditorNameChange={handleEditorNameChange}
+          onRename={handleRenameRevision}
+          onRestore={handleRestoreRevision}
+          onClose={() => setHistoryDialog(null)}
+        />
+      )}
+
+      {showProviderSettings && (
+        <ProviderSettingsPanel
+          settings={providerSettings}
+          onSave={handleSaveProviderSettings}
+          onClose={() => setShowProviderSettings(false)}
+        />
+      )}
+
+      {showTemplateManager && (
+        <TemplateManager
+          templates={templates}
+          onSaveCustomTemplates={handleSaveCustomTemplates}
+          onClose={() => setShowTemplateManager(false)}
+        />
+      )}
+
+      {showExportDialog && (
+        <ExportDialog
+          data={data}
+          onClose={() => setShowExportDialog(false)}
+          onError={(error) => handleError(error, "Failed to export the meeting.")}
+        />
+      )}
+
+      {showGlossaryManager && (
+        <GlossaryManager
+          glossary={glossary}
+          onSave={handleSaveGlossary}
+          onClose={() => setShowGlossaryManager(false)}
+        />
+      )}
+
+      {showRedactionManager && (
+        <RedactionManager
+          settings={redactionSettings}
+          onSave={handleSaveRedactionSettings}
+          onClose={() => setShowRedactionManager(false)}
+        />
+      )}
+
       {/* Footer */}
       <footer className="py-6 border-t border-gray-200 text-center text-sm text-gray-500">
         <p>© 2024 MeetingMind AI. Open Source under MIT License.</p>
@@ -0,0 +1,26 @@
+import { spawn, spawnSync } from 'node:child_process';
+import { DecodedAudio, TARGET_SAMPLE_RATE } from '../utils/audioChunker';
+
+export const hasFfmpeg = (): boolean => !spawnSync('ffmpeg', ['-version'], { stdio: 'ignore' }).error;
+
+/**
+ * Decodes an audio file to mono 32-bit float PCM at 16 kHz with ffmpeg, the Node counterpart of
+ * the browser's decoder. Reads from the path, as MP4/M4A cannot be decoded from a pipe.
+ */
+export const decodeWithFfmpeg = (path: string): Promise<DecodedAudio> =>
+  new Promise((resolve, reject) => {
+    const ffmpeg = spawn('ffmpeg', ['-v', 'error', '-i', path, '-f', 'f32le', '-ac', '1', '-ar', String(TARGET_SAMPLE_RATE), 'pipe:1']);
+    const chunks: Buffer[] = [];
+    let stderr = '';
+    ffmpeg.stdout.on('data', (chunk: Buffer) => chunks.push(chunk));
+    ffmpeg.stderr.on('data', (chunk: Buffer) => (stderr += chunk));
+    ffmpeg.on('error', reject);
+    ffmpeg.on('close', code => {
+      if (code !== 0) return reject(new Error(`ffmpeg exited with ${code}: ${stderr.trim()}`));
+      const bytes = Buffer.concat(chunks);
+      // Copied into a fresh buffer: the concatenated one need not be aligned for floats
+      const samples = new Float32Array(Math.floor(bytes.length / 4));
+      new Uint8Array(samples.buffer).set(bytes.subarray(0, samples.length * 4));
+      resolve({ samples, sampleRate: TARGET_SAMPLE_RATE });
+    });
+  });
@@ -0,0 +1,317 @@
+/**
+ * Runs the transcribe → correct → minutes pipeline on recordings from the command line, e.g. on a
+ * server that picks up the nightly recordings from a shared drive. Outputs are written next to each
+ * recording; recordings whose outputs already exist are skipped, so the same folder can be run again.
+ *
+ *   npm run build:cli
+ *   GEMINI_API_KEY=... node dist/cli/meetingmind.js --template sqdc-daily --language zh-TW /mnt/recordings
+ */
+import { readFile, readdir, rename, stat, writeFile } from 'node:fs/promises';
+import { basename, dirname, extname, join, parse, resolve } from 'node:path';
+import { parseArgs } from 'node:util';
+import {
+  GlossaryTerm,
+  LanguageSettings,
+  MeetingData,
+  MinutesTemplate,
+  ModelPrice,
+  ModelUsage,
+  ProviderId,
+  ProviderSettings,
+  RedactionSettings,
+  SpeakerProfile,
+} from '../types';
+import { generateMinutesFor, processRecording } from '../services/meetingPipeline';
+import { BUILT_IN_TEMPLATES, DEFAULT_TEMPLATE_ID } from '../services/minutesTemplates';
+import { DEFAULT_LANGUAGE_SETTINGS, LANGUAGES, getLanguage } from '../services/languages';
+import { glossaryFromCsv } from '../services/glossary';
+import { DEFAULT_PRICES, formatCost, totalCost } from '../services/usage';
+import { BUNDLE_FORMAT, buildMeetingBundle } from '../services/export';
+import { DEFAULT_PROVIDER_SETTINGS, LLMProvider, classifyError, getProvider } from '../services/providers';
+import { withRedaction } from '../services/providers/redactingProvider';
+import { DEFAULT_REDACTION_SETTINGS } from '../utils/redaction';
+import { minutesToMarkdown } from '../utils/minutes';
+import { formatTranscriptText } from '../utils/transcript';
+import { isAbortError } from '../utils/abort';
+import { decodeWithFfmpeg, hasFfmpeg } from './ffmpeg';
+
+const USAGE = `Usage: meetingmind [options] <directory or audio file>...
+
+Writes <name>_transcript.md, <name>_minutes.md and <name>_meeting.json next to every recording.
+The JSON bundle records how far a recording got: a later run skips it, or only adds the minutes.
+
+Options:
+  -t, --template <id>     Minutes template (default: ${DEFAULT_TEMPLATE_ID})
+  -l, --language <code>   Language of the transcript and minutes (default: ${DEFAULT_LANGUAGE_SETTINGS.transcriptLanguage})
+      --spoken <code>     Language spoken in the recordings (default: detect)
+      --bilingual         Keep every utterance in the spoken language next to its translation
+      --transcript-only   Do not write minutes
+  -p, --provider <name>   gemini, openai or demo (default: from the settings file, else gemini)
+  -s, --settings <file>   JSON file with provider, glossary, knownSpeakers, redaction, templates and prices
+  -f, --force             Process recordings again even if their outputs exist
+  -h, --help              Show this help
+
+Environment: GEMINI_API_KEY (or API_KEY) for Gemini, OPENAI_API_KEY for an OpenAI-compatible server.`;
+
+const AUDIO_TYPES: Record<string, string> = {
+  '.mp3': 'audio/mpeg',
+  '.wav': 'audio/wav',
+  '.m4a': 'audio/mp4',
+  '.mp4': 'audio/mp4',
+  '.aac': 'audio/aac',
+  '.ogg': 'audio/ogg',
+  '.opus': 'audio/ogg',
+  '.flac': 'audio/flac',
+  '.webm': 'audio/webm',
+};
+
+const PROVIDER_NAMES: Record<string, ProviderId> = {
+  gemini: ProviderId.GEMINI,
+  openai: ProviderId.OPENAI_COMPATIBLE,
+  demo: ProviderId.FAKE,
+};
+
+// What the browser keeps in its storage, handed to the CLI as one file. `glossary` may also be
+// the path of a CSV exported from the glossary manager, relative to the settings file.
+interface CliSettings {
+  provider?: Partial<ProviderSettings>;
+  glossary?: GlossaryTerm[] | string;
+  knownSpeakers?: SpeakerProfile[];
+  redaction?: Partial<RedactionSettings>;
+  templates?: MinutesTemplate[];
+  prices?: ModelPrice[];
+}
+
+interface RunConfig {
+  provider: LLMProvider;
+  glossary: GlossaryTerm[];
+  knownSpeakers: SpeakerProfile[];
+  template: MinutesTemplate;
+  language: LanguageSettings;
+  prices: ModelPrice[];
+  minutes: boolean;
+  force: boolean;
+  ffmpeg: boolean;
+}
+
+type Outcome = 'done' | 'skipped' | 'failed';
+
+const outputPaths = (audioPath: string) => {
+  const { dir, name } = parse(audioPath);
+  return {
+    transcript: join(dir, `${name}_transcript.md`),
+    minutes: join(dir, `${name}_minutes.md`),
+    bundle: join(dir, `${name}_meeting.json`),
+  };
+};
+
+// Written under a temporary name first, so a run that dies midway leaves no half file that looks finished
+const writeAtomically = async (path: string, content: string) => {
+  await writeFile(`${path}.partial`, content, 'utf8');
+  await rename(`${path}.partial`, path);
+};
+
+const readSettings = async (path: string | undefined): Promise<CliSettings> => {
+  if (!path) return {};
+  const settings: CliSettings = JSON.parse(await readFile(path, 'utf8'));
+  if (typeof settings.glossary === 'string') {
+    settings.glossary = glossaryFromCsv(await readFile(resolve(dirname(path), settings.glossary), 'utf8'));
+  }
+  return settings;
+};
+
+/**
+ * The recordings named on the command line; directories contribute the audio files directly inside them.
+ */
+const collectRecordings = async (inputs: string[]): Promise<string[]> => {
+  const found: string[] = [];
+  for (const input of inputs) {
+    const path = resolve(input);
+    if ((await stat(path)).isDirectory()) {
+      const names = (await readdir(path)).filter(name => extname(name).toLowerCase() in AUDIO_TYPES).sort();
+      found.push(...names.map(name => join(path, name)));
+    } else if (extname(path).toLowerCase() in AUDIO_TYPES) {
+      found.push(path);
+    } else {
+      console.warn(`Skipping ${input}: not a supported audio file (${Object.keys(AUDIO_TYPES).join(' ')}).`);
+    }
+  }
+  return Array.from(new Set(found));
+};
+
+// A bundle from an earlier run, or null when there is none to go on from
+const readBundle = async (path: string): Promise<MeetingData | null> => {
+  try {
+    const bundle = JSON.parse(await readFile(path, 'utf8'));
+    return bundle?.format === BUNDLE_FORMAT && bundle.meeting ? bundle.meeting : null;
+  } catch {
+    return null;
+  }
+};
+
+const transcriptMarkdown = (data: MeetingData) =>
+  `# ${data.fileName}\n\n${formatTranscriptText(data.transcript).split('\n').join('\n\n')}\n`;
+
+const usageSummary = (usage: ModelUsage[], prices: ModelPrice[]): string => {
+  const sum = (pick: (u: ModelUsage) => number) => usage.reduce((total, u) => total + pick(u), 0);
+  return `${usage.length} calls, ${sum(u => u.promptTokens).toLocaleString()} tokens in / ${sum(u => u.responseTokens).toLocaleString()} out, ` +
+    `${(sum(u => u.audioSeconds) / 60).toFixed(1)} min audio, estimated ${formatCost(totalCost(usage, prices))}`;
+};
+
+const processFile = async (audioPath: string, label: string, config: RunConfig, signal: AbortSignal, usage: ModelUsage[]): Promise<Outcome> => {
+  const paths = outputPaths(audioPath);
+  const log = (message: string) => console.log(`${label} ${basename(audioPath)}: ${message}`);
+
+  const previous = config.force ? null : await readBundle(paths.bundle);
+  if (previous && (previous.minutes || !config.minutes)) {
+    log('already processed, skipping');
+    return 'skipped';
+  }
+
+  const fileUsage: ModelUsage[] = [];
+  const options = {
+    signal,
+    provider: config.provider,
+    onUsage: (u: ModelUsage) => fileUsage.push(u),
+  };
+  try {
+    let data = previous;
+    if (data) {
+      log('transcript from an earlier run found, writing the minutes');
+    } else {
+      const { mtimeMs } = await stat(audioPath);
+      const file = new File([await readFile(audioPath)], basename(audioPath), {
+        type: AUDIO_TYPES[extname(audioPath).toLowerCase()],
+        lastModified: mtimeMs,
+      });
+      let lastMessage = '';
+      data = await processRecording(file, { knownSpeakers: config.knownSpeakers, glossary: config.glossary, language: config.language }, {
+        ...options,
+        // Without ffmpeg the recording goes whole; the warning at startup says so once
+        decodeAudio: config.ffmpeg ? () => decodeWithFfmpeg(audioPath) : null,
+        onProgress: (_fraction, message) => {
+          if (message !== lastMessage) log(message);
+          lastMessage = message;
+        },
+      });
+      await writeAtomically(paths.transcript, transcriptMarkdown(data));
+      // Saved before the minutes, so a failure there does not cost the transcription again
+      await writeAtomically(paths.bundle, JSON.stringify(buildMeetingBundle(data), null, 2));
+    }
+
+    if (config.minutes) {
+      log(`generating minutes (${config.template.name})...`);
+      const minutes = await generateMinutesFor(data, config.template, [], options);
+      data = { ...data, minutes };
+      await writeAtomically(paths.minutes, minutesToMarkdown(minutes));
+      await writeAtomically(paths.bundle, JSON.stringify(buildMeetingBundle(data), null, 2));
+    }
+    log(`done (${usageSummary(fileUsage, config.prices)})`);
+    return 'done';
+  } catch (error) {
+    if (isAbortError(error)) throw error;
+    const classified = classifyError(error);
+    log(`failed: ${classified.message}`);
+    return 'failed';
+  } finally {
+    usage.push(...fileUsage);
+  }
+};
+
+const main = async (): Promise<number> => {
+  const { values, positionals } = parseArgs({
+    allowPositionals: true,
+    options: {
+      template: { type: 'string', short: 't', default: DEFAULT_TEMPLATE_ID },
+      language: { type: 'string', short: 'l', default: DEFAULT_LANGUAGE_SETTINGS.transcriptLanguage },
+      spoken: { type: 'string', default: '' },
+      bilingual: { type: 'boolean', default: false },
+      'transcript-only': { type: 'boolean', default: false },
+      provider: { type: 'string', short: 'p' },
+      settings: { type: 'string', short: 's' },
+      force: { type: 'boolean', short: 'f', default: false },
+      help: { type: 'boolean', short: 'h', default: false },
+    },
+  });
+  if (values.help || positionals.length === 0) {
+    console.log(USAGE);
+    return values.help ? 0 : 2;
+  }
+
+  const unknownLanguage = [values.language, values.spoken].find(code => code && !getLanguage(code));
+  if (unknownLanguage) {
+    console.error(`Unknown language "${unknownLanguage}". Use one of: ${LANGUAGES.map(l => l.code).join(', ')}.`);
+    return 2;
+  }
+  if (values.provider && !(values.provider in PROVIDER_NAMES)) {
+    console.error(`Unknown provider "${values.provider}". Use one of: ${Object.keys(PROVIDER_NAMES).join(', ')}.`);
+    return 2;
+  }
+
+  const settings = await readSettings(values.settings);
+  const templates = [...BUILT_IN_TEMPLATES, ...(settings.templates || [])];
+  const template = templates.find(t => t.id === values.template);
+  if (!template) {
+    console.error(`Unknown template "${values.template}". Available: ${templates.map(t => t.id).join(', ')}.`);
+    return 2;
+  }
+
+  // The Gemini provider reads API_KEY, as the web build defines it
+  process.env.API_KEY ||= process.env.GEMINI_API_KEY;
+  const providerSettings: ProviderSettings = {
+    ...DEFAULT_PROVIDER_SETTINGS,
+    openAIApiKey: process.env.OPENAI_API_KEY || '',
+    ...settings.provider,
+    ...(values.provider && { providerId: PROVIDER_NAMES[values.provider] }),
+  };
+  const redaction: RedactionSettings = { ...DEFAULT_REDACTION_SETTINGS, ...settings.redaction };
+
+  const config: RunConfig = {
+    provider: withRedaction(getProvider(providerSettings), redaction),
+    glossary: (settings.glossary as GlossaryTerm[] | undefined) || [],
+    knownSpeakers: settings.knownSpeakers || [],
+    template,
+    language: { ...DEFAULT_LANGUAGE_SETTINGS, sourceLanguage: values.spoken, transcriptLanguage: values.language, bilingual: values.bilingual },
+    prices: settings.prices || DEFAULT_PRICES,
+    minutes: !values['transcript-only'],
+    force: values.force,
+    ffmpeg: hasFfmpeg(),
+  };
+  if (!config.ffmpeg) {
+    console.warn('ffmpeg not found: recordings are sent whole instead of in chunks, and formats such as WebM are sent as recorded.');
+  }
+
+  const recordings = await collectRecordings(positionals);
+  if (recordings.length === 0) {
+    console.log('No recordings found.');
+    return 0;
+  }
+
+  // Ctrl+C stops the recording in progress; its outputs are not written, so the next run redoes it
+  const controller = new AbortController();
+  process.once('SIGINT', () => controller.abort());
+
+  const usage: ModelUsage[] = [];
+  const outcomes: Outcome[] = [];
+  try {
+    for (const [i, path] of recordings.entries()) {
+      outcomes.push(await processFile(path, `[${i + 1}/${recordings.length}]`, config, controller.signal, usage));
+    }
+  } catch (error) {
+    if (!isAbortError(error)) throw error;
+    console.log('Cancelled.');
+    return 130;
+  } finally {
+    const count = (outcome: Outcome) => outcomes.filter(o => o === outcome).length;
+    console.log(`\n${count('done')} processed, ${count('skipped')} skipped, ${count('failed')} failed. ${usageSummary(usage, config.prices)}.`);
+  }
+  return outcomes.includes('failed') ? 1 : 0;
+};
+
+main().then(
+  code => process.exit(code),
+  error => {
+    console.error(error?.message || error);
+    process.exit(1);
+  },
+);
@@ -0,0 +1,154 @@
+import React, { useMemo, useState } from 'react';
+import { ActionItem, ActionItemPriority, ActionItemStatus } from '../types';
+import { PRIORITY_LABELS, STATUS_LABELS, createActionItem } from '../utils/minutes';
+
+interface ActionItemTableProps {
+  items: ActionItem[];
+  onChange: (items: ActionItem[]) => void;
+}
+
+type SortKey = 'task' | 'owner' | 'productionLine' | 'dueDate' | 'priority' | 'status';
+
+const PRIORITY_ORDER = [ActionItemPriority.HIGH, ActionItemPriority.MEDIUM, ActionItemPriority.LOW];
+const STATUS_ORDER = [ActionItemStatus.OPEN, ActionItemStatus.IN_PROGRESS, ActionItemStatus.DONE];
+
+const compareItems = (a: ActionItem, b: ActionItem, key: SortKey): number => {
+  switch (key) {
+    case 'priority':
+      return PRIORITY_ORDER.indexOf(a.priority) - PRIORITY_ORDER.indexOf(b.priority);
+    case 'status':
+      return STATUS_ORDER.indexOf(a.status) - STATUS_ORDER.indexOf(b.status);
+    case 'dueDate':
+      // Items without a due date go last
+      return (a.dueDate || '9999').localeCompare(b.dueDate || '9999');
+    default:
+      return a[key].localeCompare(b[key]);
+  }
+};
+
+const COLUMNS: { key: SortKey; label: string; className: string }[] = [
+  { key: 'task', label: 'Task', className: 'w-auto' },
+  { key: 'owner', label: 'Owner', className: 'w-36' },
+  { key: 'productionLine', label: 'Line', className: 'w-28' },
+  { key: 'dueDate', label: 'Due', className: 'w-36' },
+  { key: 'priority', label: 'Priority', className: 'w-28' },
+  { key: 'status', label: 'Status', className: 'w-32' },
+];
+
+const ActionItemTable: React.FC<ActionItemTableProps> = ({ items, onChange }) => {
+  const [sort, setSort] = useState<{ key: SortKey; ascending: boolean } | null>(null);
+  const [statusFilter, setStatusFilter] = useState<ActionItemStatus | ''>('');
+  const [ownerFilter, setOwnerFilter] = useState('');
+
+  const visible = useMemo(() => {
+    const owner = ownerFilter.trim().toLowerCase();
+    const filtered = items.filter(item =>
+      (!statusFilter || item.status === statusFilter) && (!owner || item.owner.toLowerCase().includes(owner))
+    );
+    if (!sort) return filtered;
+    return [...filtered].sort((a, b) => compareItems(a, b, sort.key) * (sort.ascending ? 1 : -1));
+  }, [items, sort, statusFilter, ownerFilter]);
+
+  const toggleSort = (key: SortKey) => {
+    setSort(prev => (prev?.key === key ? { key, ascending: !prev.ascending } : { key, ascending: true }));
+  };
+
+  const updateItem = (id: string, patch: Partial<ActionItem>) => {
+    onChange(items.map(item => (item.id === id ? { ...item, ...patch } : item)));
+  };
+
+  const cellInput = "w-full px-2 py-1 text-sm bg-transparent border border-transparent rounded hover:border-gray-200 focus:border-indigo-300 focus:outline-none";
+
+  return (
+    <div>
+      <div className="flex flex-wrap items-center gap-2 mb-2">
+        <select
+          value={statusFilter}
+          onChange={(e) => setStatusFilter(e.target.value as ActionItemStatus | '')}
+          className="text-sm border border-gray-300 rounded-md px-2 py-1 bg-white"
+        >
+          <option value="">All statuses</option>
+          {STATUS_ORDER.map(status => <option key={status} value={status}>{STATUS_LABELS[status]}</option>)}
+        </select>
+        <input
+          value={ownerFilter}
+          onChange={(e) => setOwnerFilter(e.target.value)}
+          placeholder="Filter by owner"
+          className="text-sm border border-gray-300 rounded-md px-2 py-1"
+        />
+        <span className="text-xs text-gray-400">{visible.length} of {items.length}</span>
+      </div>
+
+      <div className="overflow-x-auto border border-gray-200 rounded-lg">
+        <table className="w-full text-sm">
+          <thead className="bg-gray-50 text-left text-xs font-semibold text-gray-600 uppercase tracking-wide">
+            <tr>
+              {COLUMNS.map(column => (
+                <th key={column.key} className={`px-2 py-2 ${column.className}`}>
+                  <button onClick={() => toggleSort(column.key)} className="flex items-center gap-1 hover:text-gray-900">
+                    {column.label}
+                    {sort?.key === column.key && <span>{sort.ascending ? '▲' : '▼'}</span>}
+                  </button>
+                </th>
+              ))}
+              <th className="w-8"></th>
+            </tr>
+          </thead>
+          <tbody className="divide-y divide-gray-100">
+            {visible.map(item => (
+              <tr key={item.id} className={item.status === ActionItemStatus.DONE ? 'text-gray-400' : 'text-gray-700'}>
+                <td className="px-1 py-1">
+                  <input className={cellInput} value={item.task} onChange={(e) => updateItem(item.id, { task: e.target.value })} />
+                </td>
+                <td className="px-1 py-1">
+                  <input className={cellInput} value={item.owner} onChange={(e) => updateItem(item.id, { owner: e.target.value })} />
+                </td>
+                <td className="px-1 py-1">
+                  <input className={cellInput} value={item.productionLine} onChange={(e) => updateItem(item.id, { productionLine: e.target.value })} />
+                </td>
+                <td className="px-1 py-1">
+                  <input type="date" className={cellInput} value={item.dueDate} onChange={(e) => updateItem(item.id, { dueDate: e.target.value })} />
+                </td>
+                <td className="px-1 py-1">
+                  <select className={cellInput} value={item.priority} onChange={(e) => updateItem(item.id, { priority: e.target.value as ActionItemPriority })}>
+                    {PRIORITY_ORDER.map(p => <option key={p} value={p}>{PRIORITY_LABELS[p]}</option>)}
+                  </select>
+                </td>
+                <td className="px-1 py-1">
+                  <select className={cellInput} value={item.status} onChange={(e) => updateItem(item.id, { status: e.target.value as ActionItemStatus })}>
+                    {STATUS_ORDER.map(s => <option key={s} value={s}>{STATUS_LABELS[s]}</option>)}
+                  </select>
+                </td>
+                <td className="px-1 py-1 text-center">
+                  <button
+                    onClick={() => onChange(items.filter(i => i.id !== item.id))}
+                    className="p-1 text-gray-400 hover:text-red-600"
+                    title="Remove action item"
+                  >
+                    <svg xmlns="http://www.w3.org/2000/svg" fill="none" viewBox="0 0 24 24" strokeWidth={1.5} stroke="currentColor" className="w-4 h-4">
+                      <path strokeLinecap="round" strokeLinejoin="round" d="M6 18L18 6M6 6l12 12" />
+                    </svg>
+                  </button>
+                </td>
+              </tr>
+            ))}
+            {visible.length === 0 && (
+              <tr>
+                <td colSpan={COLUMNS.length + 1} className="px-3 py-4 text-center text-gray-400">No action items.</td>
+              </tr>
+            )}
+          </tbody>
+        </table>
+      </div>
+
+      <button
+        onClick={() => onChange([...items, createActionItem()])}
+        className="mt-2 text-sm font-medium text-indigo-600 hover:text-indigo-800"
+      >
+        + Add action item
+      </button>
+    </div>
+  );
+};
+
+export default ActionItemTable;
@@ -0,0 +1,212 @@
+import React, { useEffect, useMemo, useState } from 'react';
+import { ActionItem, ActionItemStatus, MeetingData, MeetingRecord, TrackedActionItem } from '../types';
+import { listMeetings } from '../services/meetingLibrary';
+import { collectActionItems, isOverdue, todayIso } from '../services/actionItemTracker';
+import { STATUS_LABELS } from '../utils/minutes';
+
+interface ActionItemTrackerProps {
+  // The open meeting may have edits not saved yet; its items come from here instead of the library
+  currentMeetingId: string | null;
+  currentData: MeetingData;
+  onUpdateItem: (tracked: TrackedActionItem, patch: Partial<ActionItem>) => Promise<void>;
+  // Opens the item's meeting, at the transcript line it was assigned in when `showLine` is set
+  onOpenItem: (tracked: TrackedActionItem, showLine: boolean) => void;
+  disabled: boolean;
+}
+
+type DueFilter = '' | 'overdue' | 'week' | 'none';
+// '' shows everything not done yet
+type StatusFilter = '' | 'ALL' | ActionItemStatus;
+
+const STATUS_ORDER = [ActionItemStatus.OPEN, ActionItemStatus.IN_PROGRESS, ActionItemStatus.DONE];
+const UNASSIGNED = '__unassigned__';
+
+const addDays = (isoDate: string, days: number): string => {
+  const date = new Date(`${isoDate}T00:00:00Z`);
+  date.setUTCDate(date.getUTCDate() + days);
+  return date.toISOString().slice(0, 10);
+};
+
+const matchesDue = (item: ActionItem, filter: DueFilter, today: string): boolean => {
+  switch (filter) {
+    case 'overdue':
+      return isOverdue(item, today);
+    case 'week':
+      return !!item.dueDate && item.dueDate >= today && item.dueDate <= addDays(today, 7);
+    case 'none':
+      return !item.dueDate;
+    default:
+      return true;
+  }
+};
+
+const distinct = (values: string[]) => Array.from(new Set(values.filter(Boolean))).sort((a, b) => a.localeCompare(b));
+
+const ActionItemTracker: React.FC<ActionItemTrackerProps> = ({ currentMeetingId, currentData, onUpdateItem, onOpenItem, disabled }) => {
+  const [records, setRecords] = useState<MeetingRecord[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+  const [ownerFilter, setOwnerFilter] = useState('');
+  const [lineFilter, setLineFilter] = useState('');
+  const [dueFilter, setDueFilter] = useState<DueFilter>('');
+  const [statusFilter, setStatusFilter] = useState<StatusFilter>('');
+
+  const refresh = async () => {
+    try {
+      setRecords(await listMeetings());
+      setError(null);
+    } catch (e: any) {
+      setError(e?.message || 'Could not read the meeting library.');
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  useEffect(() => {
+    refresh();
+  }, []);
+
+  const today = todayIso();
+  const items = useMemo(
+    () => collectActionItems(records.map(record => (record.id === currentMeetingId ? { ...record, data: currentData } : record))),
+    [records, currentMeetingId, currentData]
+  );
+
+  const owners = useMemo(() => distinct(items.map(t => t.item.owner)), [items]);
+  const lines = useMemo(() => distinct(items.map(t => t.item.productionLine)), [items]);
+
+  const visible = useMemo(() => items
+    .filter(({ item }) =>
+      (!ownerFilter || (ownerFilter === UNASSIGNED ? !item.owner : item.owner === ownerFilter)) &&
+      (!lineFilter || item.productionLine === lineFilter) &&
+      matchesDue(item, dueFilter, today) &&
+      (statusFilter === 'ALL' || (statusFilter ? item.status === statusFilter : item.status !== ActionItemStatus.DONE))
+    )
+    // Soonest due first, items without a due date last
+    .sort((a, b) => (a.item.dueDate || '9999').localeCompare(b.item.dueDate || '9999')),
+  [items, ownerFilter, lineFilter, dueFilter, statusFilter, today]);
+
+  const openCount = items.filter(t => t.item.status !== ActionItemStatus.DONE).length;
+  const overdueCount = items.filter(t => isOverdue(t.item, today)).length;
+
+  const updateItem = async (tracked: TrackedActionItem, patch: Partial<ActionItem>) => {
+    try {
+      await onUpdateItem(tracked, patch);
+      if (tracked.meetingId !== currentMeetingId) await refresh();
+    } catch (e: any) {
+      alert(`Could not update the action item: ${e?.message || e}`);
+    }
+  };
+
+  const filterClass = "text-sm border border-gray-300 rounded-md px-2 py-1 bg-white";
+
+  return (
+    <div className="flex flex-col h-full bg-white rounded-xl shadow-sm border border-gray-200 overflow-hidden">
+      <div className="p-4 border-b border-gray-200 bg-gray-50 flex flex-col sm:flex-row justify-between items-center gap-4">
+        <div>
+          <h2 className="text-lg font-semibold text-gray-800">Action Items</h2>
+          <p className="text-sm text-gray-500">
+            {openCount} open across all saved meetings
+            {overdueCount > 0 && <span className="ml-2 px-1.5 py-0.5 text-xs font-medium text-red-800 bg-red-100 rounded">{overdueCount} overdue</span>}
+          </p>
+        </div>
+        <div className="flex flex-wrap gap-2">
+          <select value={ownerFilter} onChange={(e) => setOwnerFilter(e.target.value)} className={filterClass}>
+            <option value="">All owners</option>
+            {owners.map(owner => <option key={owner} value={owner}>{owner}</option>)}
+            <option value={UNASSIGNED}>Unassigned</option>
+          </select>
+          <select value={lineFilter} onChange={(e) => setLineFilter(e.target.value)} className={filterClass}>
+            <option value="">All lines</option>
+            {lines.map(line => <option key={line} value={line}>{line}</option>)}
+          </select>
+          <select value={dueFilter} onChange={(e) => setDueFilter(e.target.value as DueFilter)} className={filterClass}>
+            <option value="">Any due date</option>
+            <option value="overdue">Overdue</option>
+            <option value="week">Due within 7 days</option>
+            <option value="none">No due date</option>
+          </select>
+          <select value={statusFilter} onChange={(e) => setStatusFilter(e.target.value as StatusFilter)} className={filterClass}>
+            <option value="">Not done</option>
+            {STATUS_ORDER.map(status => <option key={status} value={status}>{STATUS_LABELS[status]}</option>)}
+            <option value="ALL">All statuses</option>
+          </select>
+        </div>
+      </div>
+
+      <div className="flex-1 overflow-y-auto">
+        {loading && <p className="p-6 text-sm text-gray-400">Loading...</p>}
+        {error && <p className="p-6 text-sm text-red-600">{error}</p>}
+        {!error && !loading && visible.length === 0 && (
+          <p className="p-6 text-sm text-gray-400">
+            {items.length === 0 ? 'No action items yet. They are collected from the minutes of saved meetings.' : 'No action items match the filters.'}
+          </p>
+        )}
+        {visible.length > 0 && (
+          <table className="w-full text-sm">
+            <thead className="sticky top-0 bg-gray-50 text-left text-xs font-semibold text-gray-600 uppercase tracking-wide">
+              <tr>
+                <th className="px-4 py-2">Task</th>
+                <th className="px-2 py-2 w-32">Owner</th>
+                <th className="px-2 py-2 w-24">Line</th>
+                <th className="px-2 py-2 w-32">Due</th>
+                <th className="px-2 py-2 w-32">Status</th>
+                <th className="px-2 py-2 w-48">From</th>
+              </tr>
+            </thead>
+            <tbody className="divide-y divide-gray-100">
+              {visible.map(tracked => {
+                const { item } = tracked;
+                const overdue = isOverdue(item, today);
+                return (
+                  <tr key={`${tracked.meetingId}:${item.id}`} className={item.status === ActionItemStatus.DONE ? 'text-gray-400' : 'text-gray-700'}>
+                    <td className="px-4 py-2">{item.task}</td>
+                    <td className="px-2 py-2">{item.owner || <span className="text-gray-400">-</span>}</td>
+                    <td className="px-2 py-2">{item.productionLine || <span className="text-gray-400">-</span>}</td>
+                    <td className="px-2 py-2">
+                      {item.dueDate || <span className="text-gray-400">-</span>}
+                      {overdue && <span className="ml-1 px-1.5 py-0.5 text-xs font-medium text-red-800 bg-red-100 rounded">Overdue</span>}
+                    </td>
+                    <td className="px-2 py-2">
+                      <select
+                        value={item.status}
+                        onChange={(e) => updateItem(tracked, { status: e.target.value as ActionItemStatus })}
+                        disabled={disabled}
+                        className="w-full px-1 py-0.5 text-sm bg-transparent border border-transparent rounded hover:border-gray-200 focus:border-indigo-300 focus:outline-none disabled:opacity-50"
+                      >
+                        {STATUS_ORDER.map(status => <option key={status} value={status}>{STATUS_LABELS[status]}</option>)}
+                      </select>
+                    </td>
+                    <td className="px-2 py-2">
+                      <button
+                        onClick={() => onOpenItem(tracked, false)}
+                        disabled={disabled}
+                        className="block max-w-full text-left text-xs font-medium text-indigo-600 hover:text-indigo-800 truncate disabled:opacity-50"
+                        title={tracked.meetingTitle}
+                      >
+                        {tracked.meetingTitle}
+                      </button>
+                      <span className="text-xs text-gray-400">{new Date(tracked.meetingDate).toLocaleDateString()}</span>
+                      {item.sourceSegmentId && (
+                        <button
+                          onClick={() => onOpenItem(tracked, true)}
+                          disabled={disabled}
+                          className="ml-2 text-xs font-medium text-gray-500 hover:text-indigo-700 disabled:opacity-50"
+                          title="Show where it was assigned in the transcript"
+                        >
+                          Transcript line
+                        </button>
+                      )}
+                    </td>
+                  </tr>
+                );
+              })}
+            </tbody>
+          </table>
+        )}
+      </div>
+    </div>
+  );
+};
+
+export default ActionItemTracker;
@@ -0,0 +1,66 @@
+import React from 'react';
+import { formatTimestamp } from '../utils/transcript';
+
+interface AudioPlayerProps {
+  src: string;
+  audioRef: React.RefObject<HTMLAudioElement | null>;
+  currentTime: number;
+  playbackRate: number;
+  onTimeUpdate: (time: number) => void;
+  onPlayingChange: (playing: boolean) => void;
+  onPlaybackRateChange: (rate: number) => void;
+}
+
+export const PLAYBACK_RATES = [0.5, 0.75, 1, 1.25, 1.5, 2];
+
+export const PLAYER_SHORTCUTS = [
+  { keys: 'Ctrl+Space', action: 'Play / pause' },
+  { keys: 'Ctrl+B', action: 'Back 5 seconds' },
+  { keys: 'Ctrl+Shift+↓ / ↑', action: 'Slower / faster' },
+  { keys: 'Ctrl+M', action: 'Stamp current time on the focused line' },
+];
+
+const AudioPlayer: React.FC<AudioPlayerProps> = ({
+  src,
+  audioRef,
+  currentTime,
+  playbackRate,
+  onTimeUpdate,
+  onPlayingChange,
+  onPlaybackRateChange,
+}) => {
+  return (
+    <div className="px-4 py-2 border-b border-gray-200 bg-white flex flex-wrap items-center gap-3">
+      <audio
+        ref={audioRef}
+        src={src}
+        controls
+        className="h-9 flex-1 min-w-[240px]"
+        onTimeUpdate={(e) => onTimeUpdate(e.currentTarget.currentTime)}
+        onSeeked={(e) => onTimeUpdate(e.currentTarget.currentTime)}
+        onPlay={() => onPlayingChange(true)}
+        onPause={() => onPlayingChange(false)}
+        onLoadedMetadata={(e) => { e.currentTarget.playbackRate = playbackRate; }}
+      />
+      <span className="text-xs font-mono text-gray-500 w-16 text-right">{formatTimestamp(currentTime)}</span>
+      <select
+        value={playbackRate}
+        onChange={(e) => onPlaybackRateChange(Number(e.target.value))}
+        className="text-sm border border-gray-300 rounded-md px-2 py-1 bg-white"
+        title="Playback speed"
+      >
+        {PLAYBACK_RATES.map(rate => (
+          <option key={rate} value={rate}>{rate}×</option>
+        ))}
+      </select>
+      <span
+        className="text-xs text-gray-400 cursor-help"
+        title={PLAYER_SHORTCUTS.map(s => `${s.keys}: ${s.action}`).join('\n')}
+      >
+        Shortcuts
+      </span>
+    </div>
+  );
+};
+
+export default AudioPlayer;
@@ -0,0 +1,170 @@
+import React, { useEffect, useState } from 'react';
+import { BatchJob, BatchJobStatus, LanguageSettings, MinutesTemplate } from '../types';
+import {
+  MAX_BATCH_CONCURRENCY,
+  cancelBatchJob,
+  enqueueRecordings,
+  loadBatchConcurrency,
+  removeBatchJobs,
+  retryBatchJob,
+  setBatchConcurrency,
+  subscribeToBatchQueue,
+} from '../services/batchQueue';
+import FileDropzone from './FileDropzone';
+import LanguageSettingsBar from './LanguageSettingsBar';
+
+interface BatchQueueProps {
+  templates: MinutesTemplate[];
+  selectedTemplateId: string;
+  languageSettings: LanguageSettings;
+  onLanguageSettingsChange: (settings: LanguageSettings) => void;
+  onOpenMeeting: (meetingId: string) => void;
+}
+
+const STATUS_STYLES: Record<BatchJobStatus, { label: string; className: string }> = {
+  [BatchJobStatus.QUEUED]: { label: 'Queued', className: 'text-gray-600 bg-gray-100' },
+  [BatchJobStatus.RUNNING]: { label: 'Running', className: 'text-indigo-700 bg-indigo-100' },
+  [BatchJobStatus.DONE]: { label: 'Done', className: 'text-green-800 bg-green-100' },
+  [BatchJobStatus.ERROR]: { label: 'Failed', className: 'text-red-800 bg-red-100' },
+  [BatchJobStatus.CANCELLED]: { label: 'Cancelled', className: 'text-amber-800 bg-amber-100' },
+};
+
+const BatchQueue: React.FC<BatchQueueProps> = ({ templates, selectedTemplateId, languageSettings, onLanguageSettingsChange, onOpenMeeting }) => {
+  const [jobs, setJobs] = useState<BatchJob[]>([]);
+  const [concurrency, setConcurrency] = useState(loadBatchConcurrency);
+  const [autoMinutes, setAutoMinutes] = useState(true);
+  const [templateId, setTemplateId] = useState(selectedTemplateId);
+
+  useEffect(() => subscribeToBatchQueue(setJobs), []);
+
+  const queue = jobs.filter(job => job.status !== BatchJobStatus.DONE);
+  const results = jobs.filter(job => job.status === BatchJobStatus.DONE);
+
+  const handleFiles = (files: File[]) => {
+    enqueueRecordings(files, { autoMinutes, templateId, language: languageSettings })
+      .catch(e => alert(`Could not queue the recordings: ${e?.message || e}`));
+  };
+
+  const changeConcurrency = (value: number) => {
+    setConcurrency(value);
+    setBatchConcurrency(value);
+  };
+
+  const actionClass = "text-xs font-medium text-gray-600 hover:text-indigo-700";
+
+  return (
+    <div className="flex flex-col h-full bg-white rounded-xl shadow-sm border border-gray-200 overflow-hidden">
+      <div className="p-4 border-b border-gray-200 bg-gray-50 flex flex-col sm:flex-row justify-between items-center gap-4">
+        <div>
+          <h2 className="text-lg font-semibold text-gray-800">Batch Processing</h2>
+          <p className="text-sm text-gray-500">Queue a day of recordings; each one is saved to the library when it is done.</p>
+        </div>
+        <label className="flex items-center gap-2 text-sm text-gray-600">
+          Run at once
+          <select
+            value={concurrency}
+            onChange={(e) => changeConcurrency(Number(e.target.value))}
+            className="px-2 py-1.5 text-sm text-gray-700 bg-white border border-gray-300 rounded-lg shadow-sm"
+          >
+            {Array.from({ length: MAX_BATCH_CONCURRENCY }, (_, i) => i + 1).map(n => (
+              <option key={n} value={n}>{n}</option>
+            ))}
+          </select>
+        </label>
+      </div>
+
+      <div className="flex-1 overflow-y-auto p-4 space-y-4">
+        <LanguageSettingsBar settings={languageSettings} onChange={onLanguageSettingsChange} disabled={false} />
+        <div className="flex flex-wrap justify-center items-center gap-3 text-sm text-gray-600">
+          <label className="flex items-center gap-2">
+            <input
+              type="checkbox"
+              checked={autoMinutes}
+              onChange={(e) => setAutoMinutes(e.target.checked)}
+              className="rounded border-gray-300 text-indigo-600 focus:ring-indigo-500"
+            />
+            Generate minutes with
+          </label>
+          <select
+            value={templateId}
+            onChange={(e) => setTemplateId(e.target.value)}
+            disabled={!autoMinutes}
+            className="px-2 py-1.5 text-sm text-gray-700 bg-white border border-gray-300 rounded-lg shadow-sm disabled:opacity-50"
+          >
+            {templates.map(template => (
+              <option key={template.id} value={template.id}>{template.name}</option>
+            ))}
+          </select>
+        </div>
+        <FileDropzone onFilesSelect={handleFiles} disabled={false} />
+
+        {queue.length > 0 && (
+          <section>
+            <h3 className="mb-2 text-sm font-semibold text-gray-700">Queue ({queue.length})</h3>
+            <ul className="divide-y divide-gray-100 border border-gray-200 rounded-lg">
+              {queue.map(job => (
+                <li key={job.id} className="px-4 py-3">
+                  <div className="flex items-center gap-3">
+                    <span className={`px-2 py-0.5 text-xs font-medium rounded ${STATUS_STYLES[job.status].className}`}>
+                      {STATUS_STYLES[job.status].label}
+                    </span>
+                    <span className="flex-1 min-w-0 truncate text-sm font-medium text-gray-800" title={job.fileName}>{job.fileName}</span>
+                    {(job.status === BatchJobStatus.QUEUED || job.status === BatchJobStatus.RUNNING) && (
+                      <button onClick={() => cancelBatchJob(job.id)} className={actionClass}>Cancel</button>
+                    )}
+                    {(job.status === BatchJobStatus.ERROR || job.status === BatchJobStatus.CANCELLED) && (
+                      <>
+                        <button onClick={() => retryBatchJob(job.id)} className={actionClass}>Retry</button>
+                        <button onClick={() => removeBatchJobs([job.id])} className={actionClass}>Remove</button>
+                      </>
+                    )}
+                  </div>
+                  {job.status === BatchJobStatus.RUNNING && (
+                    <div className="mt-2 h-1.5 bg-gray-100 rounded-full overflow-hidden">
+                      <div className="h-full bg-indigo-600 transition-[width]" style={{ width: `${Math.round(job.progress * 100)}%` }} />
+                    </div>
+                  )}
+                  {job.status === BatchJobStatus.ERROR ? (
+                    <p className="mt-1 text-xs text-red-700 break-words">
+                      {job.meetingSaved ? 'The transcript is in the library; only the minutes failed. ' : ''}{job.error}
+                    </p>
+                  ) : job.status === BatchJobStatus.RUNNING && (
+                    <p className="mt-1 text-xs text-gray-500">{job.message}</p>
+                  )}
+                  {job.warning && <p className="mt-1 text-xs text-amber-700 break-words">{job.warning}</p>}
+                </li>
+              ))}
+            </ul>
+          </section>
+        )}
+
+        {results.length > 0 && (
+          <section>
+            <div className="mb-2 flex items-center justify-between">
+              <h3 className="text-sm font-semibold text-gray-700">Results ({results.length})</h3>
+              <button onClick={() => removeBatchJobs(results.map(job => job.id))} className={actionClass}>Clear list</button>
+            </div>
+            <ul className="divide-y divide-gray-100 border border-gray-200 rounded-lg">
+              {results.map(job => (
+                <li key={job.id} className="px-4 py-2 flex items-center gap-3">
+                  <span className={`px-2 py-0.5 text-xs font-medium rounded ${STATUS_STYLES[job.status].className}`}>
+                    {job.autoMinutes ? 'Minutes' : 'Transcript'}
+                  </span>
+                  <span className="flex-1 min-w-0 truncate text-sm text-gray-800" title={job.fileName}>{job.fileName}</span>
+                  {job.warning && (
+                    <span className="text-xs font-medium text-amber-700" title={job.warning}>Warning</span>
+                  )}
+                  <button onClick={() => onOpenMeeting(job.meetingId)} className="text-xs font-medium text-indigo-600 hover:text-indigo-800">
+                    Open
+                  </button>
+                </li>
+              ))}
+            </ul>
+          </section>
+        )}
+      </div>
+    </div>
+  );
+};
+
+export default BatchQueue;
@@ -0,0 +1,86 @@
+import React from 'react';
+import { ModelErrorKind, ProcessingState } from '../types';
+
+interface ErrorNoticeProps {
+  processingState: ProcessingState;
+  onDismiss: () => void;
+  onOpenProviderSettings: () => void;
+  // Only offered where the key is picked through AI Studio
+  onReselectKey?: () => void;
+}
+
+const TITLES: Record<ModelErrorKind, string> = {
+  [ModelErrorKind.AUTH]: 'The API key was rejected',
+  [ModelErrorKind.RATE_LIMIT]: 'Rate limit or quota reached',
+  [ModelErrorKind.SAFETY]: 'Blocked by the safety filter',
+  [ModelErrorKind.PAYLOAD_TOO_LARGE]: 'The request is too large',
+  [ModelErrorKind.NETWORK]: 'Could not reach the model',
+  [ModelErrorKind.SERVER]: 'The model service is having problems',
+  [ModelErrorKind.EMPTY_RESPONSE]: 'The model returned nothing',
+  [ModelErrorKind.BUDGET]: 'Monthly budget reached',
+  [ModelErrorKind.UNKNOWN]: 'Error Occurred',
+};
+
+const adviceFor = ({ errorKind, retryAfterSeconds }: ProcessingState): string | null => {
+  switch (errorKind) {
+    case ModelErrorKind.AUTH:
+      return 'Re-select your API key, or check the key and server in the provider settings.';
+    case ModelErrorKind.RATE_LIMIT:
+      return `Retries did not get through. Wait ${retryAfterSeconds ? `${retryAfterSeconds} seconds` : 'a minute'} and try again, or check the quota of your plan.`;
+    case ModelErrorKind.SAFETY:
+      return 'Edit or remove the passage that triggered the filter and try again, or switch to another provider.';
+    case ModelErrorKind.PAYLOAD_TOO_LARGE:
+      return 'Split the recording into shorter files, or convert it to a compressed format such as MP3, and process the parts separately.';
+    case ModelErrorKind.NETWORK:
+      return 'Check your internet connection, or that the local server is running, and try again.';
+    case ModelErrorKind.SERVER:
+    case ModelErrorKind.EMPTY_RESPONSE:
+      return 'This is usually temporary. Try again in a few minutes, or switch to another provider.';
+    case ModelErrorKind.BUDGET:
+      return 'Raise the cap or switch it to warn-only on the Usage page, or wait for next month.';
+    default:
+      return null;
+  }
+};
+
+const ErrorNotice: React.FC<ErrorNoticeProps> = ({ processingState, onDismiss, onOpenProviderSettings, onReselectKey }) => {
+  const kind = processingState.errorKind || ModelErrorKind.UNKNOWN;
+  const advice = adviceFor(processingState);
+  const offersSettings = [ModelErrorKind.AUTH, ModelErrorKind.SAFETY, ModelErrorKind.SERVER, ModelErrorKind.EMPTY_RESPONSE].includes(kind);
+
+  return (
+    <div className="mb-6 p-4 bg-red-50 border border-red-200 rounded-lg flex items-start gap-3 animate-fade-in" role="alert">
+      <svg xmlns="http://www.w3.org/2000/svg" viewBox="0 0 20 20" fill="currentColor" className="w-5 h-5 text-red-600 mt-0.5 shrink-0">
+        <path fillRule="evenodd" d="M18 10a8 8 0 11-16 0 8 8 0 0116 0zm-8-5a.75.75 0 01.75.75v4.5a.75.75 0 01-1.5 0v-4.5A.75.75 0 0110 5zm0 10a1 1 0 100-2 1 1 0 000 2z" clipRule="evenodd" />
+      </svg>
+      <div className="min-w-0">
+        <h3 className="text-sm font-semibold text-red-800">{TITLES[kind]}</h3>
+        <p className="text-sm text-red-700 mt-1">{processingState.message}</p>
+        {advice && <p className="text-sm text-red-700 mt-1">{advice}</p>}
+        {processingState.error && (
+          <details className="mt-1">
+            <summary className="text-xs text-red-600 cursor-pointer">Details</summary>
+            <p className="mt-1 text-xs text-red-600 font-mono break-words">{processingState.error}</p>
+          </details>
+        )}
+        <div className="mt-2 flex gap-4">
+          {kind === ModelErrorKind.AUTH && onReselectKey && (
+            <button onClick={onReselectKey} className="text-xs font-medium text-red-600 hover:text-red-800 underline">
+              Re-select API key
+            </button>
+          )}
+          {offersSettings && (
+            <button onClick={onOpenProviderSettings} className="text-xs font-medium text-red-600 hover:text-red-800 underline">
+              Provider settings
+            </button>
+          )}
+          <button onClick={onDismiss} className="text-xs font-medium text-red-600 hover:text-red-800 underline">
+            Dismiss
+          </button>
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default ErrorNotice;
@@ -0,0 +1,135 @@
+import React, { useState } from 'react';
+import { ExportFormat, ExportHeader, MeetingData } from '../types';
+import {
+  EXPORT_FORMATS,
+  exportMeeting,
+  loadExportHeader,
+  loadLastExportFormat,
+  saveExportHeader,
+  saveLastExportFormat,
+  unavailableReason,
+} from '../services/export';
+
+interface ExportDialogProps {
+  data: MeetingData;
+  onClose: () => void;
+  // A document that could not be built, for the page's error notice
+  onError: (error: unknown) => void;
+}
+
+// Formats that print the company header
+const HEADER_FORMATS = [ExportFormat.DOCX, ExportFormat.PDF, ExportFormat.HTML];
+
+const pickInitialFormat = (data: MeetingData): ExportFormat => {
+  const last = loadLastExportFormat();
+  if (last && !unavailableReason(last, data)) return last;
+  return data.minutes ? ExportFormat.DOCX : ExportFormat.TXT;
+};
+
+const ExportDialog: React.FC<ExportDialogProps> = ({ data, onClose, onError }) => {
+  const [format, setFormat] = useState<ExportFormat>(() => pickInitialFormat(data));
+  const [header, setHeader] = useState<ExportHeader>(loadExportHeader);
+  const [redacted, setRedacted] = useState(false);
+
+  const handleExport = () => {
+    saveExportHeader(header);
+    saveLastExportFormat(format);
+    try {
+      exportMeeting(format, data, header, redacted);
+    } catch (error) {
+      onError(error);
+    }
+    onClose();
+  };
+
+  const inputClass = "w-full px-3 py-2 text-sm border border-gray-300 rounded-lg focus:outline-none focus:ring-2 focus:ring-indigo-500/20";
+
+  return (
+    <div className="fixed inset-0 z-[60] bg-black/30 flex items-center justify-center p-4" onClick={onClose}>
+      <div className="bg-white rounded-xl shadow-lg border border-gray-200 w-full max-w-lg max-h-[85vh] flex flex-col" onClick={(e) => e.stopPropagation()}>
+        <div className="p-4 border-b border-gray-200 bg-gray-50 rounded-t-xl">
+          <h2 className="text-lg font-semibold text-gray-800">Export Meeting</h2>
+          <p className="text-sm text-gray-500">{data.fileName}</p>
+        </div>
+
+        <div className="flex-1 overflow-y-auto p-4 space-y-4">
+          <div className="space-y-1">
+            {Object.values(ExportFormat).map(f => {
+              const reason = unavailableReason(f, data);
+              return (
+                <label
+                  key={f}
+                  className={`flex items-start gap-3 px-3 py-2 rounded-lg border ${format === f ? 'border-indigo-300 bg-indigo-50' : 'border-transparent'} ${reason ? 'opacity-50' : 'cursor-pointer hover:bg-gray-50'}`}
+                >
+                  <input
+                    type="radio"
+                    name="export-format"
+                    className="mt-1"
+                    checked={format === f}
+                    disabled={!!reason}
+                    onChange={() => setFormat(f)}
+                  />
+                  <span>
+                    <span className="block text-sm font-medium text-gray-800">{EXPORT_FORMATS[f].label}</span>
+                    <span className="block text-xs text-gray-500">{reason || EXPORT_FORMATS[f].description}</span>
+                  </span>
+                </label>
+              );
+            })}
+          </div>
+
+          <label className="flex items-start gap-3 px-3 pt-3 border-t border-gray-100 cursor-pointer">
+            <input type="checkbox" className="mt-1" checked={redacted} onChange={(e) => setRedacted(e.target.checked)} />
+            <span>
+              <span className="block text-sm font-medium text-gray-800">Redacted copy</span>
+              <span className="block text-xs text-gray-500">Phone numbers, customer names and the other values in the redaction settings stay as placeholders like [PHONE_1], for sharing outside the team.</span>
+            </span>
+          </label>
+
+          {HEADER_FORMATS.includes(format) && (
+            <div className="space-y-3 pt-3 border-t border-gray-100">
+              <p className="text-xs font-medium text-gray-600">Company header</p>
+              <label className="block text-xs font-medium text-gray-600">
+                Company name
+                <input className={inputClass} value={header.companyName} onChange={(e) => setHeader({ ...header, companyName: e.target.value })} />
+              </label>
+              <div className="flex gap-3">
+                <label className="flex-1 block text-xs font-medium text-gray-600">
+                  Department / site
+                  <input className={inputClass} value={header.department} onChange={(e) => setHeader({ ...header, department: e.target.value })} />
+                </label>
+                <label className="flex-1 block text-xs font-medium text-gray-600">
+                  Document number
+                  <input
+                    className={inputClass}
+                    value={header.documentNumber}
+                    onChange={(e) => setHeader({ ...header, documentNumber: e.target.value })}
+                    placeholder="QR-7.5-03"
+                  />
+                </label>
+              </div>
+            </div>
+          )}
+        </div>
+
+        <div className="p-4 border-t border-gray-200 bg-gray-50 rounded-b-xl flex justify-end gap-2">
+          <button
+            onClick={onClose}
+            className="px-4 py-2 text-sm font-medium text-gray-700 bg-white border border-gray-300 rounded-lg hover:bg-gray-50 transition-colors shadow-sm"
+          >
+            Cancel
+          </button>
+          <button
+            onClick={handleExport}
+            disabled={!!unavailableReason(format, data)}
+            className="px-4 py-2 text-sm font-medium text-white bg-indigo-600 hover:bg-indigo-700 rounded-lg shadow-sm transition-colors disabled:opacity-50"
+          >
+            {format === ExportFormat.PDF ? 'Print / Save as PDF' : 'Export'}
+          </button>
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default ExportDialog;
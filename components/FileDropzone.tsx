@@ -2,11 +2,24 @@ import React, { useRef, useState } from 'react';
 import { formatFileSize } from '../utils/fileHelpers';
 
 interface FileDropzoneProps {
-  onFileSelect: (file: File) => void;
+  onFileSelect?: (file: File) => void;
+  // When set, several files can be picked at once and arrive here instead
+  onFilesSelect?: (files: File[]) => void;
   disabled: boolean;
 }
 
-const FileDropzone: React.FC<FileDropzoneProps> = ({ onFileSelect, disabled }) => {
+const LIMIT_MB = 200;
+
+// Why the file cannot be processed, or null if it can
+const rejectReason = (file: File): string | null => {
+  if (!file.type.startsWith('audio/')) return 'not an audio file';
+  // Check file size (200MB limit)
+  if (file.size > LIMIT_MB * 1024 * 1024) return `too large (limit ${LIMIT_MB}MB)`;
+  return null;
+};
+
+const FileDropzone: React.FC<FileDropzoneProps> = ({ onFileSelect, onFilesSelect, disabled }) => {
+  const multiple = !!onFilesSelect;
   const inputRef = useRef<HTMLInputElement>(null);
   const [dragActive, setDragActive] = useState(false);
 
@@ -25,30 +38,36 @@ const FileDropzone: React.FC<FileDropzoneProps> = ({ onFileSelect, disabled }) =
     e.stopPropagation();
     setDragActive(false);
     if (e.dataTransfer.files && e.dataTransfer.files[0]) {
-      validateAndPassFile(e.dataTransfer.files[0]);
+      validateAndPassFiles(Array.from(e.dataTransfer.files));
     }
   };
 
   const handleChange = (e: React.ChangeEvent<HTMLInputElement>) => {
     e.preventDefault();
     if (e.target.files && e.target.files[0]) {
-      validateAndPassFile(e.target.files[0]);
+      validateAndPassFiles(Array.from(e.target.files));
     }
+    // Allow picking the same file again
+    e.target.value = '';
   };
 
-  const validateAndPassFile = (file: File) => {
-    if (!file.type.startsWith('audio/')) {
-      alert('Please upload a valid audio file.');
+  const validateAndPassFiles = (files: File[]) => {
+    if (!multiple) {
+      const reason = rejectReason(files[0]);
+      if (reason) {
+        alert(`File is ${reason}.`);
+        return;
+      }
+      onFileSelect?.(files[0]);
       return;
     }
-    
-    const LIMIT_MB = 200;
-    // Check file size (200MB limit)
-    if (file.size > LIMIT_MB * 1024 * 1024) {
-      alert(`File is too large (limit ${LIMIT_MB}MB).`);
-      return;
+
+    const rejected = files.filter(file => rejectReason(file));
+    if (rejected.length) {
+      alert(`Skipped:\n${rejected.map(file => `${file.name}: ${rejectReason(file)}`).join('\n')}`);
     }
-    onFileSelect(file);
+    const accepted = files.filter(file => !rejectReason(file));
+    if (accepted.length) onFilesSelect!(accepted);
   };
 
   const onButtonClick = () => {
@@ -72,6 +91,7 @@ const FileDropzone: React.FC<FileDropzoneProps> = ({ onFileSelect, disabled }) =
         type="file"
         className="hidden"
         accept="audio/*" // Accepts mp3, wav, m4a etc.
+        multiple={multiple}
         onChange={handleChange}
         disabled={disabled}
       />
@@ -84,9 +104,9 @@ const FileDropzone: React.FC<FileDropzoneProps> = ({ onFileSelect, disabled }) =
         </div>
         <div>
           <p className="text-lg font-medium text-gray-700">
-            {dragActive ? "Drop the audio file here" : "Click to upload or drag & drop"}
+            {dragActive ? `Drop the audio file${multiple ? 's' : ''} here` : "Click to upload or drag & drop"}
           </p>
-          <p className="text-sm text-gray-500 mt-1">MP3, WAV, M4A (Max 200MB)</p>
+          <p className="text-sm text-gray-500 mt-1">MP3, WAV, M4A (Max {LIMIT_MB}MB{multiple ? ' each' : ''})</p>
         </div>
       </div>
     </div>
@@ -0,0 +1,167 @@
+import React, { useMemo, useRef, useState } from 'react';
+import { GlossaryCategory, GlossaryTerm } from '../types';
+import { CATEGORY_LABELS, createGlossaryTermId, glossaryFromCsv, glossaryToCsv, mergeGlossary } from '../services/glossary';
+import { downloadBlob } from '../utils/fileHelpers';
+
+interface GlossaryManagerProps {
+  glossary: GlossaryTerm[];
+  onSave: (glossary: GlossaryTerm[]) => void;
+  onClose: () => void;
+}
+
+const GlossaryManager: React.FC<GlossaryManagerProps> = ({ glossary, onSave, onClose }) => {
+  const [terms, setTerms] = useState<GlossaryTerm[]>(glossary);
+  const [filter, setFilter] = useState('');
+  const [categoryFilter, setCategoryFilter] = useState<GlossaryCategory | ''>('');
+  const importRef = useRef<HTMLInputElement>(null);
+
+  const visible = useMemo(() => {
+    const needle = filter.trim().toLowerCase();
+    return terms.filter(t =>
+      (!categoryFilter || t.category === categoryFilter) &&
+      (!needle || [t.term, t.preferred, ...t.misrecognitions].some(v => v.toLowerCase().includes(needle)))
+    );
+  }, [terms, filter, categoryFilter]);
+
+  const updateTerm = (id: string, patch: Partial<GlossaryTerm>) => {
+    setTerms(prev => prev.map(t => (t.id === id ? { ...t, ...patch } : t)));
+  };
+
+  const addTerm = () => {
+    setFilter('');
+    setTerms(prev => [
+      ...prev,
+      { id: createGlossaryTermId(), term: '', preferred: '', misrecognitions: [], category: categoryFilter || GlossaryCategory.OTHER },
+    ]);
+  };
+
+  const handleImport = async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    e.target.value = '';
+    if (!file) return;
+    const imported = glossaryFromCsv(await file.text());
+    if (imported.length === 0) {
+      alert('No terms found. Expected columns: term, preferred, category, misrecognitions.');
+      return;
+    }
+    setTerms(prev => mergeGlossary(prev, imported));
+  };
+
+  const handleExport = () => {
+    // BOM so Excel opens the Chinese text as UTF-8
+    downloadBlob(new Blob(['\uFEFF' + glossaryToCsv(terms)], { type: 'text/csv' }), 'glossary.csv');
+  };
+
+  const cellInput = "w-full px-2 py-1 text-sm border border-transparent rounded hover:border-gray-200 focus:border-indigo-300 focus:outline-none";
+
+  return (
+    <div className="fixed inset-0 z-[60] bg-black/30 flex items-center justify-center p-4" onClick={onClose}>
+      <div className="bg-white rounded-xl shadow-lg border border-gray-200 w-full max-w-4xl max-h-[85vh] flex flex-col" onClick={(e) => e.stopPropagation()}>
+        <div className="p-4 border-b border-gray-200 bg-gray-50 rounded-t-xl flex flex-col sm:flex-row justify-between gap-3">
+          <div>
+            <h2 className="text-lg font-semibold text-gray-800">Plant Glossary</h2>
+            <p className="text-sm text-gray-500">Given to the model as vocabulary; misrecognitions are fixed automatically after correction.</p>
+          </div>
+          <div className="flex gap-2 items-start">
+            <input ref={importRef} type="file" accept=".csv,text/csv" className="hidden" onChange={handleImport} />
+            <button onClick={() => importRef.current?.click()} className="px-3 py-1.5 text-sm font-medium text-gray-700 bg-white border border-gray-300 rounded-md hover:bg-gray-50">
+              Import CSV
+            </button>
+            <button onClick={handleExport} className="px-3 py-1.5 text-sm font-medium text-gray-700 bg-white border border-gray-300 rounded-md hover:bg-gray-50">
+              Export CSV
+            </button>
+          </div>
+        </div>
+
+        <div className="px-4 pt-3 flex gap-2">
+          <input
+            type="search"
+            value={filter}
+            onChange={(e) => setFilter(e.target.value)}
+            placeholder="Search terms..."
+            className="flex-1 px-3 py-1.5 text-sm border border-gray-300 rounded-lg focus:outline-none focus:ring-2 focus:ring-indigo-500/20"
+          />
+          <select
+            value={categoryFilter}
+            onChange={(e) => setCategoryFilter(e.target.value as GlossaryCategory | '')}
+            className="text-sm border border-gray-300 rounded-lg px-2 bg-white"
+          >
+            <option value="">All categories</option>
+            {Object.values(GlossaryCategory).map(c => <option key={c} value={c}>{CATEGORY_LABELS[c]}</option>)}
+          </select>
+        </div>
+
+        <div className="flex-1 overflow-y-auto p-4">
+          <table className="w-full text-sm">
+            <thead className="text-left text-xs font-semibold text-gray-600 uppercase tracking-wide">
+              <tr>
+                <th className="px-2 py-1">Term</th>
+                <th className="px-2 py-1">Preferred spelling</th>
+                <th className="px-2 py-1">Known misrecognitions (comma separated)</th>
+                <th className="px-2 py-1 w-32">Category</th>
+                <th className="w-8"></th>
+              </tr>
+            </thead>
+            <tbody className="divide-y divide-gray-100">
+              {visible.map(term => (
+                <tr key={term.id}>
+                  <td className="px-1 py-1">
+                    <input className={cellInput} value={term.term} onChange={(e) => updateTerm(term.id, { term: e.target.value })} placeholder="CNC-07" />
+                  </td>
+                  <td className="px-1 py-1">
+                    <input className={cellInput} value={term.preferred} onChange={(e) => updateTerm(term.id, { preferred: e.target.value })} placeholder="(same as term)" />
+                  </td>
+                  <td className="px-1 py-1">
+                    {/* Committed on blur so commas can be typed; keyed on the list so an import that changes it shows */}
+                    <input
+                      key={term.misrecognitions.join('\n')}
+                      className={cellInput}
+                      defaultValue={term.misrecognitions.join(', ')}
+                      onBlur={(e) => updateTerm(term.id, { misrecognitions: e.target.value.split(/[,，]/).map(m => m.trim()).filter(Boolean) })}
+                      placeholder="CNC 07, C and C 7"
+                    />
+                  </td>
+                  <td className="px-1 py-1">
+                    <select className={cellInput} value={term.category} onChange={(e) => updateTerm(term.id, { category: e.target.value as GlossaryCategory })}>
+                      {Object.values(GlossaryCategory).map(c => <option key={c} value={c}>{CATEGORY_LABELS[c]}</option>)}
+                    </select>
+                  </td>
+                  <td className="px-1 py-1 text-center">
+                    <button onClick={() => setTerms(prev => prev.filter(t => t.id !== term.id))} className="p-1 text-gray-400 hover:text-red-600" title="Remove term">
+                      ×
+                    </button>
+                  </td>
+                </tr>
+              ))}
+              {visible.length === 0 && (
+                <tr>
+                  <td colSpan={5} className="px-3 py-4 text-center text-gray-400">No terms yet.</td>
+                </tr>
+              )}
+            </tbody>
+          </table>
+          <button onClick={addTerm} className="mt-2 text-sm font-medium text-indigo-600 hover:text-indigo-800">
+            + Add term
+          </button>
+        </div>
+
+        <div className="p-4 border-t border-gray-200 bg-gray-50 rounded-b-xl flex justify-end gap-2">
+          <button
+            onClick={onClose}
+            className="px-4 py-2 text-sm font-medium text-gray-700 bg-white border border-gray-300 rounded-lg hover:bg-gray-50 transition-colors shadow-sm"
+          >
+            Cancel
+          </button>
+          <button
+            onClick={() => onSave(terms.filter(t => t.term.trim()))}
+            className="px-4 py-2 text-sm font-medium text-white bg-indigo-600 hover:bg-indigo-700 rounded-lg shadow-sm transition-colors"
+          >
+            Save
+          </button>
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default GlossaryManager;
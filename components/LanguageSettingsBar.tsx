@@ -0,0 +1,81 @@
+import React from 'react';
+import { LanguageSettings } from '../types';
+import { LANGUAGES } from '../services/languages';
+
+interface LanguageSettingsBarProps {
+  settings: LanguageSettings;
+  onChange: (settings: LanguageSettings) => void;
+  disabled: boolean;
+}
+
+interface LanguageSelectProps {
+  label: string;
+  value: string;
+  // Label of the empty choice, e.g. "Auto-detect"
+  emptyLabel: string;
+  onChange: (code: string) => void;
+  disabled: boolean;
+}
+
+const LanguageSelect: React.FC<LanguageSelectProps> = ({ label, value, emptyLabel, onChange, disabled }) => (
+  <label className="flex items-center gap-2 text-sm text-gray-600">
+    {label}
+    <select
+      value={value}
+      onChange={(e) => onChange(e.target.value)}
+      disabled={disabled}
+      className="px-2 py-1.5 text-sm text-gray-700 bg-white border border-gray-300 rounded-lg shadow-sm disabled:opacity-50"
+    >
+      <option value="">{emptyLabel}</option>
+      {LANGUAGES.map(language => (
+        <option key={language.code} value={language.code}>{language.label}</option>
+      ))}
+    </select>
+  </label>
+);
+
+/**
+ * Languages for the next meeting: what is spoken, and what the transcript and minutes are written in.
+ */
+const LanguageSettingsBar: React.FC<LanguageSettingsBarProps> = ({ settings, onChange, disabled }) => {
+  const update = (patch: Partial<LanguageSettings>) => onChange({ ...settings, ...patch });
+
+  return (
+    <div className="mb-4 flex flex-wrap justify-center items-center gap-x-5 gap-y-2">
+      <LanguageSelect
+        label="Spoken"
+        value={settings.sourceLanguage}
+        emptyLabel="Auto-detect"
+        onChange={(sourceLanguage) => update({ sourceLanguage })}
+        disabled={disabled}
+      />
+      <LanguageSelect
+        label="Transcript in"
+        value={settings.transcriptLanguage}
+        emptyLabel="As spoken"
+        // Bilingual needs a language to translate into
+        onChange={(transcriptLanguage) => update({ transcriptLanguage, bilingual: settings.bilingual && !!transcriptLanguage })}
+        disabled={disabled}
+      />
+      <LanguageSelect
+        label="Minutes in"
+        value={settings.minutesLanguage}
+        emptyLabel="As transcript"
+        onChange={(minutesLanguage) => update({ minutesLanguage })}
+        disabled={disabled}
+      />
+      <label className={`flex items-center gap-2 text-sm text-gray-600 ${!settings.transcriptLanguage ? 'opacity-50' : ''}`}>
+        <input
+          type="checkbox"
+          checked={settings.bilingual}
+          onChange={(e) => update({ bilingual: e.target.checked })}
+          disabled={disabled || !settings.transcriptLanguage}
+          className="rounded border-gray-300 text-indigo-600 focus:ring-indigo-500"
+        />
+        Bilingual (keep what was said next to the translation)
+      </label>
+    </div>
+  );
+};
+
+export default LanguageSettingsBar;
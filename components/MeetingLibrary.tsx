@@ -0,0 +1,126 @@
+import React, { useEffect, useMemo, useState } from 'react';
+import { MeetingRecord } from '../types';
+import { analyzeTranscript } from '../utils/transcriptQuality';
+import { deleteMeeting, duplicateMeeting, listMeetings, matchesSearch, renameMeeting } from '../services/meetingLibrary';
+
+interface MeetingLibraryProps {
+  currentMeetingId: string | null;
+  onOpen: (record: MeetingRecord) => void;
+  onRerun: (record: MeetingRecord) => void;
+  onDeleted: (id: string) => void;
+  disabled: boolean;
+}
+
+const formatDate = (timestamp: number) => new Date(timestamp).toLocaleString();
+
+const MeetingLibrary: React.FC<MeetingLibraryProps> = ({ currentMeetingId, onOpen, onRerun, onDeleted, disabled }) => {
+  const [meetings, setMeetings] = useState<MeetingRecord[]>([]);
+  const [query, setQuery] = useState('');
+  const [loading, setLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+
+  const refresh = async () => {
+    try {
+      setMeetings(await listMeetings());
+      setError(null);
+    } catch (e: any) {
+      console.error(e);
+      setError(e?.message || 'Could not open the local library.');
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  useEffect(() => {
+    refresh();
+  }, []);
+
+  const filtered = useMemo(() => meetings.filter(m => matchesSearch(m, query)), [meetings, query]);
+  const qualityScores = useMemo(
+    () => new Map(meetings.map(m => [m.id, analyzeTranscript(m.data.transcript).score])),
+    [meetings]
+  );
+
+  const handleDuplicate = async (id: string) => {
+    await duplicateMeeting(id);
+    refresh();
+  };
+
+  const handleDelete = async (record: MeetingRecord) => {
+    if (!window.confirm(`Delete "${record.title}" and its recording from this browser?`)) return;
+    await deleteMeeting(record.id);
+    onDeleted(record.id);
+    refresh();
+  };
+
+  const handleRename = async (record: MeetingRecord) => {
+    const title = window.prompt('Meeting title', record.title);
+    if (!title?.trim()) return;
+    await renameMeeting(record.id, title.trim());
+    refresh();
+  };
+
+  const actionClass = "text-xs font-medium text-gray-600 hover:text-indigo-700 disabled:opacity-50";
+
+  return (
+    <div className="flex flex-col h-full bg-white rounded-xl shadow-sm border border-gray-200 overflow-hidden">
+      <div className="p-4 border-b border-gray-200 bg-gray-50 flex flex-col sm:flex-row justify-between items-center gap-4">
+        <div>
+          <h2 className="text-lg font-semibold text-gray-800">Meeting Library</h2>
+          <p className="text-sm text-gray-500">Meetings saved in this browser.</p>
+        </div>
+        <input
+          type="search"
+          value={query}
+          onChange={(e) => setQuery(e.target.value)}
+          placeholder="Search titles, transcripts and minutes..."
+          className="w-full sm:w-72 px-3 py-2 text-sm border border-gray-300 rounded-lg focus:outline-none focus:ring-2 focus:ring-indigo-500/20"
+        />
+      </div>
+
+      <div className="flex-1 overflow-y-auto">
+        {error && <p className="p-6 text-sm text-red-700">{error}</p>}
+        {!error && !loading && filtered.length === 0 && (
+          <p className="p-6 text-sm text-gray-400">
+            {meetings.length === 0 ? 'No saved meetings yet. Processed recordings are saved automatically.' : 'No meetings match your search.'}
+          </p>
+        )}
+        <ul className="divide-y divide-gray-100">
+          {filtered.map(record => (
+            <li key={record.id} className={`px-6 py-3 flex items-center justify-between gap-4 ${record.id === currentMeetingId ? 'bg-indigo-50' : 'hover:bg-gray-50'}`}>
+              <button onClick={() => onOpen(record)} disabled={disabled} className="min-w-0 text-left disabled:opacity-50">
+                <p className="text-sm font-semibold text-gray-800 truncate">{record.title}</p>
+                <p className="text-xs text-gray-500 truncate">
+                  {record.data.fileName} · {record.data.transcript.length} lines
+                  {record.data.transcript.length > 0 && ` · quality ${qualityScores.get(record.id)}`}
+                  {record.data.minutes && ' · minutes'}
+                </p>
+                <p className="text-xs text-gray-400">
+                  Created {formatDate(record.createdAt)} · Edited {formatDate(record.updatedAt)}
+                </p>
+              </button>
+              <div className="flex shrink-0 gap-3">
+                <button onClick={() => onOpen(record)} disabled={disabled} className={actionClass}>Open</button>
+                <button onClick={() => handleRename(record)} disabled={disabled} className={actionClass}>Rename</button>
+                <button onClick={() => handleDuplicate(record.id)} disabled={disabled} className={actionClass}>Duplicate</button>
+                <button
+                  onClick={() => onRerun(record)}
+                  disabled={disabled || !record.hasAudio}
+                  className={actionClass}
+                  title={record.hasAudio ? 'Transcribe the recording again' : 'No recording stored'}
+                >
+                  Re-run
+                </button>
+                <button onClick={() => handleDelete(record)} disabled={disabled} className="text-xs font-medium text-red-600 hover:text-red-800 disabled:opacity-50">
+                  Delete
+                </button>
+              </div>
+            </li>
+          ))}
+        </ul>
+      </div>
+    </div>
+  );
+};
+
+export default MeetingLibrary;
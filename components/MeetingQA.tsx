@@ -0,0 +1,144 @@
+import React, { useEffect, useRef, useState } from 'react';
+import { MeetingQuestion, TranscriptSegment } from '../types';
+import { classifyError } from '../services/providers';
+import { formatTimestamp } from '../utils/transcript';
+import { isAbortError } from '../utils/abort';
+
+interface MeetingQAProps {
+  transcript: TranscriptSegment[];
+  questions: MeetingQuestion[];
+  // Answers the question and adds it to `questions`
+  onAsk: (question: string, signal: AbortSignal) => Promise<void>;
+  onClear: () => void;
+  onCitationClick: (segmentId: string) => void;
+  disabled: boolean;
+}
+
+const Citation: React.FC<{ segment?: TranscriptSegment; onClick: () => void }> = ({ segment, onClick }) =>
+  segment ? (
+    <button
+      onClick={onClick}
+      className="block w-full px-2 py-1 text-left text-xs text-gray-600 bg-gray-50 border border-gray-200 rounded hover:border-indigo-300 hover:bg-indigo-50 truncate"
+      title={`${segment.speaker}: ${segment.text}`}
+    >
+      {segment.start !== undefined && <span className="font-mono text-gray-400">{formatTimestamp(segment.start)} </span>}
+      <span className="font-semibold text-indigo-700">{segment.speaker}:</span> {segment.text}
+    </button>
+  ) : (
+    // The line was deleted after the question was asked
+    <p className="px-2 py-1 text-xs text-gray-400 italic">Line no longer in the transcript</p>
+  );
+
+const MeetingQA: React.FC<MeetingQAProps> = ({ transcript, questions, onAsk, onClear, onCitationClick, disabled }) => {
+  const [draft, setDraft] = useState('');
+  const [asking, setAsking] = useState<string | null>(null);
+  const [error, setError] = useState<string | null>(null);
+  const abortRef = useRef<AbortController | null>(null);
+  const listRef = useRef<HTMLDivElement>(null);
+  const segmentsById = new Map(transcript.map(segment => [segment.id, segment]));
+
+  useEffect(() => () => abortRef.current?.abort(), []);
+
+  useEffect(() => {
+    listRef.current?.scrollTo({ top: listRef.current.scrollHeight, behavior: 'smooth' });
+  }, [questions.length, asking]);
+
+  const ask = async () => {
+    const question = draft.trim();
+    if (!question || asking) return;
+    abortRef.current = new AbortController();
+    setAsking(question);
+    setError(null);
+    setDraft('');
+    try {
+      await onAsk(question, abortRef.current.signal);
+    } catch (e) {
+      setDraft(question);
+      if (!isAbortError(e)) setError(classifyError(e).message || 'The question could not be answered.');
+    } finally {
+      setAsking(null);
+    }
+  };
+
+  return (
+    <div className="flex flex-col h-full bg-white rounded-xl shadow-sm border border-gray-200 overflow-hidden">
+      <div className="p-4 border-b border-gray-200 bg-gray-50 flex justify-between items-start gap-2">
+        <div>
+          <h2 className="text-lg font-semibold text-gray-800">Ask the Meeting</h2>
+          <p className="text-sm text-gray-500">Answers come from the transcript only.</p>
+        </div>
+        {questions.length > 0 && (
+          <button
+            onClick={() => confirm('Clear all questions and answers?') && onClear()}
+            disabled={disabled || !!asking}
+            className="text-xs font-medium text-gray-500 hover:text-red-600 disabled:opacity-50"
+          >
+            Clear
+          </button>
+        )}
+      </div>
+
+      <div ref={listRef} className="flex-1 overflow-y-auto p-3 space-y-4">
+        {questions.length === 0 && !asking && (
+          <p className="text-sm text-gray-400">e.g. "What did we agree about the mold temperature?"</p>
+        )}
+        {questions.map(q => (
+          <div key={q.id} className="space-y-1.5">
+            <p className="ml-6 px-3 py-2 text-sm text-white bg-indigo-600 rounded-lg">{q.question}</p>
+            {q.found ? (
+              <>
+                <p className="mr-6 px-3 py-2 text-sm text-gray-800 bg-gray-100 rounded-lg whitespace-pre-wrap">{q.answer}</p>
+                <div className="mr-6 space-y-1">
+                  {q.citations.map(id => (
+                    <Citation key={id} segment={segmentsById.get(id)} onClick={() => onCitationClick(id)} />
+                  ))}
+                </div>
+              </>
+            ) : (
+              <div className="mr-6 px-3 py-2 text-sm text-amber-900 bg-amber-50 border border-amber-200 rounded-lg">
+                <p className="font-medium">Not in the transcript</p>
+                {q.answer && <p className="mt-1 whitespace-pre-wrap">{q.answer}</p>}
+              </div>
+            )}
+          </div>
+        ))}
+        {asking && (
+          <div className="space-y-1.5">
+            <p className="ml-6 px-3 py-2 text-sm text-white bg-indigo-400 rounded-lg">{asking}</p>
+            <p className="mr-6 px-3 py-2 text-sm text-gray-500 bg-gray-100 rounded-lg animate-pulse">Searching the transcript...</p>
+          </div>
+        )}
+      </div>
+
+      {error && <p className="px-3 py-2 text-xs text-red-700 bg-red-50 border-t border-red-100">{error}</p>}
+
+      <form
+        onSubmit={(e) => { e.preventDefault(); ask(); }}
+        className="p-3 border-t border-gray-200 flex gap-2"
+      >
+        <input
+          value={draft}
+          onChange={(e) => setDraft(e.target.value)}
+          disabled={disabled || !!asking || transcript.length === 0}
+          placeholder="Ask about this meeting..."
+          className="flex-1 min-w-0 px-3 py-1.5 text-sm border border-gray-300 rounded-lg focus:outline-none focus:ring-2 focus:ring-indigo-500/20 disabled:bg-gray-50"
+        />
+        {asking ? (
+          <button type="button" onClick={() => abortRef.current?.abort()} className="px-3 py-1.5 text-sm font-medium text-gray-700 border border-gray-300 rounded-lg hover:bg-gray-50">
+            Cancel
+          </button>
+        ) : (
+          <button
+            type="submit"
+            disabled={disabled || !draft.trim() || transcript.length === 0}
+            className="px-3 py-1.5 text-sm font-medium text-white bg-indigo-600 hover:bg-indigo-700 rounded-lg disabled:opacity-50"
+          >
+            Ask
+          </button>
+        )}
+      </form>
+    </div>
+  );
+};
+
+export default MeetingQA;
@@ -0,0 +1,253 @@
+import React, { useEffect, useRef, useState } from 'react';
+import { formatTimestamp } from '../utils/transcript';
+import {
+  UnfinishedRecording,
+  appendRecordingChunk,
+  chunksToFile,
+  clearRecording,
+  loadUnfinishedRecording,
+} from '../services/recordingStore';
+
+interface MeetingRecorderProps {
+  onRecorded: (file: File) => void;
+  disabled: boolean;
+}
+
+type RecorderStatus = 'idle' | 'recording' | 'paused';
+
+// How often the recorder hands over audio, and so how much a crash can lose at most
+const CHUNK_MS = 10_000;
+const PREFERRED_MIME_TYPES = ['audio/webm;codecs=opus', 'audio/webm', 'audio/ogg;codecs=opus', 'audio/mp4'];
+
+// Maps RMS to 0..1 over a -60..0 dB range, which is how level meters usually read
+const rmsToLevel = (rms: number) => Math.max(0, Math.min(1, (20 * Math.log10(rms || 1e-8) + 60) / 60));
+
+const describeMicError = (error: any): string => {
+  if (error?.name === 'NotAllowedError') return 'Microphone access was denied. Allow it in the browser\'s site settings and try again.';
+  if (error?.name === 'NotFoundError') return 'No microphone was found.';
+  return error?.message || 'Could not start recording.';
+};
+
+const MeetingRecorder: React.FC<MeetingRecorderProps> = ({ onRecorded, disabled }) => {
+  const [status, setStatus] = useState<RecorderStatus>('idle');
+  const [elapsed, setElapsed] = useState(0);
+  const [level, setLevel] = useState(0);
+  const [error, setError] = useState<string | null>(null);
+  const [unfinished, setUnfinished] = useState<UnfinishedRecording | null>(null);
+
+  const recorderRef = useRef<MediaRecorder | null>(null);
+  const streamRef = useRef<MediaStream | null>(null);
+  const audioContextRef = useRef<AudioContext | null>(null);
+  const frameRef = useRef<number>(0);
+  const chunksRef = useRef<Blob[]>([]);
+  const sessionRef = useRef({ id: '', startedAt: 0 });
+  // Recorded time before the current stretch, and when that stretch began (null while paused)
+  const accumulatedRef = useRef(0);
+  const activeSinceRef = useRef<number | null>(null);
+  // Set when the component goes away mid-recording: the chunks stay stored for recovery
+  const abandonedRef = useRef(false);
+  // A recording can run for hours; call the latest handler, not the one from when it started
+  const onRecordedRef = useRef(onRecorded);
+  onRecordedRef.current = onRecorded;
+
+  const currentElapsed = () =>
+    accumulatedRef.current + (activeSinceRef.current !== null ? (Date.now() - activeSinceRef.current) / 1000 : 0);
+
+  // Offer a leftover recording whenever the recorder becomes usable (also after a failed run)
+  useEffect(() => {
+    if (disabled || status !== 'idle') return;
+    loadUnfinishedRecording().then(setUnfinished).catch(e => console.warn('Could not check for unfinished recordings:', e));
+  }, [disabled, status]);
+
+  useEffect(() => {
+    if (status !== 'recording') return;
+    const timer = setInterval(() => setElapsed(currentElapsed()), 250);
+    return () => clearInterval(timer);
+  }, [status]);
+
+  useEffect(() => {
+    if (status === 'idle') return;
+    const warn = (e: BeforeUnloadEvent) => e.preventDefault();
+    window.addEventListener('beforeunload', warn);
+    return () => window.removeEventListener('beforeunload', warn);
+  }, [status]);
+
+  const releaseInput = () => {
+    cancelAnimationFrame(frameRef.current);
+    streamRef.current?.getTracks().forEach(track => track.stop());
+    audioContextRef.current?.close();
+    streamRef.current = null;
+    audioContextRef.current = null;
+    setLevel(0);
+  };
+
+  useEffect(() => () => {
+    if (recorderRef.current && recorderRef.current.state !== 'inactive') {
+      abandonedRef.current = true;
+      recorderRef.current.stop();
+    }
+    releaseInput();
+  }, []);
+
+  const startMeter = (stream: MediaStream) => {
+    const context = new AudioContext();
+    const analyser = context.createAnalyser();
+    analyser.fftSize = 1024;
+    context.createMediaStreamSource(stream).connect(analyser);
+    audioContextRef.current = context;
+
+    const samples = new Float32Array(analyser.fftSize);
+    const tick = () => {
+      analyser.getFloatTimeDomainData(samples);
+      let sum = 0;
+      for (let i = 0; i < samples.length; i++) sum += samples[i] * samples[i];
+      setLevel(rmsToLevel(Math.sqrt(sum / samples.length)));
+      frameRef.current = requestAnimationFrame(tick);
+    };
+    tick();
+  };
+
+  const start = async () => {
+    setError(null);
+    try {
+      if (unfinished) {
+        if (!window.confirm('Starting a new recording discards the unfinished one. Continue?')) return;
+        await clearRecording();
+        setUnfinished(null);
+      }
+      const stream = await navigator.mediaDevices.getUserMedia({ audio: true });
+      const mimeType = PREFERRED_MIME_TYPES.find(type => MediaRecorder.isTypeSupported(type));
+      const recorder = new MediaRecorder(stream, mimeType ? { mimeType } : undefined);
+
+      streamRef.current = stream;
+      recorderRef.current = recorder;
+      chunksRef.current = [];
+      abandonedRef.current = false;
+      sessionRef.current = { id: `${Date.now().toString(36)}-${Math.random().toString(36).slice(2, 6)}`, startedAt: Date.now() };
+      accumulatedRef.current = 0;
+      activeSinceRef.current = Date.now();
+
+      recorder.ondataavailable = (e) => {
+        if (!e.data.size) return;
+        chunksRef.current.push(e.data);
+        appendRecordingChunk({
+          sessionId: sessionRef.current.id,
+          startedAt: sessionRef.current.startedAt,
+          mimeType: recorder.mimeType,
+          elapsedSeconds: currentElapsed(),
+          blob: e.data,
+        }).catch(err => console.warn('Could not save recording chunk:', err));
+      };
+      recorder.onstop = () => {
+        releaseInput();
+        if (abandonedRef.current) return;
+        setStatus('idle');
+        setElapsed(0);
+        onRecordedRef.current(chunksToFile(chunksRef.current, sessionRef.current.startedAt, recorder.mimeType));
+      };
+
+      recorder.start(CHUNK_MS);
+      startMeter(stream);
+      setElapsed(0);
+      setStatus('recording');
+    } catch (e: any) {
+      console.error(e);
+      releaseInput();
+      setError(describeMicError(e));
+    }
+  };
+
+  const pause = () => {
+    recorderRef.current?.pause();
+    accumulatedRef.current = currentElapsed();
+    activeSinceRef.current = null;
+    setElapsed(accumulatedRef.current);
+    setStatus('paused');
+  };
+
+  const resume = () => {
+    recorderRef.current?.resume();
+    activeSinceRef.current = Date.now();
+    setStatus('recording');
+  };
+
+  const stop = () => {
+    accumulatedRef.current = currentElapsed();
+    activeSinceRef.current = null;
+    recorderRef.current?.stop();
+  };
+
+  const discardUnfinished = async () => {
+    if (!window.confirm('Discard the unfinished recording? This cannot be undone.')) return;
+    await clearRecording();
+    setUnfinished(null);
+  };
+
+  const buttonClass = "px-4 py-2 text-sm font-medium rounded-lg shadow-sm transition-colors disabled:opacity-50";
+
+  return (
+    <div className={`w-full p-8 border-2 border-dashed rounded-xl bg-white text-center ${disabled ? 'opacity-50 border-gray-300' : 'border-gray-300'}`}>
+      {unfinished && status === 'idle' && (
+        <div className="mb-6 p-3 text-left bg-amber-50 border border-amber-200 rounded-lg flex flex-col sm:flex-row sm:items-center justify-between gap-3">
+          <p className="text-sm text-amber-800">
+            An unfinished recording from {new Date(unfinished.startedAt).toLocaleString()} ({formatTimestamp(unfinished.elapsedSeconds)}) was found.
+          </p>
+          <div className="flex gap-2 shrink-0">
+            <button onClick={() => onRecorded(unfinished.file)} disabled={disabled} className={`${buttonClass} text-white bg-amber-600 hover:bg-amber-700`}>
+              Process it
+            </button>
+            <button onClick={discardUnfinished} disabled={disabled} className={`${buttonClass} text-amber-800 bg-white border border-amber-300 hover:bg-amber-100`}>
+              Discard
+            </button>
+          </div>
+        </div>
+      )}
+
+      <div className="flex flex-col items-center space-y-4">
+        <div className={`p-4 rounded-full ${status === 'recording' ? 'bg-red-100 text-red-600 animate-pulse' : 'bg-indigo-100 text-indigo-600'}`}>
+          <svg xmlns="http://www.w3.org/2000/svg" fill="none" viewBox="0 0 24 24" strokeWidth={1.5} stroke="currentColor" className="w-8 h-8">
+            <path strokeLinecap="round" strokeLinejoin="round" d="M12 18.75a6 6 0 006-6v-1.5m-6 7.5a6 6 0 01-6-6v-1.5m6 7.5v3.75m-3.75 0h7.5M12 15.75a3 3 0 01-3-3V4.5a3 3 0 116 0v8.25a3 3 0 01-3 3z" />
+          </svg>
+        </div>
+
+        <p className="text-3xl font-mono text-gray-800" aria-live="off">{formatTimestamp(elapsed)}</p>
+        <p className="text-sm text-gray-500 -mt-2">
+          {status === 'recording' ? 'Recording…' : status === 'paused' ? 'Paused' : 'Record the meeting with this device\'s microphone.'}
+        </p>
+
+        <div className="w-full max-w-sm h-2 bg-gray-100 rounded-full overflow-hidden" title="Input level">
+          <div
+            className={`h-full transition-[width] duration-75 ${level > 0.9 ? 'bg-red-500' : level > 0.7 ? 'bg-amber-400' : 'bg-green-500'}`}
+            style={{ width: `${status === 'recording' ? level * 100 : 0}%` }}
+          />
+        </div>
+
+        <div className="flex gap-2">
+          {status === 'idle' ? (
+            <button onClick={start} disabled={disabled} className={`${buttonClass} text-white bg-red-600 hover:bg-red-700`}>
+              Start recording
+            </button>
+          ) : (
+            <>
+              {status === 'recording' ? (
+                <button onClick={pause} className={`${buttonClass} text-gray-700 bg-white border border-gray-300 hover:bg-gray-50`}>Pause</button>
+              ) : (
+                <button onClick={resume} className={`${buttonClass} text-gray-700 bg-white border border-gray-300 hover:bg-gray-50`}>Resume</button>
+              )}
+              <button onClick={stop} className={`${buttonClass} text-white bg-indigo-600 hover:bg-indigo-700`}>
+                Stop & transcribe
+              </button>
+            </>
+          )}
+        </div>
+
+        {error && <p className="text-sm text-red-700">{error}</p>}
+        {status !== 'idle' && (
+          <p className="text-xs text-gray-400">Audio is saved in this browser as you record, so a crash does not lose the meeting.</p>
+        )}
+      </div>
+    </div>
+  );
+};
+
+export default MeetingRecorder;
@@ -0,0 +1,78 @@
+import React, { useEffect, useRef, useState } from 'react';
+import ReactMarkdown from 'react-markdown';
+import { MeetingMinutes } from '../types';
+import { MinutesPart, minutesFromEditedMarkdown, minutesParts, minutesToMarkdown } from '../utils/minutes';
+
+interface MinutesEditorProps {
+  minutes: MeetingMinutes;
+  onMinutesChange: (minutes: MeetingMinutes) => void;
+  onRegenerate: (part: MinutesPart, title: string) => void;
+  disabled: boolean;
+}
+
+/**
+ * The minutes as Markdown next to a live preview. Every edit is read back into the structured
+ * minutes, so the action item table, the tracker and the exports see it too.
+ */
+const MinutesEditor: React.FC<MinutesEditorProps> = ({ minutes, onMinutesChange, onRegenerate, disabled }) => {
+  const [text, setText] = useState(() => minutesToMarkdown(minutes));
+  // Markdown of the minutes this editor produced last; anything else came from outside and replaces the text
+  const emittedRef = useRef(minutesToMarkdown(minutes));
+  const [duplicateHeadings, setDuplicateHeadings] = useState<string[]>([]);
+
+  useEffect(() => {
+    const markdown = minutesToMarkdown(minutes);
+    if (markdown !== emittedRef.current) {
+      emittedRef.current = markdown;
+      setText(markdown);
+      setDuplicateHeadings([]);
+    }
+  }, [minutes]);
+
+  const handleChange = (value: string) => {
+    setText(value);
+    const { minutes: next, duplicateHeadings: duplicates } = minutesFromEditedMarkdown(value, minutes);
+    setDuplicateHeadings(duplicates);
+    emittedRef.current = minutesToMarkdown(next);
+    onMinutesChange(next);
+  };
+
+  return (
+    <div className="flex-1 min-h-0 flex flex-col">
+      <div className="px-4 py-2 border-b border-gray-100 flex flex-wrap items-center gap-2 text-xs text-gray-500">
+        <span>Keep the numbered headings; action items keep their "Owner · Due · Priority · Status" details.</span>
+        {duplicateHeadings.length > 0 && (
+          <span className="text-red-600" title="Merge or rename them; the text under the repeated heading is not saved">
+            Repeated heading: {duplicateHeadings.join(', ')}
+          </span>
+        )}
+        <select
+          value=""
+          onChange={(e) => {
+            const part = minutesParts(minutes).find(p => p.part === e.target.value);
+            if (part) onRegenerate(part.part, part.title);
+          }}
+          disabled={disabled}
+          className="ml-auto text-sm border border-gray-300 rounded-md px-2 py-1 bg-white disabled:opacity-50"
+        >
+          <option value="">Regenerate section…</option>
+          {minutesParts(minutes).map(({ part, title }) => <option key={part} value={part}>{title}</option>)}
+        </select>
+      </div>
+      <div className="flex-1 min-h-0 grid grid-cols-2 divide-x divide-gray-200">
+        <textarea
+          value={text}
+          onChange={(e) => handleChange(e.target.value)}
+          disabled={disabled}
+          spellCheck={false}
+          className="h-full w-full resize-none p-4 font-mono text-sm text-gray-800 focus:outline-none disabled:bg-gray-50"
+        />
+        <div className="h-full overflow-y-auto p-6 prose prose-indigo max-w-none">
+          <ReactMarkdown>{text}</ReactMarkdown>
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default MinutesEditor;
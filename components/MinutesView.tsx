@@ -1,14 +1,78 @@
-import React from 'react';
+import React, { useState } from 'react';
 import ReactMarkdown from 'react-markdown';
+import { ActionItemFollowUp, MeetingMinutes, ProcessingState, ProcessingStatus, SectionFormat } from '../types';
+import { MINUTES_HEADINGS, MinutesPart, STATUS_LABELS } from '../utils/minutes';
+import ActionItemTable from './ActionItemTable';
+import MinutesEditor from './MinutesEditor';
+import ProcessingProgress from './ProcessingProgress';
+import { HistoryButtons, HistoryControls } from './RevisionHistory';
 
 interface MinutesViewProps {
-  minutes: string;
-  fileName: string;
+  minutes: MeetingMinutes;
+  onExport: () => void;
+  onMinutesChange: (minutes: MeetingMinutes) => void;
+  // Rewrites one part from the transcript; `instructions` are the user's extra wishes, may be empty
+  onRegeneratePart: (part: MinutesPart, instructions: string) => void;
+  // Carries a follow-up's status over to the earlier meeting's item, or puts the old one back
+  onFollowUp: (followUp: ActionItemFollowUp, apply: boolean) => void;
   onReset: () => void;
   onBack: () => void;
+  processingState: ProcessingState;
+  onCancel: () => void;
+  history: HistoryControls;
 }
 
-const MinutesView: React.FC<MinutesViewProps> = ({ minutes, fileName, onReset, onBack }) => {
+const Section: React.FC<{ title: string; onRegenerate?: () => void; children: React.ReactNode }> = ({ title, onRegenerate, children }) => (
+  <section className="mb-6 group">
+    <h3 className="text-base font-semibold text-gray-800 mb-2 flex items-center gap-2">
+      {title}
+      {onRegenerate && (
+        <button
+          type="button"
+          onClick={onRegenerate}
+          className="text-xs font-medium text-gray-400 hover:text-indigo-700 opacity-0 group-hover:opacity-100 focus:opacity-100"
+          title="Regenerate only this section from the transcript"
+        >
+          ↻ Regenerate
+        </button>
+      )}
+    </h3>
+    {children}
+  </section>
+);
+
+const BulletList: React.FC<{ items: string[] }> = ({ items }) =>
+  items.length ? (
+    <ul className="list-disc list-inside space-y-1 text-gray-700">
+      {items.map((item, i) => <li key={i}>{item}</li>)}
+    </ul>
+  ) : (
+    <p className="text-sm text-gray-400">None</p>
+  );
+
+const MinutesView: React.FC<MinutesViewProps> = ({
+  minutes,
+  onExport,
+  onMinutesChange,
+  onRegeneratePart,
+  onFollowUp,
+  onReset,
+  onBack,
+  processingState,
+  onCancel,
+  history,
+}) => {
+  const isProcessing = processingState.status === ProcessingStatus.PROCESSING;
+  const [editMarkdown, setEditMarkdown] = useState(false);
+
+  const regenerate = (part: MinutesPart, title: string) => {
+    const instructions = window.prompt(
+      `Regenerate "${title}" from the transcript; the other sections stay as they are.\nExtra instructions (optional), e.g. "include the scrap rate numbers":`,
+      ''
+    );
+    if (instructions !== null) onRegeneratePart(part, instructions.trim());
+  };
+
   return (
     <div className="flex flex-col h-full bg-white rounded-xl shadow-sm border border-gray-200 overflow-hidden">
       <div className="p-4 border-b border-gray-200 bg-gray-50 flex justify-between items-center">
@@ -16,35 +80,97 @@ const MinutesView: React.FC<MinutesViewProps> = ({ minutes, fileName, onReset, o
           <h2 className="text-lg font-semibold text-gray-800">Meeting Minutes</h2>
           <p className="text-sm text-gray-500">Generated by Gemini AI</p>
         </div>
-        <button
-          onClick={() => {
-            const blob = new Blob([minutes], { type: 'text/markdown' });
-            const url = URL.createObjectURL(blob);
-            const a = document.createElement('a');
-            a.href = url;
-            // Generate a filename based on the original audio file
-            const downloadName = fileName ? `${fileName.split('.')[0]}_minutes.md` : 'meeting_minutes.md';
-            a.download = downloadName;
-            a.click();
-            URL.revokeObjectURL(url);
-          }}
-          className="flex items-center gap-2 px-3 py-1.5 text-sm font-medium text-indigo-700 bg-indigo-50 border border-indigo-200 rounded-md hover:bg-indigo-100 transition-colors"
-        >
-          <svg xmlns="http://www.w3.org/2000/svg" fill="none" viewBox="0 0 24 24" strokeWidth={1.5} stroke="currentColor" className="w-4 h-4">
-            <path strokeLinecap="round" strokeLinejoin="round" d="M3 16.5v2.25A2.25 2.25 0 005.25 21h13.5A2.25 2.25 0 0021 18.75V16.5M12 12.75l-3-3m0 0l-3 3m3-3v12" />
-          </svg>
-          Download .md
-        </button>
+        <div className="flex gap-2">
+          <HistoryButtons controls={history} disabled={isProcessing} />
+          <button
+            onClick={() => setEditMarkdown(prev => !prev)}
+            className="px-3 py-1.5 text-sm font-medium text-gray-700 bg-white border border-gray-300 rounded-md hover:bg-gray-50 transition-colors"
+          >
+            {editMarkdown ? 'Structured view' : 'Edit as Markdown'}
+          </button>
+          <button
+            onClick={onExport}
+            disabled={isProcessing}
+            className="flex items-center gap-2 px-3 py-1.5 text-sm font-medium text-indigo-700 bg-indigo-50 border border-indigo-200 rounded-md hover:bg-indigo-100 transition-colors disabled:opacity-50"
+          >
+            <svg xmlns="http://www.w3.org/2000/svg" fill="none" viewBox="0 0 24 24" strokeWidth={1.5} stroke="currentColor" className="w-4 h-4">
+              <path strokeLinecap="round" strokeLinejoin="round" d="M3 16.5v2.25A2.25 2.25 0 005.25 21h13.5A2.25 2.25 0 0021 18.75V16.5M12 12.75l-3-3m0 0l-3 3m3-3v12" />
+            </svg>
+            Export…
+          </button>
+        </div>
       </div>
 
-      <div className="flex-1 overflow-y-auto p-6 bg-white prose prose-indigo max-w-none">
-        <ReactMarkdown>{minutes}</ReactMarkdown>
-      </div>
+      {isProcessing && <ProcessingProgress processingState={processingState} onCancel={onCancel} variant="banner" />}
+
+      {editMarkdown ? (
+        <MinutesEditor minutes={minutes} onMinutesChange={onMinutesChange} onRegenerate={regenerate} disabled={isProcessing} />
+      ) : (
+        <fieldset disabled={isProcessing} className="flex-1 min-w-0 overflow-y-auto p-6 bg-white">
+          {minutes.title && <h2 className="text-xl font-bold text-gray-900 mb-4">{minutes.title}</h2>}
+          <Section title={MINUTES_HEADINGS.summary} onRegenerate={() => regenerate('summary', MINUTES_HEADINGS.summary)}>
+            <div className="prose prose-indigo max-w-none">
+              <ReactMarkdown>{minutes.summary}</ReactMarkdown>
+            </div>
+          </Section>
+          <Section title={MINUTES_HEADINGS.attendees} onRegenerate={() => regenerate('attendees', MINUTES_HEADINGS.attendees)}>
+            <BulletList items={minutes.attendees} />
+          </Section>
+          {minutes.sections.map(section => (
+            <Section key={section.id} title={section.title} onRegenerate={() => regenerate(`section:${section.id}`, section.title)}>
+              {section.format === SectionFormat.PARAGRAPH ? (
+                section.items.length
+                  ? section.items.map((paragraph, i) => <p key={i} className="text-gray-700 mb-2">{paragraph}</p>)
+                  : <p className="text-sm text-gray-400">None</p>
+              ) : (
+                <BulletList items={section.items} />
+              )}
+            </Section>
+          ))}
+          <Section title={MINUTES_HEADINGS.discussionPoints} onRegenerate={() => regenerate('discussionPoints', MINUTES_HEADINGS.discussionPoints)}>
+            <BulletList items={minutes.discussionPoints} />
+          </Section>
+          <Section title={MINUTES_HEADINGS.decisions} onRegenerate={() => regenerate('decisions', MINUTES_HEADINGS.decisions)}>
+            <BulletList items={minutes.decisions} />
+          </Section>
+          <Section title={MINUTES_HEADINGS.actionItems} onRegenerate={() => regenerate('actionItems', MINUTES_HEADINGS.actionItems)}>
+            <ActionItemTable
+              items={minutes.actionItems}
+              onChange={(actionItems) => onMinutesChange({ ...minutes, actionItems })}
+            />
+          </Section>
+          {minutes.followUps.length > 0 && (
+            <Section title={MINUTES_HEADINGS.followUps}>
+              <p className="text-xs text-gray-500 mb-2">Open items from earlier meetings this meeting reported on. Apply a status to update the item in the tracker.</p>
+              <ul className="space-y-1 text-sm text-gray-700">
+                {minutes.followUps.map(followUp => (
+                  <li key={`${followUp.meetingId}:${followUp.itemId}`}>
+                    <span className="mr-2 px-1.5 py-0.5 text-xs font-medium text-green-800 bg-green-100 rounded">{STATUS_LABELS[followUp.status]}</span>
+                    {followUp.task}
+                    {followUp.note && <span className="text-gray-500"> — {followUp.note}</span>}
+                    <button
+                      type="button"
+                      onClick={() => onFollowUp(followUp, followUp.previousStatus === undefined)}
+                      className="ml-2 text-xs font-medium text-indigo-600 hover:text-indigo-800"
+                      title={followUp.previousStatus === undefined
+                        ? 'Set the earlier meeting\'s item to this status'
+                        : `Put back ${STATUS_LABELS[followUp.previousStatus]}`}
+                    >
+                      {followUp.previousStatus === undefined ? 'Apply' : 'Revert'}
+                    </button>
+                  </li>
+                ))}
+              </ul>
+            </Section>
+          )}
+        </fieldset>
+      )}
 
       <div className="p-4 border-t border-gray-200 bg-gray-50 flex justify-between items-center">
         <button
           onClick={onBack}
-          className="px-4 py-2 text-sm font-medium text-gray-700 bg-white border border-gray-300 rounded-lg hover:bg-gray-50 transition-colors shadow-sm flex items-center gap-2"
+          disabled={isProcessing}
+          className="px-4 py-2 text-sm font-medium text-gray-700 bg-white border border-gray-300 rounded-lg hover:bg-gray-50 transition-colors shadow-sm flex items-center gap-2 disabled:opacity-50"
         >
           <svg xmlns="http://www.w3.org/2000/svg" fill="none" viewBox="0 0 24 24" strokeWidth={1.5} stroke="currentColor" className="w-4 h-4">
             <path strokeLinecap="round" strokeLinejoin="round" d="M10.5 19.5L3 12m0 0l7.5-7.5M3 12h18" />
@@ -53,7 +179,8 @@ const MinutesView: React.FC<MinutesViewProps> = ({ minutes, fileName, onReset, o
         </button>
         <button
           onClick={onReset}
-          className="text-sm text-gray-600 hover:text-gray-900 underline"
+          disabled={isProcessing}
+          className="text-sm text-gray-600 hover:text-gray-900 underline disabled:opacity-50"
         >
           Start New Meeting
         </button>
@@ -0,0 +1,49 @@
+import React from 'react';
+import { ChunkStatus, ProcessingState } from '../types';
+
+interface ProcessingProgressProps {
+  processingState: ProcessingState;
+  onCancel?: () => void;
+  // 'banner' is the slim strip shown on top of an editor that is being filled in
+  variant?: 'card' | 'banner';
+}
+
+const CHUNK_COLORS: Record<ChunkStatus, string> = {
+  [ChunkStatus.PENDING]: 'bg-gray-200',
+  [ChunkStatus.RUNNING]: 'bg-indigo-300 animate-pulse',
+  [ChunkStatus.DONE]: 'bg-indigo-600',
+  [ChunkStatus.ERROR]: 'bg-red-500',
+};
+
+const ProcessingProgress: React.FC<ProcessingProgressProps> = ({ processingState, onCancel, variant = 'card' }) => {
+  const chunks = processingState.chunks || [];
+
+  return (
+    <div className={variant === 'card'
+      ? 'mt-6 p-4 bg-white rounded-xl border border-gray-200 shadow-sm animate-fade-in'
+      : 'px-6 py-2 bg-indigo-50 border-b border-indigo-100'}
+    >
+      <div className="flex items-center gap-3">
+        <div className="animate-spin rounded-full h-5 w-5 border-b-2 border-indigo-600"></div>
+        <p className="flex-1 text-sm font-medium text-indigo-800">{processingState.message}</p>
+        {onCancel && (
+          <button
+            onClick={onCancel}
+            className="px-3 py-1 text-sm font-medium text-gray-700 bg-white border border-gray-300 rounded-md hover:bg-gray-50 transition-colors"
+          >
+            Cancel
+          </button>
+        )}
+      </div>
+      {chunks.length > 1 && (
+        <div className="mt-3 flex gap-1" title="Audio chunks">
+          {chunks.map((status, i) => (
+            <div key={i} className={`h-2 flex-1 rounded-full ${CHUNK_COLORS[status]}`} title={`Chunk ${i + 1}: ${status.toLowerCase()}`} />
+          ))}
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default ProcessingProgress;
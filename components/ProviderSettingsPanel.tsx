@@ -0,0 +1,87 @@
+import React, { useState } from 'react';
+import { ProviderId, ProviderSettings } from '../types';
+import { PROVIDER_LABELS } from '../services/providers';
+
+interface ProviderSettingsPanelProps {
+  settings: ProviderSettings;
+  onSave: (settings: ProviderSettings) => void;
+  onClose: () => void;
+}
+
+const ProviderSettingsPanel: React.FC<ProviderSettingsPanelProps> = ({ settings, onSave, onClose }) => {
+  const [draft, setDraft] = useState<ProviderSettings>(settings);
+
+  const update = (patch: Partial<ProviderSettings>) => setDraft(prev => ({ ...prev, ...patch }));
+
+  const inputClass = "w-full px-3 py-2 text-sm border border-gray-300 rounded-lg focus:outline-none focus:ring-2 focus:ring-indigo-500/20";
+
+  return (
+    <div className="fixed inset-0 z-[60] bg-black/30 flex items-center justify-center p-4" onClick={onClose}>
+      <div className="bg-white rounded-xl shadow-lg border border-gray-200 w-full max-w-md" onClick={(e) => e.stopPropagation()}>
+        <div className="p-4 border-b border-gray-200 bg-gray-50 rounded-t-xl">
+          <h2 className="text-lg font-semibold text-gray-800">AI Provider</h2>
+          <p className="text-sm text-gray-500">Choose which backend transcribes and writes the minutes.</p>
+        </div>
+
+        <div className="p-4 space-y-3">
+          {Object.values(ProviderId).map(id => (
+            <label key={id} className="flex items-center gap-2 text-sm text-gray-700 cursor-pointer">
+              <input
+                type="radio"
+                name="provider"
+                checked={draft.providerId === id}
+                onChange={() => update({ providerId: id })}
+              />
+              {PROVIDER_LABELS[id]}
+            </label>
+          ))}
+
+          {draft.providerId === ProviderId.OPENAI_COMPATIBLE && (
+            <div className="pt-3 border-t border-gray-200 space-y-2">
+              <label className="block text-xs font-medium text-gray-600">
+                Base URL
+                <input className={inputClass} value={draft.openAIBaseUrl} onChange={(e) => update({ openAIBaseUrl: e.target.value })} placeholder="http://localhost:8080/v1" />
+              </label>
+              <label className="block text-xs font-medium text-gray-600">
+                API Key (optional)
+                <input className={inputClass} type="password" value={draft.openAIApiKey} onChange={(e) => update({ openAIApiKey: e.target.value })} />
+              </label>
+              <label className="block text-xs font-medium text-gray-600">
+                Transcription model
+                <input className={inputClass} value={draft.openAITranscriptionModel} onChange={(e) => update({ openAITranscriptionModel: e.target.value })} />
+              </label>
+              <label className="block text-xs font-medium text-gray-600">
+                Text model
+                <input className={inputClass} value={draft.openAITextModel} onChange={(e) => update({ openAITextModel: e.target.value })} />
+              </label>
+            </div>
+          )}
+
+          {draft.providerId === ProviderId.FAKE && (
+            <p className="text-xs text-gray-500 pt-3 border-t border-gray-200">
+              The demo provider ignores the audio and returns a fixed sample transcript. Useful for walkthroughs without an API key.
+            </p>
+          )}
+        </div>
+
+        <div className="p-4 border-t border-gray-200 bg-gray-50 rounded-b-xl flex justify-end gap-2">
+          <button
+            onClick={onClose}
+            className="px-4 py-2 text-sm font-medium text-gray-700 bg-white border border-gray-300 rounded-lg hover:bg-gray-50 transition-colors shadow-sm"
+          >
+            Cancel
+          </button>
+          <button
+            onClick={() => onSave(draft)}
+            disabled={draft.providerId === ProviderId.OPENAI_COMPATIBLE && !draft.openAIBaseUrl.trim()}
+            className="px-4 py-2 text-sm font-medium text-white bg-indigo-600 hover:bg-indigo-700 rounded-lg shadow-sm transition-colors disabled:opacity-50"
+          >
+            Save
+          </button>
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default ProviderSettingsPanel;
@@ -0,0 +1,180 @@
+import React, { useMemo, useState } from 'react';
+import { RedactionDetector, RedactionRule, RedactionRuleKind, RedactionSettings } from '../types';
+import { DETECTOR_INFO, createRedactionRuleId, createRedactor, ruleError } from '../utils/redaction';
+
+interface RedactionManagerProps {
+  settings: RedactionSettings;
+  onSave: (settings: RedactionSettings) => void;
+  onClose: () => void;
+}
+
+const RULE_KIND_LABELS: Record<RedactionRuleKind, string> = {
+  [RedactionRuleKind.DICTIONARY]: 'Word list',
+  [RedactionRuleKind.REGEX]: 'Regular expression',
+};
+
+const SAMPLE_TEXT = '請王經理 0912-345-678 通知客戶，單價 NT$12,500，聯絡 wang@example.com.tw。';
+
+const RedactionManager: React.FC<RedactionManagerProps> = ({ settings, onSave, onClose }) => {
+  const [draft, setDraft] = useState<RedactionSettings>(settings);
+  const [sample, setSample] = useState(SAMPLE_TEXT);
+
+  const preview = useMemo(() => createRedactor(draft).redact(sample), [draft, sample]);
+
+  const toggleDetector = (detector: RedactionDetector, on: boolean) => {
+    setDraft(prev => ({
+      ...prev,
+      detectors: on ? [...prev.detectors, detector] : prev.detectors.filter(d => d !== detector),
+    }));
+  };
+
+  const updateRule = (id: string, patch: Partial<RedactionRule>) => {
+    setDraft(prev => ({ ...prev, rules: prev.rules.map(rule => (rule.id === id ? { ...rule, ...patch } : rule)) }));
+  };
+
+  const addRule = () => {
+    setDraft(prev => ({
+      ...prev,
+      rules: [...prev.rules, { id: createRedactionRuleId(), label: 'CUSTOMER', kind: RedactionRuleKind.DICTIONARY, pattern: '', terms: [] }],
+    }));
+  };
+
+  const cellInput = "w-full px-2 py-1 text-sm border border-transparent rounded hover:border-gray-200 focus:border-indigo-300 focus:outline-none";
+
+  return (
+    <div className="fixed inset-0 z-[60] bg-black/30 flex items-center justify-center p-4" onClick={onClose}>
+      <div className="bg-white rounded-xl shadow-lg border border-gray-200 w-full max-w-4xl max-h-[85vh] flex flex-col" onClick={(e) => e.stopPropagation()}>
+        <div className="p-4 border-b border-gray-200 bg-gray-50 rounded-t-xl">
+          <h2 className="text-lg font-semibold text-gray-800">Redaction</h2>
+          <p className="text-sm text-gray-500">
+            Sensitive values are swapped for placeholders like [PHONE_1] before text goes to the model and put back in this browser.
+            Audio is sent as recorded.
+          </p>
+        </div>
+
+        <div className="flex-1 overflow-y-auto p-4 space-y-5">
+          <label className="flex items-center gap-2 text-sm font-medium text-gray-800">
+            <input type="checkbox" checked={draft.enabled} onChange={(e) => setDraft(prev => ({ ...prev, enabled: e.target.checked }))} />
+            Redact text before every model call
+          </label>
+
+          <div>
+            <p className="text-xs font-semibold text-gray-600 uppercase tracking-wide mb-2">Built-in detectors</p>
+            <div className="grid sm:grid-cols-2 gap-2">
+              {Object.values(RedactionDetector).map(detector => (
+                <label key={detector} className="flex items-start gap-2 text-sm text-gray-700">
+                  <input
+                    type="checkbox"
+                    className="mt-1"
+                    checked={draft.detectors.includes(detector)}
+                    onChange={(e) => toggleDetector(detector, e.target.checked)}
+                  />
+                  <span>
+                    {DETECTOR_INFO[detector].label}
+                    <span className="block text-xs text-gray-400">{DETECTOR_INFO[detector].example} → [{DETECTOR_INFO[detector].placeholder}_1]</span>
+                  </span>
+                </label>
+              ))}
+            </div>
+          </div>
+
+          <div>
+            <p className="text-xs font-semibold text-gray-600 uppercase tracking-wide mb-2">Custom rules</p>
+            <table className="w-full text-sm">
+              <thead className="text-left text-xs font-semibold text-gray-600 uppercase tracking-wide">
+                <tr>
+                  <th className="px-2 py-1 w-36">Placeholder</th>
+                  <th className="px-2 py-1 w-44">Type</th>
+                  <th className="px-2 py-1">Names and words (comma separated) or pattern</th>
+                  <th className="w-8"></th>
+                </tr>
+              </thead>
+              <tbody className="divide-y divide-gray-100">
+                {draft.rules.map(rule => {
+                  const error = ruleError(rule);
+                  return (
+                    <tr key={rule.id}>
+                      <td className="px-1 py-1 align-top">
+                        <input className={cellInput} value={rule.label} onChange={(e) => updateRule(rule.id, { label: e.target.value })} placeholder="CUSTOMER" />
+                      </td>
+                      <td className="px-1 py-1 align-top">
+                        <select className={cellInput} value={rule.kind} onChange={(e) => updateRule(rule.id, { kind: e.target.value as RedactionRuleKind })}>
+                          {Object.values(RedactionRuleKind).map(kind => <option key={kind} value={kind}>{RULE_KIND_LABELS[kind]}</option>)}
+                        </select>
+                      </td>
+                      <td className="px-1 py-1 align-top">
+                        {rule.kind === RedactionRuleKind.DICTIONARY ? (
+                          <input
+                            key={`${rule.id}-terms`}
+                            className={cellInput}
+                            defaultValue={rule.terms.join(', ')}
+                            onBlur={(e) => updateRule(rule.id, { terms: e.target.value.split(/[,，]/).map(t => t.trim()).filter(Boolean) })}
+                            placeholder="Acme Taiwan, 台灣精密"
+                          />
+                        ) : (
+                          <input
+                            key={`${rule.id}-pattern`}
+                            className={`${cellInput} font-mono`}
+                            value={rule.pattern}
+                            onChange={(e) => updateRule(rule.id, { pattern: e.target.value })}
+                            placeholder="EMP-\d{5}"
+                          />
+                        )}
+                        {error && <p className="px-2 text-xs text-red-600">{error} This rule is skipped.</p>}
+                      </td>
+                      <td className="px-1 py-1 text-center align-top">
+                        <button
+                          onClick={() => setDraft(prev => ({ ...prev, rules: prev.rules.filter(r => r.id !== rule.id) }))}
+                          className="p-1 text-gray-400 hover:text-red-600"
+                          title="Remove rule"
+                        >
+                          ×
+                        </button>
+                      </td>
+                    </tr>
+                  );
+                })}
+                {draft.rules.length === 0 && (
+                  <tr>
+                    <td colSpan={4} className="px-3 py-4 text-center text-gray-400">No custom rules. Add customer names, unit price formats or employee IDs.</td>
+                  </tr>
+                )}
+              </tbody>
+            </table>
+            <button onClick={addRule} className="mt-2 text-sm font-medium text-indigo-600 hover:text-indigo-800">
+              + Add rule
+            </button>
+          </div>
+
+          <div className="space-y-2">
+            <p className="text-xs font-semibold text-gray-600 uppercase tracking-wide">Try it</p>
+            <textarea
+              value={sample}
+              onChange={(e) => setSample(e.target.value)}
+              rows={2}
+              className="w-full px-3 py-2 text-sm border border-gray-300 rounded-lg focus:outline-none focus:ring-2 focus:ring-indigo-500/20"
+            />
+            <p className="px-3 py-2 text-sm text-gray-700 bg-gray-50 border border-gray-200 rounded-lg whitespace-pre-wrap">{preview}</p>
+          </div>
+        </div>
+
+        <div className="p-4 border-t border-gray-200 bg-gray-50 rounded-b-xl flex justify-end gap-2">
+          <button
+            onClick={onClose}
+            className="px-4 py-2 text-sm font-medium text-gray-700 bg-white border border-gray-300 rounded-lg hover:bg-gray-50 transition-colors shadow-sm"
+          >
+            Cancel
+          </button>
+          <button
+            onClick={() => onSave({ ...draft, rules: draft.rules.filter(rule => rule.label.trim() || rule.pattern.trim() || rule.terms.length) })}
+            className="px-4 py-2 text-sm font-medium text-white bg-indigo-600 hover:bg-indigo-700 rounded-lg shadow-sm transition-colors"
+          >
+            Save
+          </button>
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default RedactionManager;
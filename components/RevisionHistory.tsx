@@ -0,0 +1,245 @@
+import React, { useMemo, useState } from 'react';
+import { HistoryContent, HistoryDocument, MeetingHistory, MeetingMinutes, Revision, TranscriptSegment } from '../types';
+import { REVISION_SOURCE_LABELS } from '../services/revisionHistory';
+import { DiffPart, diffWords } from '../utils/diff';
+import { minutesToMarkdown } from '../utils/minutes';
+import { reviewTranscript } from '../utils/transcriptReview';
+import { formatTimestamp } from '../utils/transcript';
+
+/**
+ * Undo, redo and the history dialog for one document, as shown in its editor's toolbar.
+ */
+export interface HistoryControls {
+  canUndo: boolean;
+  canRedo: boolean;
+  onUndo: () => void;
+  onRedo: () => void;
+  onShowHistory: () => void;
+}
+
+export const HistoryButtons: React.FC<{ controls: HistoryControls; disabled: boolean }> = ({ controls, disabled }) => {
+  const buttonClass = "px-2 py-1.5 text-sm font-medium text-gray-700 bg-white border border-gray-300 hover:bg-gray-50 disabled:opacity-50";
+  return (
+    <div className="flex shadow-sm rounded-lg">
+      <button onClick={controls.onUndo} disabled={disabled || !controls.canUndo} className={`${buttonClass} rounded-l-lg`} title="Undo">↶</button>
+      <button onClick={controls.onRedo} disabled={disabled || !controls.canRedo} className={`${buttonClass} -ml-px`} title="Redo">↷</button>
+      <button onClick={controls.onShowHistory} disabled={disabled} className={`${buttonClass} -ml-px rounded-r-lg`} title="Version history">
+        History
+      </button>
+    </div>
+  );
+};
+
+interface RevisionHistoryProps {
+  document: HistoryDocument;
+  onDocumentChange: (document: HistoryDocument) => void;
+  history: MeetingHistory;
+  // Ids of the revisions the documents are at now; earlier ones while undoing
+  currentRevisionIds: Record<HistoryDocument, string | undefined>;
+  transcript: TranscriptSegment[];
+  minutes: MeetingMinutes | null;
+  editorName: string;
+  onEditorNameChange: (name: string) => void;
+  onRename: (document: HistoryDocument, revisionId: string, name: string) => void;
+  onRestore: <D extends HistoryDocument>(document: D, revision: Revision<HistoryContent[D]>) => void;
+  onClose: () => void;
+}
+
+const DiffParts: React.FC<{ parts: DiffPart[] }> = ({ parts }) => (
+  <>
+    {parts.map((part, i) => part.type === 'equal' ? (
+      <span key={i}>{part.text}</span>
+    ) : (
+      <React.Fragment key={i}>
+        {part.removed && <del className="bg-red-100 text-red-800">{part.removed}</del>}
+        {part.added && <ins className="bg-green-100 text-green-800 no-underline">{part.added}</ins>}
+      </React.Fragment>
+    ))}
+  </>
+);
+
+const TranscriptComparison: React.FC<{ before: TranscriptSegment[]; after: TranscriptSegment[] }> = ({ before, after }) => {
+  const changed = useMemo(() => reviewTranscript(before, after).filter(line => line.changes.length > 0), [before, after]);
+  if (changed.length === 0) return <p className="text-sm text-gray-400">Same text as the current transcript.</p>;
+  return (
+    <div className="space-y-2 text-sm">
+      {changed.map((line, i) => {
+        const segment = line.segment || line.raw!;
+        return (
+          <div key={i} className="flex gap-3">
+            <span className="w-12 shrink-0 text-xs font-mono text-gray-400 pt-0.5">
+              {segment.start !== undefined ? formatTimestamp(segment.start) : '--:--'}
+            </span>
+            <span className="w-24 shrink-0 font-semibold text-indigo-700 truncate">{segment.speaker}</span>
+            <span className="flex-1 text-gray-700">
+              {!line.segment ? (
+                <del className="bg-red-100 text-red-800">{line.raw!.text}</del>
+              ) : !line.raw ? (
+                <ins className="bg-green-100 text-green-800 no-underline">{line.segment.text}</ins>
+              ) : (
+                <DiffParts parts={line.parts} />
+              )}
+            </span>
+          </div>
+        );
+      })}
+    </div>
+  );
+};
+
+const MinutesComparison: React.FC<{ before: MeetingMinutes | null; after: MeetingMinutes | null }> = ({ before, after }) => {
+  const parts = useMemo(
+    () => diffWords(before ? minutesToMarkdown(before) : '', after ? minutesToMarkdown(after) : ''),
+    [before, after]
+  );
+  if (parts.every(part => part.type === 'equal')) return <p className="text-sm text-gray-400">Same as the current minutes.</p>;
+  return <div className="text-sm text-gray-700 whitespace-pre-wrap"><DiffParts parts={parts} /></div>;
+};
+
+/**
+ * Every version of the transcript and the minutes, with who or what made it. Any version can be
+ * compared with the current one, named as a snapshot, or restored.
+ */
+const RevisionHistory: React.FC<RevisionHistoryProps> = ({
+  document,
+  onDocumentChange,
+  history,
+  currentRevisionIds,
+  transcript,
+  minutes,
+  editorName,
+  onEditorNameChange,
+  onRename,
+  onRestore,
+  onClose,
+}) => {
+  const revisions: Revision<HistoryContent[HistoryDocument]>[] = history[document];
+  const currentId = currentRevisionIds[document];
+  const [selectedId, setSelectedId] = useState<string | null>(null);
+  const selected = revisions.find(revision => revision.id === selectedId) || null;
+  // The selected revision typed by its document, for comparing and restoring it
+  const selectedTranscript = document === 'transcript' ? history.transcript.find(revision => revision.id === selectedId) : undefined;
+  const selectedMinutes = document === 'minutes' ? history.minutes.find(revision => revision.id === selectedId) : undefined;
+
+  const rename = (revision: Revision<HistoryContent[HistoryDocument]>) => {
+    const name = window.prompt('Snapshot name, e.g. "after supervisor review"', revision.name || '');
+    if (name !== null) onRename(document, revision.id, name.trim());
+  };
+
+  const restore = () => {
+    if (!window.confirm(`Restore this version of the ${document}? The current one stays in the history.`)) return;
+    if (selectedTranscript) onRestore('transcript', selectedTranscript);
+    if (selectedMinutes) onRestore('minutes', selectedMinutes);
+    setSelectedId(null);
+  };
+
+  return (
+    <div className="fixed inset-0 z-[60] bg-black/30 flex items-center justify-center p-4" onClick={onClose}>
+      <div className="bg-white rounded-xl shadow-lg border border-gray-200 w-full max-w-5xl h-[85vh] flex flex-col" onClick={(e) => e.stopPropagation()}>
+        <div className="p-4 border-b border-gray-200 bg-gray-50 rounded-t-xl flex flex-wrap justify-between items-center gap-3">
+          <div>
+            <h2 className="text-lg font-semibold text-gray-800">Version History</h2>
+            <div className="mt-1 flex gap-1 text-sm font-medium">
+              {(['transcript', 'minutes'] as const).map(d => (
+                <button
+                  key={d}
+                  onClick={() => { onDocumentChange(d); setSelectedId(null); }}
+                  className={`px-3 py-0.5 rounded-full ${document === d ? 'bg-indigo-100 text-indigo-700' : 'text-gray-500 hover:text-gray-700'}`}
+                >
+                  {d === 'transcript' ? 'Transcript' : 'Minutes'} ({history[d].length})
+                </button>
+              ))}
+            </div>
+          </div>
+          <label className="flex items-center gap-2 text-sm text-gray-600">
+            Your name
+            <input
+              value={editorName}
+              onChange={(e) => onEditorNameChange(e.target.value)}
+              placeholder="Shown on your edits"
+              className="w-40 px-2 py-1 text-sm border border-gray-300 rounded-md focus:outline-none focus:ring-2 focus:ring-indigo-500/20"
+            />
+          </label>
+        </div>
+
+        <div className="flex-1 min-h-0 flex">
+          <ul className="w-80 shrink-0 overflow-y-auto border-r border-gray-200 divide-y divide-gray-100">
+            {revisions.length === 0 && <li className="p-4 text-sm text-gray-400">No versions yet.</li>}
+            {[...revisions].reverse().map(revision => (
+              <li
+                key={revision.id}
+                onClick={() => setSelectedId(revision.id)}
+                className={`px-4 py-2 cursor-pointer ${revision.id === selectedId ? 'bg-indigo-50' : 'hover:bg-gray-50'}`}
+              >
+                <div className="flex items-center gap-2">
+                  <span className="text-sm font-medium text-gray-800">{REVISION_SOURCE_LABELS[revision.source]}</span>
+                  {revision.id === currentId && (
+                    <span className="px-1.5 text-xs font-medium text-indigo-700 bg-indigo-100 rounded">Current</span>
+                  )}
+                </div>
+                {revision.name && <p className="text-sm text-amber-800">★ {revision.name}</p>}
+                <p className="text-xs text-gray-500">
+                  {new Date(revision.createdAt).toLocaleString()}
+                  {revision.author && ` · ${revision.author}`}
+                  {Array.isArray(revision.content) && ` · ${revision.content.length} lines`}
+                </p>
+              </li>
+            ))}
+          </ul>
+
+          <div className="flex-1 min-w-0 flex flex-col">
+            {selected ? (
+              <>
+                <div className="px-4 py-2 border-b border-gray-100 flex flex-wrap items-center gap-2">
+                  <span className="text-sm text-gray-600">
+                    Changes from this version to the current {document}
+                    <span className="ml-2 text-xs"><del className="bg-red-100 text-red-800">only here</del> <ins className="bg-green-100 text-green-800 no-underline">only in current</ins></span>
+                  </span>
+                  <div className="ml-auto flex gap-2">
+                    <button onClick={() => rename(selected)} className="text-xs font-medium text-gray-600 hover:text-indigo-700">
+                      {selected.name ? 'Rename snapshot' : 'Save as snapshot'}
+                    </button>
+                    <button
+                      onClick={restore}
+                      disabled={selected.id === currentId}
+                      className="px-3 py-1 text-sm font-medium text-white bg-indigo-600 hover:bg-indigo-700 rounded-lg disabled:opacity-50"
+                    >
+                      Restore
+                    </button>
+                  </div>
+                </div>
+                <div className="flex-1 overflow-y-auto p-4">
+                  {selectedTranscript && <TranscriptComparison before={selectedTranscript.content} after={transcript} />}
+                  {selectedMinutes && <MinutesComparison before={selectedMinutes.content} after={minutes} />}
+                </div>
+              </>
+            ) : (
+              <div className="flex-1 flex flex-col items-center justify-center gap-3 text-sm text-gray-400">
+                <p>Select a version to compare it with the current {document}.</p>
+                {currentId && (
+                  <button
+                    onClick={() => rename(revisions.find(revision => revision.id === currentId)!)}
+                    className="px-3 py-1.5 text-sm font-medium text-indigo-700 bg-indigo-50 border border-indigo-200 rounded-lg hover:bg-indigo-100"
+                  >
+                    Save current version as snapshot…
+                  </button>
+                )}
+              </div>
+            )}
+          </div>
+        </div>
+
+        <div className="p-4 border-t border-gray-200 bg-gray-50 rounded-b-xl flex justify-end">
+          <button
+            onClick={onClose}
+            className="px-4 py-2 text-sm font-medium text-gray-700 bg-white border border-gray-300 rounded-lg hover:bg-gray-50 transition-colors shadow-sm"
+          >
+            Close
+          </button>
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default RevisionHistory;
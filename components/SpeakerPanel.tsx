@@ -0,0 +1,145 @@
+import React, { useMemo, useState } from 'react';
+import { IdentifiedSpeaker, SpeakerProfile, TranscriptSegment } from '../types';
+import { computeSpeakerStats } from '../utils/speakers';
+import { formatTimestamp } from '../utils/transcript';
+
+interface SpeakerPanelProps {
+  transcript: TranscriptSegment[];
+  speakers: IdentifiedSpeaker[];
+  knownSpeakers: SpeakerProfile[];
+  onRename: (label: string, profile: SpeakerProfile) => void;
+  onMerge: (from: string, into: string) => void;
+  onForget: (name: string) => void;
+  disabled: boolean;
+}
+
+const SpeakerPanel: React.FC<SpeakerPanelProps> = ({ transcript, speakers, knownSpeakers, onRename, onMerge, onForget, disabled }) => {
+  const stats = useMemo(() => computeSpeakerStats(transcript), [transcript]);
+  const [editing, setEditing] = useState<string | null>(null);
+  const [draft, setDraft] = useState<SpeakerProfile>({ name: '', role: '' });
+
+  const startEditing = (label: string) => {
+    const identified = speakers.find(s => s.label === label);
+    setDraft(identified ? { name: identified.name, role: identified.role } : { name: '', role: '' });
+    setEditing(label);
+  };
+
+  const handleNameChange = (name: string) => {
+    // Picking a regular attendee fills in their usual role
+    const known = knownSpeakers.find(k => k.name === name);
+    setDraft(prev => ({ name, role: known && !prev.role ? known.role : prev.role }));
+  };
+
+  const submit = () => {
+    if (!editing || !draft.name.trim()) return;
+    onRename(editing, { name: draft.name.trim(), role: draft.role.trim() });
+    setEditing(null);
+  };
+
+  const inputClass = "w-full px-2 py-1 text-sm border border-gray-300 rounded-md focus:outline-none focus:ring-2 focus:ring-indigo-500/20";
+
+  return (
+    <div className="flex flex-col h-full bg-white rounded-xl shadow-sm border border-gray-200 overflow-hidden">
+      <div className="p-4 border-b border-gray-200 bg-gray-50">
+        <h2 className="text-lg font-semibold text-gray-800">Speakers</h2>
+        <p className="text-sm text-gray-500">Rename or merge detected labels.</p>
+      </div>
+
+      <datalist id="known-speakers">
+        {knownSpeakers.map(k => (
+          <option key={k.name} value={k.name}>{k.role}</option>
+        ))}
+      </datalist>
+
+      <ul className="flex-1 overflow-y-auto divide-y divide-gray-100">
+        {stats.map(stat => (
+          <li key={stat.label} className="p-3">
+            <div className="flex items-start justify-between gap-2">
+              <div className="min-w-0">
+                <p className="text-sm font-semibold text-indigo-700 truncate" title={stat.label}>{stat.label}</p>
+                <p className="text-xs text-gray-500">
+                  {stat.lines} lines{stat.talkTime > 0 && ` · ${formatTimestamp(stat.talkTime)}`}
+                </p>
+              </div>
+              {editing !== stat.label && (
+                <button
+                  onClick={() => startEditing(stat.label)}
+                  disabled={disabled}
+                  className="text-xs font-medium text-indigo-600 hover:text-indigo-800 disabled:opacity-50"
+                >
+                  Rename
+                </button>
+              )}
+            </div>
+
+            {editing === stat.label && (
+              <div className="mt-2 space-y-2">
+                <input
+                  className={inputClass}
+                  list="known-speakers"
+                  placeholder="Name, e.g. 王經理"
+                  value={draft.name}
+                  onChange={(e) => handleNameChange(e.target.value)}
+                  autoFocus
+                />
+                <input
+                  className={inputClass}
+                  placeholder="Role, e.g. Line 3 supervisor"
+                  value={draft.role}
+                  onChange={(e) => setDraft(prev => ({ ...prev, role: e.target.value }))}
+                  onKeyDown={(e) => e.key === 'Enter' && submit()}
+                />
+                <div className="flex justify-end gap-2">
+                  <button onClick={() => setEditing(null)} className="text-xs text-gray-600 hover:text-gray-900">Cancel</button>
+                  <button
+                    onClick={submit}
+                    disabled={!draft.name.trim()}
+                    className="px-2 py-1 text-xs font-medium text-white bg-indigo-600 hover:bg-indigo-700 rounded-md disabled:opacity-50"
+                  >
+                    Apply
+                  </button>
+                </div>
+              </div>
+            )}
+
+            {stats.length > 1 && editing !== stat.label && (
+              <select
+                value=""
+                disabled={disabled}
+                onChange={(e) => e.target.value && onMerge(stat.label, e.target.value)}
+                className="mt-2 w-full text-xs text-gray-600 border border-gray-200 rounded-md px-1 py-1 bg-white"
+              >
+                <option value="">Merge into…</option>
+                {stats.filter(other => other.label !== stat.label).map(other => (
+                  <option key={other.label} value={other.label}>{other.label}</option>
+                ))}
+              </select>
+            )}
+          </li>
+        ))}
+      </ul>
+
+      {knownSpeakers.length > 0 && (
+        <details className="border-t border-gray-200 bg-gray-50">
+          <summary className="px-4 py-2 text-xs font-medium text-gray-600 cursor-pointer">
+            Saved attendees ({knownSpeakers.length})
+          </summary>
+          <ul className="max-h-40 overflow-y-auto px-4 pb-2 space-y-1">
+            {knownSpeakers.map(k => (
+              <li key={k.name} className="flex items-center justify-between gap-2 text-xs">
+                <span className="min-w-0 truncate text-gray-700" title={k.role}>
+                  {k.name}{k.role && <span className="text-gray-400"> · {k.role}</span>}
+                </span>
+                <button onClick={() => onForget(k.name)} className="text-gray-500 hover:text-red-600">
+                  Forget
+                </button>
+              </li>
+            ))}
+          </ul>
+        </details>
+      )}
+    </div>
+  );
+};
+
+export default SpeakerPanel;
@@ -0,0 +1,186 @@
+import React, { useState } from 'react';
+import { MinutesTemplate, MinutesTemplateSection, SectionFormat } from '../types';
+import { createTemplateId } from '../services/minutesTemplates';
+
+interface TemplateManagerProps {
+  templates: MinutesTemplate[];
+  onSaveCustomTemplates: (templates: MinutesTemplate[]) => void;
+  onClose: () => void;
+}
+
+const createSectionId = () => `s-${Math.random().toString(36).slice(2, 8)}`;
+
+const emptyTemplate = (): MinutesTemplate => ({
+  id: createTemplateId(),
+  name: '',
+  description: '',
+  instructions: '',
+  sections: [],
+  builtIn: false,
+});
+
+const TemplateManager: React.FC<TemplateManagerProps> = ({ templates, onSaveCustomTemplates, onClose }) => {
+  const [draft, setDraft] = useState<MinutesTemplate | null>(null);
+  const customTemplates = templates.filter(t => !t.builtIn);
+
+  const updateSection = (index: number, patch: Partial<MinutesTemplateSection>) => {
+    setDraft(prev => prev && {
+      ...prev,
+      sections: prev.sections.map((section, i) => (i === index ? { ...section, ...patch } : section)),
+    });
+  };
+
+  const saveDraft = () => {
+    if (!draft || !draft.name.trim()) return;
+    const cleaned = { ...draft, name: draft.name.trim(), sections: draft.sections.filter(s => s.title.trim()) };
+    const exists = customTemplates.some(t => t.id === cleaned.id);
+    onSaveCustomTemplates(exists ? customTemplates.map(t => (t.id === cleaned.id ? cleaned : t)) : [...customTemplates, cleaned]);
+    setDraft(null);
+  };
+
+  const remove = (template: MinutesTemplate) => {
+    if (!window.confirm(`Delete template "${template.name}"?`)) return;
+    onSaveCustomTemplates(customTemplates.filter(t => t.id !== template.id));
+  };
+
+  const inputClass = "w-full px-3 py-2 text-sm border border-gray-300 rounded-lg focus:outline-none focus:ring-2 focus:ring-indigo-500/20";
+
+  return (
+    <div className="fixed inset-0 z-[60] bg-black/30 flex items-center justify-center p-4" onClick={onClose}>
+      <div className="bg-white rounded-xl shadow-lg border border-gray-200 w-full max-w-2xl max-h-[85vh] flex flex-col" onClick={(e) => e.stopPropagation()}>
+        <div className="p-4 border-b border-gray-200 bg-gray-50 rounded-t-xl">
+          <h2 className="text-lg font-semibold text-gray-800">Minutes Templates</h2>
+          <p className="text-sm text-gray-500">Built-in templates can be copied and adapted.</p>
+        </div>
+
+        <div className="flex-1 overflow-y-auto p-4">
+          {!draft ? (
+            <ul className="divide-y divide-gray-100">
+              {templates.map(template => (
+                <li key={template.id} className="py-3 flex items-start justify-between gap-4">
+                  <div className="min-w-0">
+                    <p className="text-sm font-semibold text-gray-800">
+                      {template.name}
+                      {template.builtIn && <span className="ml-2 text-xs font-normal text-gray-400">built-in</span>}
+                    </p>
+                    <p className="text-xs text-gray-500">{template.description}</p>
+                    {template.sections.length > 0 && (
+                      <p className="text-xs text-gray-400 mt-1">{template.sections.map(s => s.title).join(' · ')}</p>
+                    )}
+                  </div>
+                  <div className="flex shrink-0 gap-3 text-xs font-medium">
+                    <button
+                      onClick={() => setDraft({ ...template, id: createTemplateId(), name: `${template.name} (copy)`, builtIn: false })}
+                      className="text-gray-600 hover:text-indigo-700"
+                    >
+                      Copy
+                    </button>
+                    {!template.builtIn && (
+                      <>
+                        <button onClick={() => setDraft(template)} className="text-gray-600 hover:text-indigo-700">Edit</button>
+                        <button onClick={() => remove(template)} className="text-red-600 hover:text-red-800">Delete</button>
+                      </>
+                    )}
+                  </div>
+                </li>
+              ))}
+            </ul>
+          ) : (
+            <div className="space-y-3">
+              <label className="block text-xs font-medium text-gray-600">
+                Name
+                <input className={inputClass} value={draft.name} onChange={(e) => setDraft({ ...draft, name: e.target.value })} />
+              </label>
+              <label className="block text-xs font-medium text-gray-600">
+                Description
+                <input className={inputClass} value={draft.description} onChange={(e) => setDraft({ ...draft, description: e.target.value })} />
+              </label>
+              <label className="block text-xs font-medium text-gray-600">
+                Extraction instructions
+                <textarea
+                  className={inputClass}
+                  rows={3}
+                  value={draft.instructions}
+                  onChange={(e) => setDraft({ ...draft, instructions: e.target.value })}
+                  placeholder="What kind of meeting this is and what the model should pay attention to."
+                />
+              </label>
+
+              <div>
+                <p className="text-xs font-medium text-gray-600 mb-1">Sections</p>
+                <div className="space-y-2">
+                  {draft.sections.map((section, index) => (
+                    <div key={section.id} className="p-2 border border-gray-200 rounded-lg space-y-2">
+                      <div className="flex gap-2">
+                        <input className={inputClass} placeholder="Section title" value={section.title} onChange={(e) => updateSection(index, { title: e.target.value })} />
+                        <select
+                          className="text-sm border border-gray-300 rounded-lg px-2 bg-white"
+                          value={section.format}
+                          onChange={(e) => updateSection(index, { format: e.target.value as SectionFormat })}
+                        >
+                          <option value={SectionFormat.BULLETS}>Bullets</option>
+                          <option value={SectionFormat.PARAGRAPH}>Paragraph</option>
+                        </select>
+                        <button
+                          onClick={() => setDraft({ ...draft, sections: draft.sections.filter((_, i) => i !== index) })}
+                          className="px-2 text-gray-400 hover:text-red-600"
+                          title="Remove section"
+                        >
+                          ×
+                        </button>
+                      </div>
+                      <input
+                        className={inputClass}
+                        placeholder="What belongs in this section"
+                        value={section.instructions}
+                        onChange={(e) => updateSection(index, { instructions: e.target.value })}
+                      />
+                    </div>
+                  ))}
+                </div>
+                <button
+                  onClick={() => setDraft({
+                    ...draft,
+                    sections: [...draft.sections, { id: createSectionId(), title: '', instructions: '', format: SectionFormat.BULLETS }],
+                  })}
+                  className="mt-2 text-sm font-medium text-indigo-600 hover:text-indigo-800"
+                >
+                  + Add section
+                </button>
+              </div>
+            </div>
+          )}
+        </div>
+
+        <div className="p-4 border-t border-gray-200 bg-gray-50 rounded-b-xl flex justify-between gap-2">
+          {!draft ? (
+            <>
+              <button onClick={() => setDraft(emptyTemplate())} className="text-sm font-medium text-indigo-600 hover:text-indigo-800">
+                + New template
+              </button>
+              <button
+                onClick={onClose}
+                className="px-4 py-2 text-sm font-medium text-gray-700 bg-white border border-gray-300 rounded-lg hover:bg-gray-50 transition-colors shadow-sm"
+              >
+                Close
+              </button>
+            </>
+          ) : (
+            <>
+              <button onClick={() => setDraft(null)} className="text-sm text-gray-600 hover:text-gray-900">Back</button>
+              <button
+                onClick={saveDraft}
+                disabled={!draft.name.trim()}
+                className="px-4 py-2 text-sm font-medium text-white bg-indigo-600 hover:bg-indigo-700 rounded-lg shadow-sm transition-colors disabled:opacity-50"
+              >
+                Save template
+              </button>
+            </>
+          )}
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default TemplateManager;
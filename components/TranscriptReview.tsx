@@ -0,0 +1,153 @@
+import React, { useState } from 'react';
+import { TranscriptSegment } from '../types';
+import { LineReview, TranscriptChange, revertChanges } from '../utils/transcriptReview';
+import { formatTimestamp } from '../utils/transcript';
+
+interface TranscriptReviewProps {
+  lines: LineReview[];
+  acceptedChanges: string[];
+  onTranscriptChange: (transcript: TranscriptSegment[]) => void;
+  onAcceptedChangesChange: (keys: string[]) => void;
+  onSeek: (time: number) => void;
+}
+
+interface DecisionButtonsProps {
+  onAccept: () => void;
+  onReject: () => void;
+  rejectLabel: string;
+}
+
+const DecisionButtons: React.FC<DecisionButtonsProps> = ({ onAccept, onReject, rejectLabel }) => (
+  <span className="inline-flex align-middle ml-0.5 mr-1 rounded border border-gray-200 bg-white text-xs leading-none overflow-hidden">
+    <button onClick={(e) => { e.stopPropagation(); onAccept(); }} className="px-1 py-0.5 text-green-700 hover:bg-green-50" title="Accept">✓</button>
+    <button onClick={(e) => { e.stopPropagation(); onReject(); }} className="px-1 py-0.5 text-red-700 hover:bg-red-50 border-l border-gray-200" title={rejectLabel}>✕</button>
+  </span>
+);
+
+/**
+ * The AI-corrected transcript against the raw transcription, word by word. Every change can be kept
+ * or undone; lines the correction deleted are listed where they were and can be restored.
+ */
+const TranscriptReview: React.FC<TranscriptReviewProps> = ({ lines, acceptedChanges, onTranscriptChange, onAcceptedChangesChange, onSeek }) => {
+  const [changedOnly, setChangedOnly] = useState(true);
+
+  const accepted = new Set(acceptedChanges);
+  const allChanges = lines.flatMap(line => line.changes);
+  const pending = allChanges.filter(change => !accepted.has(change.key));
+  const pendingDeletions = pending.filter(change => change.kind === 'deleted').length;
+
+  // Only keys that still exist are kept, so the list does not grow with every edit
+  const accept = (keys: string[]) => {
+    const existing = new Set(allChanges.map(change => change.key));
+    onAcceptedChangesChange([...new Set([...acceptedChanges, ...keys])].filter(key => existing.has(key)));
+  };
+  const reject = (keys: string[]) => onTranscriptChange(revertChanges(lines, new Set(keys)));
+
+  const isPending = (change: TranscriptChange | undefined) => !!change && !accepted.has(change.key);
+  const visibleLines = changedOnly ? lines.filter(line => line.changes.some(isPending)) : lines;
+
+  return (
+    <div className="h-full flex flex-col">
+      <div className="px-6 py-2 flex flex-wrap items-center gap-x-4 gap-y-2 border-b border-gray-100 text-sm">
+        <span className="text-gray-600">
+          {pending.length} change{pending.length === 1 ? '' : 's'} to review
+          {pendingDeletions > 0 && (
+            <span className="ml-2 px-1.5 py-0.5 text-xs font-medium text-red-800 bg-red-100 rounded">
+              {pendingDeletions} deleted line{pendingDeletions === 1 ? '' : 's'}
+            </span>
+          )}
+        </span>
+        <label className="flex items-center gap-1.5 text-gray-600">
+          <input
+            type="checkbox"
+            checked={changedOnly}
+            onChange={(e) => setChangedOnly(e.target.checked)}
+            className="rounded border-gray-300 text-indigo-600 focus:ring-indigo-500"
+          />
+          Only lines with open changes
+        </label>
+        <div className="ml-auto flex gap-2">
+          <button
+            onClick={() => accept(pending.map(change => change.key))}
+            disabled={pending.length === 0}
+            className="px-3 py-1 text-sm font-medium text-green-800 bg-green-50 border border-green-200 rounded-lg hover:bg-green-100 disabled:opacity-50"
+          >
+            Accept all
+          </button>
+          <button
+            onClick={() => {
+              if (window.confirm(`Undo ${pending.length} change(s) and go back to the raw transcription for them?`)) reject(pending.map(change => change.key));
+            }}
+            disabled={pending.length === 0}
+            className="px-3 py-1 text-sm font-medium text-red-800 bg-red-50 border border-red-200 rounded-lg hover:bg-red-100 disabled:opacity-50"
+          >
+            Reject all
+          </button>
+        </div>
+      </div>
+
+      <div className="flex-1 min-h-0 overflow-y-auto py-2">
+        {visibleLines.length === 0 ? (
+          <p className="px-6 py-4 text-gray-400">Nothing left to review.</p>
+        ) : visibleLines.map(line => {
+          const segment = line.segment || line.raw!;
+          const lineChange = line.changes.find(change => change.kind !== 'text');
+          const deleted = lineChange?.kind === 'deleted';
+          const added = lineChange?.kind === 'added';
+          return (
+            <div
+              key={`${segment.id}:${deleted ? 'raw' : 'current'}`}
+              onClick={() => segment.start !== undefined && onSeek(segment.start)}
+              className={`flex items-start gap-3 px-6 py-1.5 border-l-4 ${
+                deleted && isPending(lineChange) ? 'bg-red-50 border-red-400' :
+                added && isPending(lineChange) ? 'bg-green-50 border-green-400' : 'border-transparent hover:bg-gray-50'}`}
+            >
+              <span className="w-14 shrink-0 pt-0.5 text-xs font-mono text-gray-400">
+                {segment.start !== undefined ? formatTimestamp(segment.start) : '--:--'}
+              </span>
+              <span className="w-28 shrink-0 text-sm font-semibold text-indigo-700 truncate">{segment.speaker}</span>
+              <div className="flex-1 min-w-0 text-base leading-relaxed text-gray-700 whitespace-pre-wrap">
+                {lineChange ? (
+                  <>
+                    {isPending(lineChange) && (
+                      <span className={`mr-2 px-1.5 py-0.5 text-xs font-medium rounded ${deleted ? 'text-red-800 bg-red-100' : 'text-green-800 bg-green-100'}`}>
+                        {deleted ? 'Deleted by correction' : 'Added'}
+                      </span>
+                    )}
+                    <span className={deleted ? 'line-through text-red-700' : ''}>{segment.text}</span>
+                    {isPending(lineChange) && (
+                      <DecisionButtons
+                        onAccept={() => accept([lineChange.key])}
+                        onReject={() => reject([lineChange.key])}
+                        rejectLabel={deleted ? 'Restore this line' : 'Remove this line'}
+                      />
+                    )}
+                  </>
+                ) : line.parts.map((part, index) => {
+                  if (part.type === 'equal') return <span key={index}>{part.text}</span>;
+                  const change = line.changes.find(c => c.partIndex === index);
+                  const open = isPending(change);
+                  return (
+                    <span key={index}>
+                      {part.removed && (
+                        <del className={open ? 'bg-red-100 text-red-800' : 'text-gray-400'}>{part.removed}</del>
+                      )}
+                      {part.added && (
+                        <ins className={`no-underline ${open ? 'bg-green-100 text-green-800' : ''}`}>{part.added}</ins>
+                      )}
+                      {open && change && (
+                        <DecisionButtons onAccept={() => accept([change.key])} onReject={() => reject([change.key])} rejectLabel="Undo this change" />
+                      )}
+                    </span>
+                  );
+                })}
+              </div>
+            </div>
+          );
+        })}
+      </div>
+    </div>
+  );
+};
+
+export default TranscriptReview;
@@ -1,46 +1,361 @@
-import React from 'react';
-import { ProcessingState, ProcessingStatus } from '../types';
+import React, { useEffect, useLayoutEffect, useMemo, useRef, useState } from 'react';
+import { MinutesTemplate, ProcessingState, ProcessingStatus, TranscriptSegment } from '../types';
+import { createSegmentId, formatTimestamp } from '../utils/transcript';
+import { LANGUAGES } from '../services/languages';
+import AudioPlayer, { PLAYBACK_RATES } from './AudioPlayer';
+import ProcessingProgress from './ProcessingProgress';
+import TranscriptReview from './TranscriptReview';
+import { HistoryButtons, HistoryControls } from './RevisionHistory';
+import { reviewTranscript } from '../utils/transcriptReview';
+import { analyzeTranscript, ISSUE_LABELS, QualityIssue, removeFlagged } from '../utils/transcriptQuality';
 
 interface TranscriptViewProps {
-  transcript: string;
-  fileName: string;
-  onTranscriptChange: (newTranscript: string) => void;
+  transcript: TranscriptSegment[];
+  rawTranscript: TranscriptSegment[];
+  acceptedChanges: string[];
+  onAcceptedChangesChange: (keys: string[]) => void;
+  audioFile: File | null;
+  onTranscriptChange: (newTranscript: TranscriptSegment[]) => void;
   onGenerateMinutes: () => void;
+  onExport: () => void;
+  templates: MinutesTemplate[];
+  selectedTemplateId: string;
+  onTemplateChange: (templateId: string) => void;
+  onManageTemplates: () => void;
+  // '' writes the minutes in the transcript's language
+  minutesLanguage: string;
+  onMinutesLanguageChange: (code: string) => void;
   processingState: ProcessingState;
+  onCancel: () => void;
+  // Line to scroll to and mark, e.g. a cited one; a new object scrolls again
+  highlight: { segmentId: string } | null;
+  history: HistoryControls;
 }
 
+// Pseudo option in the template picker that opens the template manager
+const MANAGE_TEMPLATES = '__manage__';
+
+interface SegmentRowProps {
+  segment: TranscriptSegment;
+  active: boolean;
+  highlighted: boolean;
+  issues: QualityIssue[];
+  rowRef?: React.Ref<HTMLDivElement>;
+  onSeek: () => void;
+  onFocus: () => void;
+  onChange: (patch: Partial<TranscriptSegment>) => void;
+  onInsertAfter: () => void;
+  onDelete: () => void;
+  onRemoveIssue: (issue: QualityIssue) => void;
+}
+
+// Quality score colours: fine, worth a look, needs cleanup
+const scoreClass = (score: number) =>
+  score >= 90 ? 'text-green-800 bg-green-100' : score >= 70 ? 'text-amber-800 bg-amber-100' : 'text-red-800 bg-red-100';
+
+interface LineTextareaProps {
+  value: string;
+  onChange: (value: string) => void;
+  className: string;
+  title?: string;
+}
+
+const LineTextarea: React.FC<LineTextareaProps> = ({ value, onChange, className, title }) => {
+  const textRef = useRef<HTMLTextAreaElement>(null);
+
+  // Grow the textarea with its content so the list scrolls instead of each row
+  useLayoutEffect(() => {
+    const el = textRef.current;
+    if (!el) return;
+    el.style.height = 'auto';
+    el.style.height = `${el.scrollHeight}px`;
+  }, [value]);
+
+  return (
+    <textarea
+      ref={textRef}
+      rows={1}
+      className={`py-1 text-base leading-relaxed bg-transparent resize-none overflow-hidden rounded focus:outline-none focus:ring-2 focus:ring-indigo-500/20 ${className}`}
+      value={value}
+      onChange={(e) => onChange(e.target.value)}
+      spellCheck={false}
+      title={title}
+    />
+  );
+};
+
+// A loop with some context around it; textareas cannot highlight part of their text
+const LoopPreview: React.FC<{ text: string; range: [number, number] }> = ({ text, range: [start, end] }) => (
+  <p className="text-xs text-gray-500 truncate">
+    {start > 20 ? '…' : ''}{text.slice(Math.max(0, start - 20), start)}
+    <mark className="bg-red-100 text-red-800 line-through">{text.slice(start, end)}</mark>
+    {text.slice(end, end + 20)}{end + 20 < text.length ? '…' : ''}
+  </p>
+);
+
+const SegmentRow: React.FC<SegmentRowProps> = ({ segment, active, highlighted, issues, rowRef, onSeek, onFocus, onChange, onInsertAfter, onDelete, onRemoveIssue }) => {
+  const loops = issues.filter(issue => issue.range);
+  const flagged = issues.length > 0 && loops.length < issues.length;
+  return (
+    <div
+      ref={rowRef}
+      data-segment-id={segment.id}
+      onFocus={onFocus}
+      className={`group flex items-start gap-3 px-6 py-1.5 border-l-4 transition-colors ${active ? 'bg-indigo-50 border-indigo-500' : highlighted ? 'bg-yellow-50 border-yellow-400' : issues.length ? 'border-red-300 hover:bg-gray-50' : 'border-transparent hover:bg-gray-50'}`}
+    >
+      <button
+        onClick={onSeek}
+        className="w-14 shrink-0 pt-1.5 text-left text-xs font-mono text-gray-400 hover:text-indigo-600 disabled:hover:text-gray-400"
+        disabled={segment.start === undefined}
+        title="Play from here"
+      >
+        {segment.start !== undefined ? formatTimestamp(segment.start) : '--:--'}
+      </button>
+      <input
+        className="w-28 shrink-0 py-1 text-sm font-semibold text-indigo-700 bg-transparent rounded focus:outline-none focus:ring-2 focus:ring-indigo-500/20"
+        value={segment.speaker}
+        onChange={(e) => onChange({ speaker: e.target.value })}
+        spellCheck={false}
+      />
+      {segment.original !== undefined ? (
+        // Bilingual line: what was said, and its translation
+        <div className="flex-1 min-w-0 grid grid-cols-2 gap-3">
+          <LineTextarea value={segment.original} onChange={(original) => onChange({ original })} className="text-gray-500" title="As spoken" />
+          <LineTextarea value={segment.text} onChange={(text) => onChange({ text })} className="text-gray-700" title="Translation" />
+        </div>
+      ) : (
+        <div className="flex-1 min-w-0">
+          <LineTextarea
+            value={segment.text}
+            onChange={(text) => onChange({ text })}
+            className={`w-full ${flagged ? 'text-red-700' : 'text-gray-700'}`}
+          />
+          {loops.map((issue, i) => <LoopPreview key={i} text={segment.text} range={issue.range!} />)}
+        </div>
+      )}
+      {issues.map((issue, i) => (
+        <button
+          key={i}
+          onClick={(e) => { e.stopPropagation(); onRemoveIssue(issue); }}
+          className="shrink-0 mt-1.5 px-1.5 py-0.5 text-xs font-medium text-red-800 bg-red-100 rounded hover:bg-red-200"
+          title={`${issue.detail}\nClick to ${issue.range ? 'remove the repeats' : issue.kind === 'SPEAKING_RATE' ? 'clear the end time' : 'remove the line'}`}
+        >
+          {ISSUE_LABELS[issue.kind]} ✕
+        </button>
+      ))}
+      {segment.glossaryFixes?.length ? (
+        <button
+          onClick={(e) => { e.stopPropagation(); onChange({ glossaryFixes: undefined }); }}
+          className="shrink-0 mt-1.5 px-1.5 py-0.5 text-xs font-medium text-amber-800 bg-amber-100 rounded hover:bg-amber-200"
+          title={`Glossary fixes (click to mark as reviewed):\n${segment.glossaryFixes.map(f => `${f.from} → ${f.to}`).join('\n')}`}
+        >
+          {segment.glossaryFixes.length} fix{segment.glossaryFixes.length > 1 ? 'es' : ''}
+        </button>
+      ) : null}
+      <div className="flex gap-1 pt-1 opacity-0 group-hover:opacity-100 transition-opacity">
+        <button onClick={(e) => { e.stopPropagation(); onInsertAfter(); }} className="p-1 text-gray-400 hover:text-indigo-600" title="Insert line below">
+          <svg xmlns="http://www.w3.org/2000/svg" fill="none" viewBox="0 0 24 24" strokeWidth={1.5} stroke="currentColor" className="w-4 h-4">
+            <path strokeLinecap="round" strokeLinejoin="round" d="M12 4.5v15m7.5-7.5h-15" />
+          </svg>
+        </button>
+        <button onClick={(e) => { e.stopPropagation(); onDelete(); }} className="p-1 text-gray-400 hover:text-red-600" title="Delete line">
+          <svg xmlns="http://www.w3.org/2000/svg" fill="none" viewBox="0 0 24 24" strokeWidth={1.5} stroke="currentColor" className="w-4 h-4">
+            <path strokeLinecap="round" strokeLinejoin="round" d="M6 18L18 6M6 6l12 12" />
+          </svg>
+        </button>
+      </div>
+    </div>
+  );
+};
+
 const TranscriptView: React.FC<TranscriptViewProps> = ({
   transcript,
-  fileName,
+  rawTranscript,
+  acceptedChanges,
+  onAcceptedChangesChange,
+  audioFile,
   onTranscriptChange,
   onGenerateMinutes,
+  onExport,
+  templates,
+  selectedTemplateId,
+  onTemplateChange,
+  onManageTemplates,
+  minutesLanguage,
+  onMinutesLanguageChange,
   processingState,
+  onCancel,
+  highlight,
+  history,
 }) => {
   const isProcessing = processingState.status === ProcessingStatus.PROCESSING;
 
-  const handleDownload = () => {
-    const blob = new Blob([transcript], { type: 'text/plain' });
-    const url = URL.createObjectURL(blob);
-    const a = document.createElement('a');
-    a.href = url;
-    a.download = `${fileName.split('.')[0]}_transcript.txt`;
-    a.click();
-    URL.revokeObjectURL(url);
+  const updateSegment = (index: number, patch: Partial<TranscriptSegment>) => {
+    onTranscriptChange(transcript.map((segment, i) => (i === index ? { ...segment, ...patch } : segment)));
+  };
+
+  const insertAfter = (index: number) => {
+    const previous = transcript[index];
+    const segment: TranscriptSegment = { id: createSegmentId(), speaker: previous.speaker, start: previous.end, text: '' };
+    onTranscriptChange([...transcript.slice(0, index + 1), segment, ...transcript.slice(index + 1)]);
+  };
+
+  const deleteSegment = (index: number) => {
+    onTranscriptChange(transcript.filter((_, i) => i !== index));
+  };
+
+  const audioRef = useRef<HTMLAudioElement>(null);
+  const activeRowRef = useRef<HTMLDivElement>(null);
+  const [currentTime, setCurrentTime] = useState(0);
+  const [isPlaying, setIsPlaying] = useState(false);
+  const [playbackRate, setPlaybackRate] = useState(1);
+  const [focusedIndex, setFocusedIndex] = useState<number | null>(null);
+  const [mode, setMode] = useState<'edit' | 'review'>('edit');
+  const listRef = useRef<HTMLFieldSetElement>(null);
+  const scrolledHighlightRef = useRef<object | null>(null);
+
+  // Highlighted lines are shown in the editor, review mode would hide unchanged ones
+  useEffect(() => {
+    if (!highlight || scrolledHighlightRef.current === highlight) return;
+    if (mode !== 'edit') {
+      setMode('edit');
+      return;
+    }
+    scrolledHighlightRef.current = highlight;
+    listRef.current
+      ?.querySelector(`[data-segment-id="${CSS.escape(highlight.segmentId)}"]`)
+      ?.scrollIntoView({ block: 'center', behavior: 'smooth' });
+  }, [highlight, mode]);
+
+  // Meetings from before the raw transcript was kept have nothing to compare against
+  const canReview = rawTranscript.length > 0 && !isProcessing;
+  const reviewLines = useMemo(
+    () => (canReview ? reviewTranscript(rawTranscript, transcript) : []),
+    [canReview, rawTranscript, transcript]
+  );
+  const accepted = new Set(acceptedChanges);
+  const openChanges = reviewLines.flatMap(line => line.changes).filter(change => !accepted.has(change.key));
+  const openDeletions = openChanges.filter(change => change.kind === 'deleted').length;
+
+  // Lines still arriving would be flagged as trailing filler
+  const quality = useMemo(() => (isProcessing ? null : analyzeTranscript(transcript)), [isProcessing, transcript]);
+
+  const removeAllFlagged = () => {
+    if (!quality || !window.confirm(`Remove all ${quality.issues.length} flagged passages? Lines with implausible timing keep their text and lose their end time.`)) return;
+    onTranscriptChange(removeFlagged(transcript, quality.issues));
+  };
+
+  const audioUrl = useMemo(() => (audioFile ? URL.createObjectURL(audioFile) : ''), [audioFile]);
+  useEffect(() => () => { if (audioUrl) URL.revokeObjectURL(audioUrl); }, [audioUrl]);
+
+  const activeIndex = useMemo(() => {
+    let index = -1;
+    transcript.forEach((segment, i) => {
+      if (segment.start !== undefined && segment.start <= currentTime) index = i;
+    });
+    const segment = transcript[index];
+    // Past the end of the last utterance (a pause, or trailing silence) nothing is highlighted
+    return segment?.end !== undefined && currentTime > segment.end + 1 ? -1 : index;
+  }, [transcript, currentTime]);
+
+  // Keep the spoken line in view during playback, unless the user is typing somewhere
+  useEffect(() => {
+    if (!isPlaying || document.activeElement instanceof HTMLTextAreaElement) return;
+    activeRowRef.current?.scrollIntoView({ block: 'nearest', behavior: 'smooth' });
+  }, [activeIndex, isPlaying]);
+
+  const seekTo = (time: number) => {
+    if (!audioRef.current) return;
+    audioRef.current.currentTime = time;
+    setCurrentTime(time);
+  };
+
+  const changePlaybackRate = (rate: number) => {
+    setPlaybackRate(rate);
+    if (audioRef.current) audioRef.current.playbackRate = rate;
   };
 
+  // Transcriptionist shortcuts; Ctrl-based so they work while typing in a line
+  useEffect(() => {
+    if (!audioUrl) return;
+    const handleKeyDown = (e: KeyboardEvent) => {
+      const audio = audioRef.current;
+      if (!audio || !(e.ctrlKey || e.metaKey)) return;
+
+      if (e.code === 'Space') {
+        e.preventDefault();
+        // Rejects when the browser blocks playback or the source cannot be played; the player shows why
+        if (audio.paused) audio.play().catch(e => console.warn('Playback failed:', e)); else audio.pause();
+      } else if (e.code === 'KeyB') {
+        e.preventDefault();
+        seekTo(Math.max(0, audio.currentTime - 5));
+      } else if (e.shiftKey && (e.code === 'ArrowDown' || e.code === 'ArrowUp')) {
+        e.preventDefault();
+        const current = PLAYBACK_RATES.indexOf(playbackRate);
+        const next = e.code === 'ArrowDown' ? Math.max(0, current - 1) : Math.min(PLAYBACK_RATES.length - 1, current + 1);
+        changePlaybackRate(PLAYBACK_RATES[next]);
+      } else if (e.code === 'KeyM' && focusedIndex !== null && transcript[focusedIndex]) {
+        e.preventDefault();
+        updateSegment(focusedIndex, { start: audio.currentTime });
+      }
+    };
+    window.addEventListener('keydown', handleKeyDown);
+    return () => window.removeEventListener('keydown', handleKeyDown);
+  });
+
   return (
     <div className="flex flex-col h-full bg-white rounded-xl shadow-sm border border-gray-200 overflow-hidden">
       <div className="p-4 border-b border-gray-200 bg-gray-50 flex flex-col sm:flex-row justify-between items-center gap-4">
         <div>
-          <h2 className="text-lg font-semibold text-gray-800">Transcript Editor</h2>
-          <p className="text-sm text-gray-500">Review the auto-refined transcript.</p>
+          <h2 className="text-lg font-semibold text-gray-800 flex items-center gap-2">
+            Transcript Editor
+            {quality && transcript.length > 0 && (
+              <span
+                className={`px-2 py-0.5 text-xs font-medium rounded-full ${scoreClass(quality.score)}`}
+                title="Share of the transcript not flagged as loops, repeated lines, trailing filler or implausible timing"
+              >
+                Quality {quality.score}
+              </span>
+            )}
+            {quality && quality.issues.length > 0 && mode === 'edit' && (
+              <button onClick={removeAllFlagged} className="text-xs font-medium text-red-600 hover:text-red-800">
+                Remove {quality.issues.length} flagged
+              </button>
+            )}
+          </h2>
+          {canReview ? (
+            <div className="mt-1 flex gap-1 text-sm font-medium">
+              <button
+                onClick={() => setMode('edit')}
+                className={`px-3 py-0.5 rounded-full ${mode === 'edit' ? 'bg-indigo-100 text-indigo-700' : 'text-gray-500 hover:text-gray-700'}`}
+              >
+                Edit
+              </button>
+              <button
+                onClick={() => setMode('review')}
+                className={`px-3 py-0.5 rounded-full ${mode === 'review' ? 'bg-indigo-100 text-indigo-700' : 'text-gray-500 hover:text-gray-700'}`}
+                title="Compare with the raw transcription"
+              >
+                Review changes ({openChanges.length})
+                {openDeletions > 0 && (
+                  <span className="ml-1.5 px-1.5 text-xs text-red-800 bg-red-100 rounded" title="Lines the AI correction deleted">
+                    {openDeletions} deleted
+                  </span>
+                )}
+              </button>
+            </div>
+          ) : (
+            <p className="text-sm text-gray-500">Review the auto-refined transcript.</p>
+          )}
         </div>
         <div className="flex gap-2">
+          <HistoryButtons controls={history} disabled={isProcessing} />
+
           <button
-            onClick={handleDownload}
+            onClick={onExport}
             disabled={isProcessing}
             className="px-3 py-2 text-sm font-medium text-gray-700 bg-white border border-gray-300 rounded-lg hover:bg-gray-50 transition-colors shadow-sm disabled:opacity-50"
-            title="Download Transcript"
+            title="Export transcript, subtitles or minutes"
           >
              <svg xmlns="http://www.w3.org/2000/svg" fill="none" viewBox="0 0 24 24" strokeWidth={1.5} stroke="currentColor" className="w-5 h-5">
               <path strokeLinecap="round" strokeLinejoin="round" d="M3 16.5v2.25A2.25 2.25 0 005.25 21h13.5A2.25 2.25 0 0021 18.75V16.5M12 12.75l-3-3m0 0l-3 3m3-3v12" />
@@ -50,6 +365,32 @@ const TranscriptView: React.FC<TranscriptViewProps> = ({
             </svg>
           </button>
           
+          <select
+            value={selectedTemplateId}
+            onChange={(e) => e.target.value === MANAGE_TEMPLATES ? onManageTemplates() : onTemplateChange(e.target.value)}
+            disabled={isProcessing}
+            className="px-2 py-2 text-sm text-gray-700 bg-white border border-gray-300 rounded-lg shadow-sm disabled:opacity-50"
+            title="Minutes template"
+          >
+            {templates.map(template => (
+              <option key={template.id} value={template.id}>{template.name}</option>
+            ))}
+            <option value={MANAGE_TEMPLATES}>Manage templates…</option>
+          </select>
+
+          <select
+            value={minutesLanguage}
+            onChange={(e) => onMinutesLanguageChange(e.target.value)}
+            disabled={isProcessing}
+            className="px-2 py-2 text-sm text-gray-700 bg-white border border-gray-300 rounded-lg shadow-sm disabled:opacity-50"
+            title="Minutes language"
+          >
+            <option value="">Minutes as transcript</option>
+            {LANGUAGES.map(language => (
+              <option key={language.code} value={language.code}>{language.label}</option>
+            ))}
+          </select>
+
           <button
             onClick={onGenerateMinutes}
             disabled={isProcessing}
@@ -63,21 +404,53 @@ const TranscriptView: React.FC<TranscriptViewProps> = ({
         </div>
       </div>
       
-      <div className="relative flex-1">
-        <textarea
-          className="w-full h-full p-6 text-gray-700 text-base leading-relaxed resize-none focus:outline-none focus:ring-2 focus:ring-indigo-500/20"
-          value={transcript}
-          onChange={(e) => onTranscriptChange(e.target.value)}
-          placeholder="Transcription will appear here..."
-          spellCheck={false}
+      {audioUrl && (
+        <AudioPlayer
+          src={audioUrl}
+          audioRef={audioRef}
+          currentTime={currentTime}
+          playbackRate={playbackRate}
+          onTimeUpdate={setCurrentTime}
+          onPlayingChange={setIsPlaying}
+          onPlaybackRateChange={changePlaybackRate}
         />
-        {isProcessing && (
-          <div className="absolute inset-0 bg-white/80 backdrop-blur-sm flex items-center justify-center z-10">
-            <div className="flex flex-col items-center">
-              <div className="animate-spin rounded-full h-10 w-10 border-b-2 border-indigo-600 mb-3"></div>
-              <p className="text-indigo-800 font-medium">{processingState.message}</p>
-            </div>
-          </div>
+      )}
+
+      {isProcessing && <ProcessingProgress processingState={processingState} onCancel={onCancel} variant="banner" />}
+
+      <div className="relative flex-1 min-h-0">
+        {canReview && mode === 'review' ? (
+          <TranscriptReview
+            lines={reviewLines}
+            acceptedChanges={acceptedChanges}
+            onTranscriptChange={onTranscriptChange}
+            onAcceptedChangesChange={onAcceptedChangesChange}
+            onSeek={seekTo}
+          />
+        ) : (
+          // Lines are still arriving while processing; editing them now would be overwritten
+          <fieldset ref={listRef} disabled={isProcessing} className="h-full min-w-0 overflow-y-auto py-4">
+            {transcript.length === 0 ? (
+              <p className="px-6 text-gray-400">Transcription will appear here...</p>
+            ) : (
+              transcript.map((segment, index) => (
+                <SegmentRow
+                  key={segment.id}
+                  segment={segment}
+                  active={index === activeIndex}
+                  highlighted={segment.id === highlight?.segmentId}
+                  issues={quality?.issues.filter(issue => issue.segmentId === segment.id) || []}
+                  rowRef={index === activeIndex ? activeRowRef : undefined}
+                  onSeek={() => segment.start !== undefined && seekTo(segment.start)}
+                  onFocus={() => setFocusedIndex(index)}
+                  onChange={(patch) => updateSegment(index, patch)}
+                  onInsertAfter={() => insertAfter(index)}
+                  onDelete={() => deleteSegment(index)}
+                  onRemoveIssue={(issue) => onTranscriptChange(removeFlagged(transcript, [issue]))}
+                />
+              ))
+            )}
+          </fieldset>
         )}
       </div>
     </div>
@@ -0,0 +1,330 @@
+import React, { useEffect, useMemo, useState } from 'react';
+import { BudgetMode, BudgetSettings, MeetingRecord, ModelPrice, UsageRecord, UsageStep } from '../types';
+import { listMeetings } from '../services/meetingLibrary';
+import {
+  DEFAULT_PRICES,
+  USAGE_STEP_LABELS,
+  costOf,
+  formatCost,
+  listUsage,
+  loadBudget,
+  loadPrices,
+  monthOf,
+  saveBudget,
+  savePrices,
+  totalCost,
+} from '../services/usage';
+
+interface UsageViewProps {
+  onOpenMeeting: (id: string) => void;
+  disabled: boolean;
+}
+
+type Tab = 'meetings' | 'prices';
+
+interface MeetingUsage {
+  meetingId: string;
+  firstAt: number;
+  records: UsageRecord[];
+}
+
+const PRICE_FIELDS: { key: Exclude<keyof ModelPrice, 'model'>; label: string }[] = [
+  { key: 'inputPerMillion', label: 'Input / 1M tokens' },
+  { key: 'audioInputPerMillion', label: 'Audio input / 1M tokens' },
+  { key: 'outputPerMillion', label: 'Output / 1M tokens' },
+  { key: 'perAudioMinute', label: 'Per audio minute' },
+];
+
+const BUDGET_MODE_LABELS: Record<BudgetMode, string> = {
+  [BudgetMode.WARN]: 'Warn before transcribing',
+  [BudgetMode.BLOCK]: 'Block new transcriptions',
+};
+
+const formatTokens = (n: number) => n.toLocaleString();
+const formatMinutes = (seconds: number) => `${(seconds / 60).toFixed(1)} min`;
+const monthLabel = (month: string) => new Date(`${month}-01T00:00:00`).toLocaleDateString(undefined, { year: 'numeric', month: 'long' });
+
+const sumOf = (records: UsageRecord[], pick: (record: UsageRecord) => number) => records.reduce((sum, record) => sum + pick(record), 0);
+
+const UsageView: React.FC<UsageViewProps> = ({ onOpenMeeting, disabled }) => {
+  const [records, setRecords] = useState<UsageRecord[]>([]);
+  const [titles, setTitles] = useState<Map<string, string>>(new Map());
+  const [loading, setLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+  const [month, setMonth] = useState(() => monthOf(Date.now()));
+  const [tab, setTab] = useState<Tab>('meetings');
+  const [prices, setPrices] = useState<ModelPrice[]>(loadPrices);
+  const [budget, setBudget] = useState<BudgetSettings>(loadBudget);
+  const [draftPrices, setDraftPrices] = useState<ModelPrice[]>(prices);
+  const [draftBudget, setDraftBudget] = useState<BudgetSettings>(budget);
+
+  useEffect(() => {
+    Promise.all([listUsage(), listMeetings()])
+      .then(([usage, meetings]) => {
+        setRecords(usage);
+        setTitles(new Map(meetings.map((m: MeetingRecord) => [m.id, m.title])));
+      })
+      .catch(e => setError(e?.message || 'Could not read the usage records.'))
+      .finally(() => setLoading(false));
+  }, []);
+
+  const months = useMemo(
+    () => Array.from(new Set([monthOf(Date.now()), ...records.map(r => monthOf(r.at))])).sort().reverse(),
+    [records]
+  );
+  const inMonth = useMemo(() => records.filter(r => monthOf(r.at) === month), [records, month]);
+
+  const meetings = useMemo(() => {
+    const byMeeting = new Map<string, MeetingUsage>();
+    for (const record of inMonth) {
+      const entry = byMeeting.get(record.meetingId) || { meetingId: record.meetingId, firstAt: record.at, records: [] };
+      entry.records.push(record);
+      byMeeting.set(record.meetingId, entry);
+    }
+    return Array.from(byMeeting.values()).sort((a, b) => b.firstAt - a.firstAt);
+  }, [inMonth]);
+
+  const spent = totalCost(inMonth, prices);
+  const unpriced = new Set(inMonth.filter(r => costOf(r, prices) === null).map(r => r.model));
+  const limitShare = budget.monthlyLimit ? Math.min(1, spent / budget.monthlyLimit) : 0;
+
+  const stepCosts = (list: UsageRecord[]) =>
+    (Object.keys(USAGE_STEP_LABELS) as UsageStep[])
+      .map(step => ({ step, cost: totalCost(list.filter(r => r.step === step), prices), calls: list.filter(r => r.step === step).length }))
+      .filter(entry => entry.calls > 0);
+
+  const meetingTitle = (id: string) => (!id ? 'Not saved to the library' : titles.get(id) || 'Deleted meeting');
+
+  const updatePrice = (index: number, patch: Partial<ModelPrice>) => {
+    setDraftPrices(prev => prev.map((price, i) => (i === index ? { ...price, ...patch } : price)));
+  };
+
+  const handleSaveSettings = () => {
+    const cleaned = draftPrices.filter(price => price.model.trim()).map(price => ({ ...price, model: price.model.trim() }));
+    savePrices(cleaned);
+    saveBudget(draftBudget);
+    setPrices(cleaned);
+    setDraftPrices(cleaned);
+    setBudget(draftBudget);
+    setTab('meetings');
+  };
+
+  const tabClass = (t: Tab) => `px-3 py-0.5 rounded-full ${tab === t ? 'bg-indigo-100 text-indigo-700' : 'text-gray-500 hover:text-gray-700'}`;
+  const cellInput = "w-full px-2 py-1 text-sm border border-transparent rounded hover:border-gray-200 focus:border-indigo-300 focus:outline-none";
+  const inputClass = "px-3 py-1.5 text-sm border border-gray-300 rounded-lg focus:outline-none focus:ring-2 focus:ring-indigo-500/20";
+
+  return (
+    <div className="flex flex-col h-full bg-white rounded-xl shadow-sm border border-gray-200 overflow-hidden">
+      <div className="p-4 border-b border-gray-200 bg-gray-50 flex flex-col sm:flex-row justify-between items-center gap-4">
+        <div>
+          <h2 className="text-lg font-semibold text-gray-800">Usage &amp; Cost</h2>
+          <p className="text-sm text-gray-500">Estimated from the tokens each call reported and the price table; the provider's invoice is what counts.</p>
+        </div>
+        <div className="flex items-center gap-2 text-sm">
+          <button onClick={() => setTab('meetings')} className={tabClass('meetings')}>Meetings</button>
+          <button onClick={() => setTab('prices')} className={tabClass('prices')}>Prices &amp; budget</button>
+          {tab === 'meetings' && (
+            <select value={month} onChange={(e) => setMonth(e.target.value)} className="text-sm border border-gray-300 rounded-md px-2 py-1 bg-white">
+              {months.map(m => <option key={m} value={m}>{monthLabel(m)}</option>)}
+            </select>
+          )}
+        </div>
+      </div>
+
+      {tab === 'meetings' ? (
+        <div className="flex-1 overflow-y-auto">
+          <div className="grid grid-cols-2 sm:grid-cols-4 gap-3 p-4 border-b border-gray-100">
+            {[
+              ['Estimated cost', formatCost(spent)],
+              ['Model calls', inMonth.length.toLocaleString()],
+              ['Tokens in / out', `${formatTokens(sumOf(inMonth, r => r.promptTokens))} / ${formatTokens(sumOf(inMonth, r => r.responseTokens))}`],
+              ['Audio', formatMinutes(sumOf(inMonth, r => r.audioSeconds))],
+            ].map(([label, value]) => (
+              <div key={label} className="px-3 py-2 bg-gray-50 border border-gray-200 rounded-lg">
+                <p className="text-xs font-medium text-gray-500">{label}</p>
+                <p className="text-lg font-semibold text-gray-800">{value}</p>
+              </div>
+            ))}
+          </div>
+
+          {budget.monthlyLimit > 0 && month === monthOf(Date.now()) && (
+            <div className="px-4 py-3 border-b border-gray-100">
+              <div className="flex justify-between text-xs text-gray-600 mb-1">
+                <span>Monthly budget ({BUDGET_MODE_LABELS[budget.mode].toLowerCase()})</span>
+                <span>{formatCost(spent)} of {formatCost(budget.monthlyLimit)}</span>
+              </div>
+              <div className="h-2 bg-gray-100 rounded-full overflow-hidden">
+                <div className={`h-full ${limitShare >= 1 ? 'bg-red-500' : limitShare >= 0.8 ? 'bg-amber-500' : 'bg-indigo-500'}`} style={{ width: `${limitShare * 100}%` }} />
+              </div>
+            </div>
+          )}
+
+          {unpriced.size > 0 && (
+            <p className="px-4 py-2 text-xs text-amber-800 bg-amber-50 border-b border-amber-100">
+              No price for {Array.from(unpriced).join(', ')}; those calls count as free. Add them under Prices &amp; budget.
+            </p>
+          )}
+
+          {loading && <p className="p-6 text-sm text-gray-400">Loading...</p>}
+          {error && <p className="p-6 text-sm text-red-600">{error}</p>}
+          {!error && !loading && meetings.length === 0 && (
+            <p className="p-6 text-sm text-gray-400">No model calls in {monthLabel(month)}.</p>
+          )}
+          {meetings.length > 0 && (
+            <table className="w-full text-sm">
+              <thead className="sticky top-0 bg-gray-50 text-left text-xs font-semibold text-gray-600 uppercase tracking-wide">
+                <tr>
+                  <th className="px-4 py-2">Meeting</th>
+                  <th className="px-2 py-2">Steps</th>
+                  <th className="px-2 py-2 w-20 text-right">Calls</th>
+                  <th className="px-2 py-2 w-36 text-right">Tokens in / out</th>
+                  <th className="px-2 py-2 w-20 text-right">Audio</th>
+                  <th className="px-4 py-2 w-24 text-right">Cost</th>
+                </tr>
+              </thead>
+              <tbody className="divide-y divide-gray-100">
+                {meetings.map(meeting => (
+                  <tr key={meeting.meetingId || 'unsaved'} className="text-gray-700 align-top">
+                    <td className="px-4 py-2">
+                      {titles.has(meeting.meetingId) ? (
+                        <button
+                          onClick={() => onOpenMeeting(meeting.meetingId)}
+                          disabled={disabled}
+                          className="block max-w-full text-left font-medium text-indigo-600 hover:text-indigo-800 truncate disabled:opacity-50"
+                        >
+                          {meetingTitle(meeting.meetingId)}
+                        </button>
+                      ) : (
+                        <span className="text-gray-400">{meetingTitle(meeting.meetingId)}</span>
+                      )}
+                      <span className="text-xs text-gray-400">{new Date(meeting.firstAt).toLocaleDateString()}</span>
+                    </td>
+                    <td className="px-2 py-2 text-xs text-gray-500">
+                      {stepCosts(meeting.records).map(({ step, cost, calls }) => (
+                        <span key={step} className="block">{USAGE_STEP_LABELS[step]}: {formatCost(cost)}{calls > 1 && ` (${calls} calls)`}</span>
+                      ))}
+                    </td>
+                    <td className="px-2 py-2 text-right">{meeting.records.length}</td>
+                    <td className="px-2 py-2 text-right">
+                      {formatTokens(sumOf(meeting.records, r => r.promptTokens))} / {formatTokens(sumOf(meeting.records, r => r.responseTokens))}
+                    </td>
+                    <td className="px-2 py-2 text-right">{formatMinutes(sumOf(meeting.records, r => r.audioSeconds))}</td>
+                    <td className="px-4 py-2 text-right font-medium">{formatCost(totalCost(meeting.records, prices))}</td>
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+          )}
+        </div>
+      ) : (
+        <>
+          <div className="flex-1 overflow-y-auto p-4 space-y-5">
+            <div className="space-y-2">
+              <p className="text-xs font-semibold text-gray-600 uppercase tracking-wide">Monthly budget</p>
+              <div className="flex flex-wrap items-center gap-3 text-sm text-gray-700">
+                <label className="flex items-center gap-2">
+                  US$
+                  <input
+                    type="number"
+                    min={0}
+                    step="any"
+                    value={draftBudget.monthlyLimit || ''}
+                    onChange={(e) => setDraftBudget(prev => ({ ...prev, monthlyLimit: Math.max(0, Number(e.target.value) || 0) }))}
+                    placeholder="No cap"
+                    className={`${inputClass} w-32`}
+                  />
+                </label>
+                <select
+                  value={draftBudget.mode}
+                  onChange={(e) => setDraftBudget(prev => ({ ...prev, mode: e.target.value as BudgetMode }))}
+                  className={inputClass}
+                >
+                  {Object.values(BudgetMode).map(mode => <option key={mode} value={mode}>{BUDGET_MODE_LABELS[mode]}</option>)}
+                </select>
+              </div>
+              <p className="text-xs text-gray-500">
+                Checked before a recording is sent: this month's spend plus an estimate for the recording is compared with the cap.
+                Batch jobs cannot ask, so a warning only lets them through.
+              </p>
+            </div>
+
+            <div>
+              <p className="text-xs font-semibold text-gray-600 uppercase tracking-wide mb-2">Prices (US$)</p>
+              <table className="w-full text-sm">
+                <thead className="text-left text-xs font-semibold text-gray-600 uppercase tracking-wide">
+                  <tr>
+                    <th className="px-2 py-1">Model name starts with</th>
+                    {PRICE_FIELDS.map(field => <th key={field.key} className="px-2 py-1 w-32">{field.label}</th>)}
+                    <th className="w-8"></th>
+                  </tr>
+                </thead>
+                <tbody className="divide-y divide-gray-100">
+                  {draftPrices.map((price, index) => (
+                    <tr key={index}>
+                      <td className="px-1 py-1">
+                        <input className={`${cellInput} font-mono`} value={price.model} onChange={(e) => updatePrice(index, { model: e.target.value })} placeholder="gemini-2.5-flash" />
+                      </td>
+                      {PRICE_FIELDS.map(field => (
+                        <td key={field.key} className="px-1 py-1">
+                          <input
+                            type="number"
+                            min={0}
+                            step="any"
+                            className={cellInput}
+                            value={price[field.key]}
+                            onChange={(e) => updatePrice(index, { [field.key]: Math.max(0, Number(e.target.value) || 0) })}
+                          />
+                        </td>
+                      ))}
+                      <td className="px-1 py-1 text-center">
+                        <button
+                          onClick={() => setDraftPrices(prev => prev.filter((_, i) => i !== index))}
+                          className="p-1 text-gray-400 hover:text-red-600"
+                          title="Remove price"
+                        >
+                          ×
+                        </button>
+                      </td>
+                    </tr>
+                  ))}
+                </tbody>
+              </table>
+              <div className="mt-2 flex gap-4">
+                <button
+                  onClick={() => setDraftPrices(prev => [...prev, { model: '', inputPerMillion: 0, audioInputPerMillion: 0, outputPerMillion: 0, perAudioMinute: 0 }])}
+                  className="text-sm font-medium text-indigo-600 hover:text-indigo-800"
+                >
+                  + Add model
+                </button>
+                <button onClick={() => setDraftPrices(DEFAULT_PRICES)} className="text-sm font-medium text-gray-500 hover:text-gray-700">
+                  Reset to list prices
+                </button>
+              </div>
+            </div>
+          </div>
+
+          <div className="p-4 border-t border-gray-200 bg-gray-50 flex justify-end gap-2">
+            <button
+              onClick={() => {
+                setDraftPrices(prices);
+                setDraftBudget(budget);
+                setTab('meetings');
+              }}
+              className="px-4 py-2 text-sm font-medium text-gray-700 bg-white border border-gray-300 rounded-lg hover:bg-gray-50 transition-colors shadow-sm"
+            >
+              Cancel
+            </button>
+            <button
+              onClick={handleSaveSettings}
+              className="px-4 py-2 text-sm font-medium text-white bg-indigo-600 hover:bg-indigo-700 rounded-lg shadow-sm transition-colors"
+            >
+              Save
+            </button>
+          </div>
+        </>
+      )}
+    </div>
+  );
+};
+
+export default UsageView;
@@ -0,0 +1,197 @@
+/**
+ * A local stand-in for the parts of the Gemini API the app uses: the resumable Files API upload,
+ * file status polling and generateContent (plain and streamed). It answers with canned text and logs
+ * every request, so uploads, resumed chunks and the reuse of an uploaded file can be watched without
+ * a key or network.
+ *
+ *   npm run stand-in -- [--port 8787] [--fail-generate 1] [--drop-chunk 2]
+ *   VITE_GEMINI_BASE_URL=http://localhost:8787 npm run dev
+ *
+ * --fail-generate N answers the first N audio requests with 503, so the retry has to reuse the upload.
+ * --drop-chunk N rejects the Nth upload chunk once, so the client has to query the offset and resume.
+ */
+import { createServer } from 'node:http';
+import { parseArgs } from 'node:util';
+
+const { values } = parseArgs({
+  options: {
+    port: { type: 'string', default: '8787' },
+    'fail-generate': { type: 'string', default: '0' },
+    'drop-chunk': { type: 'string', default: '0' },
+  },
+});
+const port = Number(values.port);
+let failGenerate = Number(values['fail-generate']);
+let dropChunk = Number(values['drop-chunk']);
+
+// Upload sessions by id, and finished files by name
+const sessions = new Map();
+const files = new Map();
+let nextId = 1;
+let chunksSeen = 0;
+
+const log = (message) => console.log(`${new Date().toISOString().slice(11, 19)} ${message}`);
+
+const readBody = (request) =>
+  new Promise((resolve, reject) => {
+    const chunks = [];
+    request.on('data', chunk => chunks.push(chunk));
+    request.on('end', () => resolve(Buffer.concat(chunks)));
+    request.on('error', reject);
+  });
+
+const sendJson = (response, status, body, headers = {}) => {
+  response.writeHead(status, { 'Content-Type': 'application/json', ...headers });
+  response.end(JSON.stringify(body));
+};
+
+const fileResource = (file) => ({
+  name: file.name,
+  uri: `http://localhost:${port}/v1beta/${file.name}`,
+  mimeType: file.mimeType,
+  sizeBytes: String(file.size),
+  state: file.polls > 0 ? 'ACTIVE' : 'PROCESSING',
+  expirationTime: new Date(Date.now() + 48 * 60 * 60 * 1000).toISOString(),
+});
+
+const transcriptText = (label) => JSON.stringify({
+  segments: [
+    { speaker: 'Speaker 1', start: 0, end: 4, text: `Stand-in transcript of ${label}.` },
+    { speaker: 'Speaker 2', start: 4, end: 8, text: 'Nothing here was actually transcribed.' },
+  ],
+});
+
+// Text requests: the correction gets its own input back, anything else an empty JSON object
+const textAnswer = (prompt) => prompt.match(/\{"segments":\[.*\]\}/)?.[0] || '{}';
+
+const generateResponse = (text, audioTokens) => ({
+  candidates: [{ content: { role: 'model', parts: [{ text }] }, finishReason: 'STOP' }],
+  usageMetadata: {
+    promptTokenCount: audioTokens + 500,
+    candidatesTokenCount: Math.ceil(text.length / 4),
+    totalTokenCount: audioTokens + 500 + Math.ceil(text.length / 4),
+    promptTokensDetails: audioTokens ? [{ modality: 'AUDIO', tokenCount: audioTokens }] : [],
+  },
+});
+
+const handleUploadStart = async (request, response) => {
+  const id = String(nextId++);
+  const size = Number(request.headers['x-goog-upload-header-content-length']);
+  const mimeType = request.headers['x-goog-upload-header-content-type'] || 'application/octet-stream';
+  const { file } = JSON.parse((await readBody(request)).toString() || '{}');
+  sessions.set(id, { received: 0, size, mimeType, displayName: file?.displayName || 'audio' });
+  log(`upload ${id} started: ${file?.displayName} (${size} bytes, ${mimeType})`);
+  response.writeHead(200, {
+    'X-Goog-Upload-URL': `http://localhost:${port}/upload/session/${id}`,
+    'X-Goog-Upload-Status': 'active',
+  });
+  response.end();
+};
+
+const handleUploadSession = async (request, response, id) => {
+  const session = sessions.get(id);
+  if (!session) return sendJson(response, 404, { error: { code: 404, message: 'Unknown upload session' } });
+  const command = String(request.headers['x-goog-upload-command'] || '');
+  const body = await readBody(request);
+
+  if (command === 'query') {
+    log(`upload ${id} queried: ${session.received} bytes received`);
+    response.writeHead(200, { 'X-Goog-Upload-Size-Received': String(session.received), 'X-Goog-Upload-Status': 'active' });
+    return response.end();
+  }
+
+  chunksSeen++;
+  if (dropChunk && chunksSeen === dropChunk) {
+    dropChunk = 0;
+    log(`upload ${id} chunk at ${request.headers['x-goog-upload-offset']} dropped`);
+    return sendJson(response, 503, { error: { code: 503, message: 'Stand-in dropped this chunk' } });
+  }
+  const offset = Number(request.headers['x-goog-upload-offset']);
+  if (offset !== session.received) {
+    log(`upload ${id} chunk at ${offset} rejected, expected ${session.received}`);
+    return sendJson(response, 400, { error: { code: 400, message: `Offset ${offset} does not match ${session.received}` } });
+  }
+  session.received += body.length;
+  log(`upload ${id} chunk: ${session.received}/${session.size} bytes`);
+
+  if (!command.includes('finalize')) {
+    response.writeHead(200, { 'X-Goog-Upload-Status': 'active' });
+    return response.end();
+  }
+  const file = { name: `files/standin-${id}`, mimeType: session.mimeType, size: session.received, polls: 0 };
+  files.set(file.name, file);
+  sessions.delete(id);
+  log(`upload ${id} finalized as ${file.name}`);
+  sendJson(response, 200, { file: fileResource(file) }, { 'X-Goog-Upload-Status': 'final' });
+};
+
+const handleGenerate = async (request, response, model, stream) => {
+  const body = JSON.parse((await readBody(request)).toString() || '{}');
+  const parts = (body.contents || []).flatMap(content => content.parts || []);
+  const fileUri = parts.find(part => part.fileData)?.fileData.fileUri;
+  const inline = parts.find(part => part.inlineData)?.inlineData;
+  const prompt = parts.map(part => part.text || '').join('\n');
+
+  let text;
+  let audioTokens = 0;
+  if (fileUri || inline) {
+    if (failGenerate > 0) {
+      failGenerate--;
+      log(`${model}: audio request failed on purpose (${fileUri || 'inline'})`);
+      return sendJson(response, 503, { error: { code: 503, message: 'The model is overloaded (stand-in).', status: 'UNAVAILABLE' } });
+    }
+    const name = fileUri && fileUri.slice(fileUri.indexOf('files/'));
+    if (name && !files.has(name)) {
+      return sendJson(response, 400, { error: { code: 400, message: `File ${name} not found`, status: 'INVALID_ARGUMENT' } });
+    }
+    const size = name ? files.get(name).size : Math.floor((inline.data.length * 3) / 4);
+    log(`${model}: transcribing ${name ? `uploaded ${name}` : 'inline audio'} (${size} bytes)`);
+    text = transcriptText(name || 'inline audio');
+    // About 32 tokens a second of 16 kHz WAV
+    audioTokens = Math.round((size / 32000) * 32);
+  } else {
+    log(`${model}: text request${stream ? ' (streamed)' : ''}`);
+    text = textAnswer(prompt);
+  }
+
+  const result = generateResponse(text, audioTokens);
+  if (!stream) return sendJson(response, 200, result);
+  response.writeHead(200, { 'Content-Type': 'text/event-stream' });
+  response.end(`data: ${JSON.stringify(result)}\n\n`);
+};
+
+const server = createServer(async (request, response) => {
+  const url = new URL(request.url || '/', `http://localhost:${port}`);
+  // The app calls from the dev server's origin
+  response.setHeader('Access-Control-Allow-Origin', '*');
+  response.setHeader('Access-Control-Allow-Headers', '*');
+  response.setHeader('Access-Control-Expose-Headers', 'X-Goog-Upload-URL, X-Goog-Upload-Status, X-Goog-Upload-Size-Received');
+  if (request.method === 'OPTIONS') {
+    response.writeHead(204);
+    return response.end();
+  }
+
+  try {
+    if (request.method === 'POST' && url.pathname === '/upload/v1beta/files') return await handleUploadStart(request, response);
+    const session = url.pathname.match(/^\/upload\/session\/(\w+)$/);
+    if (request.method === 'POST' && session) return await handleUploadSession(request, response, session[1]);
+    const file = url.pathname.match(/^\/v1beta\/(files\/[\w-]+)$/);
+    if (request.method === 'GET' && file) {
+      const stored = files.get(file[1]);
+      if (!stored) return sendJson(response, 404, { error: { code: 404, message: `File ${file[1]} not found`, status: 'NOT_FOUND' } });
+      const resource = fileResource(stored);
+      stored.polls++;
+      log(`${file[1]} polled: ${resource.state}`);
+      return sendJson(response, 200, resource);
+    }
+    const generate = url.pathname.match(/^\/v1beta\/models\/([^:]+):(generateContent|streamGenerateContent)$/);
+    if (request.method === 'POST' && generate) return await handleGenerate(request, response, generate[1], generate[2] === 'streamGenerateContent');
+    log(`unhandled ${request.method} ${url.pathname}`);
+    sendJson(response, 404, { error: { code: 404, message: `The stand-in does not implement ${request.method} ${url.pathname}` } });
+  } catch (error) {
+    log(`error: ${error.message}`);
+    sendJson(response, 500, { error: { code: 500, message: error.message } });
+  }
+});
+
+server.listen(port, () => log(`Gemini stand-in listening on http://localhost:${port}`));
@@ -0,0 +1,69 @@
+import { ActionItem, ActionItemFollowUp, ActionItemStatus, MeetingRecord, TrackedActionItem } from '../types';
+import { getMeeting, listMeetings, saveMeeting } from './meetingLibrary';
+import { localIsoDate } from '../utils/minutes';
+
+export const todayIso = (): string => localIsoDate();
+
+export const isOverdue = (item: ActionItem, today = todayIso()): boolean =>
+  !!item.dueDate && item.dueDate < today && item.status !== ActionItemStatus.DONE;
+
+/**
+ * Every action item of the given meetings, oldest meeting first.
+ */
+export const collectActionItems = (records: MeetingRecord[]): TrackedActionItem[] =>
+  [...records]
+    .sort((a, b) => a.createdAt - b.createdAt)
+    .flatMap(record => (record.data.minutes?.actionItems || []).map(item => ({
+      item,
+      meetingId: record.id,
+      meetingTitle: record.title,
+      meetingDate: record.createdAt,
+    })));
+
+/**
+ * Items not done yet from the library, for a new meeting's minutes to follow up on.
+ * The meeting being minuted is left out; its own items are about to be replaced.
+ */
+export const listOpenActionItems = async (excludeMeetingId?: string | null): Promise<TrackedActionItem[]> => {
+  const records = await listMeetings();
+  return collectActionItems(records.filter(record => record.id !== excludeMeetingId))
+    .filter(tracked => tracked.item.status !== ActionItemStatus.DONE);
+};
+
+/**
+ * Changes one action item of a saved meeting. Does nothing if the meeting or item is gone.
+ */
+export const updateTrackedActionItem = async (meetingId: string, itemId: string, patch: Partial<ActionItem>): Promise<void> => {
+  const record = await getMeeting(meetingId);
+  const minutes = record?.data.minutes;
+  if (!record || !minutes?.actionItems.some(item => item.id === itemId)) return;
+  await saveMeeting(meetingId, {
+    ...record.data,
+    minutes: {
+      ...minutes,
+      actionItems: minutes.actionItems.map(item => (item.id === itemId ? { ...item, ...patch } : item)),
+    },
+  });
+};
+
+/**
+ * Carries the status a later meeting reported over to the earlier meeting's item. Resolves to the
+ * follow-up with the status it replaced, so it can be reverted, or null if the item is gone.
+ */
+export const applyFollowUp = async (followUp: ActionItemFollowUp): Promise<ActionItemFollowUp | null> => {
+  const record = await getMeeting(followUp.meetingId);
+  const item = record?.data.minutes?.actionItems.find(candidate => candidate.id === followUp.itemId);
+  if (!item) return null;
+  await updateTrackedActionItem(followUp.meetingId, followUp.itemId, { status: followUp.status });
+  return { ...followUp, previousStatus: item.status };
+};
+
+/**
+ * Puts back the status an applied follow-up replaced. Resolves to the follow-up as only proposed.
+ */
+export const revertFollowUp = async ({ previousStatus, ...followUp }: ActionItemFollowUp): Promise<ActionItemFollowUp> => {
+  if (previousStatus !== undefined) {
+    await updateTrackedActionItem(followUp.meetingId, followUp.itemId, { status: previousStatus });
+  }
+  return followUp;
+};
@@ -0,0 +1,211 @@
+import { BatchJob, BatchJobStatus, LanguageSettings } from '../types';
+import { BATCH_JOBS_STORE, withStore } from './db';
+import { CallOptions } from './geminiService';
+import { generateMinutesFor, processRecording } from './meetingPipeline';
+import { createMeetingId, getMeeting, saveMeeting } from './meetingLibrary';
+import { listOpenActionItems } from './actionItemTracker';
+import { getTemplate } from './minutesTemplates';
+import { loadGlossary } from './glossary';
+import { loadKnownSpeakers } from './speakerRoster';
+import { enforceBudget } from './usage';
+import { classifyError } from './providers';
+import { isAbortError } from '../utils/abort';
+
+export interface BatchOptions {
+  autoMinutes: boolean;
+  templateId: string;
+  language: LanguageSettings;
+}
+
+type Listener = (jobs: BatchJob[]) => void;
+type MinutesListener = (meetingId: string) => void;
+
+const CONCURRENCY_KEY = 'meetingmind.batchConcurrency';
+export const MAX_BATCH_CONCURRENCY = 4;
+const DEFAULT_CONCURRENCY = 2;
+
+// The queue runs independently of what the app shows, so it lives at module level
+let jobs: BatchJob[] = [];
+let loading: Promise<void> | null = null;
+let concurrency = DEFAULT_CONCURRENCY;
+const controllers = new Map<string, AbortController>();
+const listeners = new Set<Listener>();
+const minutesListeners = new Set<MinutesListener>();
+
+export const loadBatchConcurrency = (): number => {
+  const stored = Number(localStorage.getItem(CONCURRENCY_KEY));
+  return stored >= 1 && stored <= MAX_BATCH_CONCURRENCY ? stored : DEFAULT_CONCURRENCY;
+};
+
+const persist = (job: BatchJob) =>
+  withStore(BATCH_JOBS_STORE, 'readwrite', store => store.put(job)).catch(e => console.error('Could not save batch job:', e));
+
+const notify = () => listeners.forEach(listener => listener(jobs));
+
+// Progress ticks often and is only kept in memory; status changes are written through
+const update = (id: string, patch: Partial<BatchJob>, save = true) => {
+  jobs = jobs.map(job => (job.id === id ? { ...job, ...patch } : job));
+  notify();
+  const job = jobs.find(j => j.id === id);
+  if (save && job) persist(job);
+};
+
+const runJob = async (job: BatchJob) => {
+  const controller = new AbortController();
+  controllers.set(job.id, controller);
+  const options: CallOptions = {
+    signal: controller.signal,
+    meetingId: job.meetingId,
+    onRetry: (error, attempt, delayMs) =>
+      update(job.id, { message: `Retrying in ${Math.ceil(delayMs / 1000)}s (attempt ${attempt + 1}) after: ${error.message.slice(0, 80)}` }, false),
+  };
+  update(job.id, { status: BatchJobStatus.RUNNING, error: undefined, errorKind: undefined, warning: undefined, progress: 0, message: 'Starting...' });
+
+  try {
+    let meetingSaved = job.meetingSaved;
+    if (!meetingSaved) {
+      const lastModified = job.audio instanceof File ? job.audio.lastModified : undefined;
+      const file = new File([job.audio!], job.fileName, { type: job.audio!.type, lastModified });
+      // Settings are read when the job runs, so edits made while it waited in the queue apply
+      const hints = { knownSpeakers: loadKnownSpeakers(), glossary: loadGlossary(), language: job.language };
+      const data = await processRecording(file, hints, {
+        ...options,
+        // A blocking cap stops the recording before it is sent; nobody is there to answer a warning,
+        // so the job goes ahead and carries it
+        beforeTranscribe: (seconds) => enforceBudget(seconds, async (message) => {
+          update(job.id, { warning: message });
+          return true;
+        }),
+        // Leave room on the bar for the minutes
+        onProgress: (fraction, message) => update(job.id, { progress: fraction * (job.autoMinutes ? 0.85 : 1), message }, false),
+      });
+      await saveMeeting(job.meetingId, data, file);
+      meetingSaved = true;
+      update(job.id, { meetingSaved, audio: undefined });
+    }
+
+    if (job.autoMinutes) {
+      update(job.id, { progress: 0.85, message: 'Generating minutes...' }, false);
+      const record = await getMeeting(job.meetingId);
+      if (!record) throw new Error('The meeting was deleted from the library.');
+      const openItems = await listOpenActionItems(job.meetingId);
+      const minutes = await generateMinutesFor(record.data, getTemplate(job.templateId), openItems, options);
+      // Read again: the meeting may have been opened and edited while the minutes were written
+      const latest = await getMeeting(job.meetingId);
+      if (!latest) throw new Error('The meeting was deleted from the library.');
+      // Follow-ups stay proposals until someone reviewing the minutes applies them
+      await saveMeeting(job.meetingId, { ...latest.data, minutes });
+      minutesListeners.forEach(listener => listener(job.meetingId));
+    }
+    update(job.id, { status: BatchJobStatus.DONE, progress: 1, message: 'Done' });
+  } catch (error) {
+    if (isAbortError(error)) {
+      update(job.id, { status: BatchJobStatus.CANCELLED, progress: 0, message: 'Cancelled' });
+    } else {
+      console.error(`Batch job ${job.fileName} failed:`, error);
+      const classified = classifyError(error);
+      update(job.id, { status: BatchJobStatus.ERROR, message: 'Failed', error: classified.message, errorKind: classified.kind });
+    }
+  } finally {
+    controllers.delete(job.id);
+    pump();
+  }
+};
+
+// Starts queued jobs, oldest first, until the concurrency limit is reached
+const pump = () => {
+  const running = jobs.filter(job => job.status === BatchJobStatus.RUNNING).length;
+  jobs
+    .filter(job => job.status === BatchJobStatus.QUEUED)
+    .slice(0, Math.max(0, concurrency - running))
+    .forEach(job => runJob(job));
+};
+
+/**
+ * Loads the persisted queue and starts working through it. Jobs that were running when the page
+ * went away start over. Safe to call more than once.
+ */
+export const startBatchQueue = (): Promise<void> => {
+  if (!loading) {
+    loading = withStore<BatchJob[]>(BATCH_JOBS_STORE, 'readonly', store => store.getAll()).then(stored => {
+      concurrency = loadBatchConcurrency();
+      jobs = stored
+        .map(job => (job.status === BatchJobStatus.RUNNING ? { ...job, status: BatchJobStatus.QUEUED, progress: 0, message: 'Queued' } : job))
+        .sort((a, b) => a.createdAt - b.createdAt);
+      notify();
+      pump();
+    }).catch(e => {
+      loading = null;
+      throw e;
+    });
+  }
+  return loading;
+};
+
+/**
+ * Calls `listener` with the current jobs right away and after every change. Returns the unsubscribe function.
+ */
+export const subscribeToBatchQueue = (listener: Listener): (() => void) => {
+  listeners.add(listener);
+  listener(jobs);
+  return () => listeners.delete(listener);
+};
+
+/**
+ * Called when a job has written minutes to a meeting, so a view that has the meeting open can take them up.
+ */
+export const subscribeToBatchMinutes = (listener: MinutesListener): (() => void) => {
+  minutesListeners.add(listener);
+  return () => minutesListeners.delete(listener);
+};
+
+export const enqueueRecordings = async (files: File[], options: BatchOptions): Promise<void> => {
+  await startBatchQueue();
+  const now = Date.now();
+  const added: BatchJob[] = files.map((file, i) => ({
+    id: `${now.toString(36)}-${i}-${Math.random().toString(36).slice(2, 6)}`,
+    fileName: file.name,
+    createdAt: now + i,
+    audio: file,
+    status: BatchJobStatus.QUEUED,
+    progress: 0,
+    message: 'Queued',
+    ...options,
+    meetingId: createMeetingId(),
+    meetingSaved: false,
+  }));
+  jobs = [...jobs, ...added];
+  notify();
+  await Promise.all(added.map(persist));
+  pump();
+};
+
+export const retryBatchJob = (id: string) => {
+  update(id, { status: BatchJobStatus.QUEUED, progress: 0, message: 'Queued', error: undefined, errorKind: undefined });
+  pump();
+};
+
+export const cancelBatchJob = (id: string) => {
+  const job = jobs.find(j => j.id === id);
+  if (job?.status === BatchJobStatus.RUNNING) {
+    controllers.get(id)?.abort();
+  } else if (job?.status === BatchJobStatus.QUEUED) {
+    update(id, { status: BatchJobStatus.CANCELLED, message: 'Cancelled' });
+  }
+};
+
+/**
+ * Takes jobs off the list. The meetings they produced stay in the library.
+ */
+export const removeBatchJobs = async (ids: string[]) => {
+  ids.forEach(id => controllers.get(id)?.abort());
+  jobs = jobs.filter(job => !ids.includes(job.id));
+  notify();
+  await Promise.all(ids.map(id => withStore(BATCH_JOBS_STORE, 'readwrite', store => store.delete(id))));
+};
+
+export const setBatchConcurrency = (value: number) => {
+  concurrency = Math.min(MAX_BATCH_CONCURRENCY, Math.max(1, Math.round(value)));
+  localStorage.setItem(CONCURRENCY_KEY, String(concurrency));
+  pump();
+};
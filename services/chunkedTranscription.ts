@@ -0,0 +1,93 @@
+import { ChunkStatus, TranscriptSegment, TranscriptionHints } from '../types';
+import { DecodedAudio, decodeToMono, encodeWav, splitIntoChunks } from '../utils/audioChunker';
+import { mapWithConcurrency } from '../utils/concurrency';
+import { throwIfAborted } from '../utils/abort';
+import { stitchTranscripts } from '../utils/transcriptStitcher';
+import { TranscribeOptions, transcribeAudio } from './geminiService';
+
+const CHUNK_SECONDS = 5 * 60;
+const OVERLAP_SECONDS = 10;
+const MAX_CONCURRENT_CHUNKS = 3;
+// Formats every provider's audio model takes as they are. Browser recordings (WebM, Ogg Opus, MP4)
+// and the rest are sent as WAV when they could be decoded.
+const ACCEPTED_AUDIO_TYPES = ['audio/wav', 'audio/x-wav', 'audio/wave', 'audio/mpeg', 'audio/mp3', 'audio/flac', 'audio/x-flac'];
+
+const isAcceptedAudioType = (type: string) => ACCEPTED_AUDIO_TYPES.includes(type.split(';')[0].trim().toLowerCase());
+
+export interface LongTranscribeOptions extends TranscribeOptions {
+  // Runs before any audio is sent, with the recording's length (null if it could not be decoded); throw to stop
+  beforeTranscribe?: (audioSeconds: number | null) => Promise<void>;
+  // Decodes to 16 kHz mono; the browser's decoder by default, Node has to bring its own. Null where
+  // nothing can decode, which sends every recording whole without trying
+  decodeAudio?: ((file: Blob) => Promise<DecodedAudio>) | null;
+}
+
+/**
+ * Transcribes a recording of any length. Audio longer than one chunk is decoded locally,
+ * split into overlapping chunks, transcribed concurrently and stitched back together.
+ * `onProgress` receives the status of every chunk whenever one changes.
+ *
+ * The WAV chunks are small enough to go inline, so a provider's upload path only sees recordings
+ * sent whole: those that could not be decoded, and short ones over the provider's inline limit.
+ * Decoding needs the whole recording in memory, plus about 230 MB of samples per hour.
+ */
+export const transcribeLongAudio = async (
+  file: File,
+  onProgress: (chunks: ChunkStatus[]) => void,
+  hints: TranscriptionHints,
+  { beforeTranscribe, decodeAudio = decodeToMono, ...options }: LongTranscribeOptions = {}
+): Promise<TranscriptSegment[]> => {
+  let decoded: DecodedAudio | null = null;
+  try {
+    decoded = decodeAudio ? await decodeAudio(file) : null;
+  } catch (error) {
+    // Formats that cannot be decoded here are still sent whole; the model may understand them
+    console.warn("Could not decode audio locally, sending the file as-is:", error);
+  }
+  // Decoding cannot be interrupted, so honour a cancel that came in meanwhile
+  throwIfAborted(options.signal);
+
+  const seconds = decoded ? decoded.samples.length / decoded.sampleRate : null;
+  await beforeTranscribe?.(seconds);
+
+  if (!decoded || seconds === null || seconds <= CHUNK_SECONDS) {
+    onProgress([ChunkStatus.RUNNING]);
+    const audio = decoded && !isAcceptedAudioType(file.type) ? encodeWav(decoded.samples, decoded.sampleRate) : file;
+    const transcript = await transcribeAudio(audio, audio.type, hints, { ...options, audioSeconds: seconds ?? undefined });
+    onProgress([ChunkStatus.DONE]);
+    return transcript;
+  }
+
+  const chunks = splitIntoChunks(decoded.samples, decoded.sampleRate, CHUNK_SECONDS, OVERLAP_SECONDS);
+  decoded = null;
+
+  const statuses = chunks.map(() => ChunkStatus.PENDING);
+  const setStatus = (index: number, status: ChunkStatus) => {
+    statuses[index] = status;
+    onProgress([...statuses]);
+  };
+  onProgress([...statuses]);
+
+  const transcripts = await mapWithConcurrency(chunks, MAX_CONCURRENT_CHUNKS, async (chunk) => {
+    throwIfAborted(options.signal);
+    setStatus(chunk.index, ChunkStatus.RUNNING);
+    try {
+      const segments = await transcribeAudio(chunk.blob, 'audio/wav', hints, { ...options, audioSeconds: chunk.endSec - chunk.startSec });
+      setStatus(chunk.index, ChunkStatus.DONE);
+      // Chunk timings are relative to the chunk; shift them onto the recording's timeline
+      return {
+        startSec: chunk.startSec,
+        segments: segments.map(segment => ({
+          ...segment,
+          start: segment.start !== undefined ? segment.start + chunk.startSec : undefined,
+          end: segment.end !== undefined ? segment.end + chunk.startSec : undefined,
+        })),
+      };
+    } catch (error) {
+      setStatus(chunk.index, ChunkStatus.ERROR);
+      throw error;
+    }
+  });
+
+  return stitchTranscripts(transcripts, OVERLAP_SECONDS);
+};
@@ -0,0 +1,68 @@
+const DB_NAME = 'meetingmind';
+const DB_VERSION = 5;
+
+export const MEETINGS_STORE = 'meetings';
+export const AUDIO_STORE = 'audio';
+// Audio of an unfinished browser recording, kept until it has been processed (version 2)
+export const RECORDING_CHUNKS_STORE = 'recordingChunks';
+// Batch processing queue, so queued recordings survive a reload (version 3)
+export const BATCH_JOBS_STORE = 'batchJobs';
+// Revision history of each meeting's transcript and minutes, by meeting id (version 4)
+export const HISTORY_STORE = 'history';
+// One record per model call, for cost accounting (version 5)
+export const USAGE_STORE = 'usage';
+
+let dbPromise: Promise<IDBDatabase> | null = null;
+
+const openDb = (): Promise<IDBDatabase> => {
+  if (!dbPromise) {
+    dbPromise = new Promise((resolve, reject) => {
+      const request = indexedDB.open(DB_NAME, DB_VERSION);
+      request.onupgradeneeded = () => {
+        const db = request.result;
+        if (!db.objectStoreNames.contains(MEETINGS_STORE)) {
+          db.createObjectStore(MEETINGS_STORE, { keyPath: 'id' }).createIndex('updatedAt', 'updatedAt');
+        }
+        if (!db.objectStoreNames.contains(AUDIO_STORE)) {
+          db.createObjectStore(AUDIO_STORE);
+        }
+        if (!db.objectStoreNames.contains(RECORDING_CHUNKS_STORE)) {
+          db.createObjectStore(RECORDING_CHUNKS_STORE, { autoIncrement: true });
+        }
+        if (!db.objectStoreNames.contains(BATCH_JOBS_STORE)) {
+          db.createObjectStore(BATCH_JOBS_STORE, { keyPath: 'id' });
+        }
+        if (!db.objectStoreNames.contains(HISTORY_STORE)) {
+          db.createObjectStore(HISTORY_STORE, { keyPath: 'meetingId' });
+        }
+        if (!db.objectStoreNames.contains(USAGE_STORE)) {
+          db.createObjectStore(USAGE_STORE, { keyPath: 'id' });
+        }
+      };
+      request.onsuccess = () => resolve(request.result);
+      request.onerror = () => {
+        dbPromise = null;
+        reject(request.error);
+      };
+    });
+  }
+  return dbPromise;
+};
+
+const promisify = <T>(request: IDBRequest<T>): Promise<T> =>
+  new Promise((resolve, reject) => {
+    request.onsuccess = () => resolve(request.result);
+    request.onerror = () => reject(request.error);
+  });
+
+/**
+ * Runs a single request against one object store of the app database.
+ */
+export const withStore = async <T>(
+  storeName: string,
+  mode: IDBTransactionMode,
+  run: (store: IDBObjectStore) => IDBRequest<T>
+): Promise<T> => {
+  const db = await openDb();
+  return promisify(run(db.transaction(storeName, mode).objectStore(storeName)));
+};
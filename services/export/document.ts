@@ -0,0 +1,81 @@
+import { ExportHeader, MeetingData, SectionFormat } from '../../types';
+import { PRIORITY_LABELS, STATUS_LABELS, localIsoDate } from '../../utils/minutes';
+
+export type DocBlock =
+  | { type: 'heading'; text: string }
+  | { type: 'paragraph'; text: string }
+  | { type: 'bullets'; items: string[] }
+  | { type: 'table'; header: string[]; rows: string[][] };
+
+export interface MinutesDocument {
+  header: ExportHeader;
+  title: string;
+  // Label/value pairs shown under the title (date, source recording, ...)
+  meta: [string, string][];
+  blocks: DocBlock[];
+}
+
+// Summaries may carry light Markdown from the model; Word and print output want plain text
+const plainText = (markdown: string) =>
+  markdown.replace(/\*\*(.+?)\*\*/g, '$1').replace(/__(.+?)__/g, '$1').replace(/`([^`]+)`/g, '$1').trim();
+
+const paragraphs = (text: string): DocBlock[] =>
+  text
+    .split(/\n\s*\n/)
+    .map(plainText)
+    .filter(Boolean)
+    .map((p): DocBlock => ({ type: 'paragraph', text: p }));
+
+const listOrNone = (items: string[]): DocBlock => (items.length ? { type: 'bullets', items: items.map(plainText) } : { type: 'paragraph', text: '(none)' });
+
+/**
+ * Lays out the minutes once, in the same order as the Markdown export, for the DOCX and HTML renderers.
+ */
+export const buildMinutesDocument = (data: MeetingData, header: ExportHeader): MinutesDocument => {
+  const minutes = data.minutes!;
+  const numbered: [string, DocBlock[]][] = [
+    ['Summary / 摘要', minutes.summary ? paragraphs(minutes.summary) : [{ type: 'paragraph', text: '(none)' }]],
+    ['Attendees / 出席人員', [listOrNone(minutes.attendees)]],
+    ...minutes.sections.map((section): [string, DocBlock[]] => [
+      section.title,
+      section.format === SectionFormat.PARAGRAPH
+        ? (section.items.length ? section.items.flatMap(paragraphs) : [{ type: 'paragraph', text: '(none)' }])
+        : [listOrNone(section.items)],
+    ]),
+    ['Key Discussion Points / 重點討論事項', [listOrNone(minutes.discussionPoints)]],
+    ['Decisions Made / 決議事項', [listOrNone(minutes.decisions)]],
+    ['Action Items / 待辦事項', [
+      minutes.actionItems.length
+        ? {
+            type: 'table',
+            header: ['#', 'Task / 事項', 'Owner / 負責人', 'Line / 產線', 'Due / 期限', 'Priority', 'Status'],
+            rows: minutes.actionItems.map((item, i) => [
+              String(i + 1),
+              item.task,
+              item.owner || '-',
+              item.productionLine || '-',
+              item.dueDate || '-',
+              PRIORITY_LABELS[item.priority],
+              STATUS_LABELS[item.status],
+            ]),
+          }
+        : { type: 'paragraph', text: '(none)' },
+    ]],
+    ...(minutes.followUps.length
+      ? [['Follow-ups / 追蹤事項', [listOrNone(
+          minutes.followUps.map(f => `${f.task} — ${STATUS_LABELS[f.status]}${f.note ? `: ${f.note}` : ''}`)
+        )]] as [string, DocBlock[]]]
+      : []),
+  ];
+
+  return {
+    header,
+    title: minutes.title || 'Meeting Minutes / 會議紀錄',
+    meta: [
+      ['Date / 日期', localIsoDate(data.recordedAt ?? Date.now())],
+      ['Recording / 錄音檔', data.fileName || '-'],
+      ...(header.documentNumber ? [['Document No. / 文件編號', header.documentNumber] as [string, string]] : []),
+    ],
+    blocks: numbered.flatMap(([heading, body], i): DocBlock[] => [{ type: 'heading', text: `${i + 1}. ${heading}` }, ...body]),
+  };
+};
@@ -0,0 +1,162 @@
+import { createZip } from '../../utils/zip';
+import { DocBlock, MinutesDocument } from './document';
+
+export const DOCX_MIME_TYPE = 'application/vnd.openxmlformats-officedocument.wordprocessingml.document';
+
+const W_NS = 'xmlns:w="http://schemas.openxmlformats.org/wordprocessingml/2006/main" xmlns:r="http://schemas.openxmlformats.org/officeDocument/2006/relationships"';
+const XML_DECL = '<?xml version="1.0" encoding="UTF-8" standalone="yes"?>';
+const REL_TYPE = 'http://schemas.openxmlformats.org/officeDocument/2006/relationships';
+
+// A4 with 2 cm side margins, in twentieths of a point
+const PAGE_WIDTH = 11906;
+const PAGE_HEIGHT = 16838;
+const SIDE_MARGIN = 1134;
+const TEXT_WIDTH = PAGE_WIDTH - 2 * SIDE_MARGIN;
+
+const escapeXml = (text: string) =>
+  text
+    // Control characters are not allowed in XML 1.0 and make Word refuse the file
+    .replace(/[\u0000-\u0008\u000B\u000C\u000E-\u001F]/g, '')
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/"/g, '&quot;');
+
+const run = (text: string, props = '') =>
+  text
+    .split('\n')
+    .map((line, i) => `<w:r>${props ? `<w:rPr>${props}</w:rPr>` : ''}${i > 0 ? '<w:br/>' : ''}<w:t xml:space="preserve">${escapeXml(line)}</w:t></w:r>`)
+    .join('');
+
+const paragraph = (text: string, style?: string, runProps = '') =>
+  `<w:p>${style ? `<w:pPr><w:pStyle w:val="${style}"/></w:pPr>` : ''}${run(text, runProps)}</w:p>`;
+
+const BORDER = 'w:val="single" w:sz="4" w:space="0" w:color="9CA3AF"';
+
+// Column widths follow the longest cell, so "#" stays narrow and the task column gets the room
+const columnWidths = (rows: string[][]): number[] => {
+  const weights = rows[0].map((_, col) => Math.min(40, Math.max(3, ...rows.map(row => (row[col] || '').length))));
+  const total = weights.reduce((sum, w) => sum + w, 0);
+  return weights.map(w => Math.floor((w / total) * TEXT_WIDTH));
+};
+
+const table = (header: string[] | null, rows: string[][]) => {
+  const all = header ? [header, ...rows] : rows;
+  const widths = columnWidths(all);
+  const cell = (text: string, width: number, shaded: boolean) =>
+    `<w:tc><w:tcPr><w:tcW w:w="${width}" w:type="dxa"/>${shaded ? '<w:shd w:val="clear" w:color="auto" w:fill="E5E7EB"/>' : ''}</w:tcPr>` +
+    paragraph(text, 'TableText', shaded ? '<w:b/>' : '') +
+    '</w:tc>';
+  const tableRow = (cells: string[], isHeader: boolean) =>
+    `<w:tr>${isHeader ? '<w:trPr><w:tblHeader/></w:trPr>' : ''}${cells.map((c, i) => cell(c, widths[i], isHeader)).join('')}</w:tr>`;
+
+  return (
+    '<w:tbl><w:tblPr><w:tblW w:w="0" w:type="auto"/><w:tblBorders>' +
+    ['top', 'left', 'bottom', 'right', 'insideH', 'insideV'].map(side => `<w:${side} ${BORDER}/>`).join('') +
+    '</w:tblBorders><w:tblCellMar><w:left w:w="85" w:type="dxa"/><w:right w:w="85" w:type="dxa"/></w:tblCellMar></w:tblPr>' +
+    `<w:tblGrid>${widths.map(w => `<w:gridCol w:w="${w}"/>`).join('')}</w:tblGrid>` +
+    (header ? tableRow(header, true) : '') +
+    rows.map(row => tableRow(row, false)).join('') +
+    // Word merges a table with whatever follows unless a paragraph separates them
+    '</w:tbl><w:p/>'
+  );
+};
+
+const block = (b: DocBlock): string => {
+  switch (b.type) {
+    case 'heading':
+      return paragraph(b.text, 'Heading1');
+    case 'paragraph':
+      return paragraph(b.text);
+    case 'bullets':
+      return b.items.map(item => paragraph(`•\t${item}`, 'Bullet')).join('');
+    case 'table':
+      return table(b.header, b.rows);
+  }
+};
+
+const documentXml = (doc: MinutesDocument) =>
+  `${XML_DECL}<w:document ${W_NS}><w:body>` +
+  paragraph(doc.title, 'Title') +
+  table(null, doc.meta) +
+  doc.blocks.map(block).join('') +
+  '<w:sectPr><w:headerReference w:type="default" r:id="rId2"/><w:footerReference w:type="default" r:id="rId3"/>' +
+  `<w:pgSz w:w="${PAGE_WIDTH}" w:h="${PAGE_HEIGHT}"/>` +
+  `<w:pgMar w:top="1417" w:right="${SIDE_MARGIN}" w:bottom="1417" w:left="${SIDE_MARGIN}" w:header="567" w:footer="567" w:gutter="0"/>` +
+  '</w:sectPr></w:body></w:document>';
+
+const headerXml = (doc: MinutesDocument) => {
+  const { companyName, department, documentNumber } = doc.header;
+  const left = [companyName, department].filter(Boolean).join(' · ');
+  return (
+    `${XML_DECL}<w:hdr ${W_NS}><w:p><w:pPr><w:pStyle w:val="Header"/></w:pPr>` +
+    run(left, '<w:b/>') +
+    (documentNumber ? `<w:r><w:tab/></w:r>${run(documentNumber)}` : '') +
+    '</w:p></w:hdr>'
+  );
+};
+
+const field = (instruction: string) =>
+  `<w:fldSimple w:instr=" ${instruction} "><w:r><w:t>1</w:t></w:r></w:fldSimple>`;
+
+const footerXml = () =>
+  `${XML_DECL}<w:ftr ${W_NS}><w:p><w:pPr><w:pStyle w:val="Footer"/><w:jc w:val="center"/></w:pPr>` +
+  `${run('Page ')}${field('PAGE')}${run(' / ')}${field('NUMPAGES')}</w:p></w:ftr>`;
+
+const STYLES_XML =
+  `${XML_DECL}<w:styles ${W_NS}>` +
+  '<w:docDefaults><w:rPrDefault><w:rPr><w:rFonts w:ascii="Calibri" w:hAnsi="Calibri" w:eastAsia="Microsoft JhengHei" w:cs="Calibri"/>' +
+  '<w:sz w:val="21"/><w:szCs w:val="21"/><w:lang w:val="en-US" w:eastAsia="zh-TW"/></w:rPr></w:rPrDefault>' +
+  '<w:pPrDefault><w:pPr><w:spacing w:after="80" w:line="276" w:lineRule="auto"/></w:pPr></w:pPrDefault></w:docDefaults>' +
+  '<w:style w:type="paragraph" w:default="1" w:styleId="Normal"><w:name w:val="Normal"/></w:style>' +
+  '<w:style w:type="paragraph" w:styleId="Title"><w:name w:val="Title"/><w:basedOn w:val="Normal"/><w:next w:val="Normal"/>' +
+  '<w:pPr><w:spacing w:after="200"/></w:pPr><w:rPr><w:b/><w:sz w:val="36"/><w:szCs w:val="36"/></w:rPr></w:style>' +
+  '<w:style w:type="paragraph" w:styleId="Heading1"><w:name w:val="heading 1"/><w:basedOn w:val="Normal"/><w:next w:val="Normal"/>' +
+  '<w:pPr><w:keepNext/><w:spacing w:before="240" w:after="80"/><w:outlineLvl w:val="0"/></w:pPr>' +
+  '<w:rPr><w:b/><w:color w:val="3730A3"/><w:sz w:val="26"/><w:szCs w:val="26"/></w:rPr></w:style>' +
+  '<w:style w:type="paragraph" w:styleId="Bullet"><w:name w:val="List Bullet"/><w:basedOn w:val="Normal"/>' +
+  '<w:pPr><w:tabs><w:tab w:val="left" w:pos="360"/></w:tabs><w:spacing w:after="40"/><w:ind w:left="360" w:hanging="360"/></w:pPr></w:style>' +
+  '<w:style w:type="paragraph" w:styleId="TableText"><w:name w:val="Table Text"/><w:basedOn w:val="Normal"/>' +
+  '<w:pPr><w:spacing w:before="40" w:after="40"/></w:pPr><w:rPr><w:sz w:val="19"/><w:szCs w:val="19"/></w:rPr></w:style>' +
+  '<w:style w:type="paragraph" w:styleId="Header"><w:name w:val="header"/><w:basedOn w:val="Normal"/>' +
+  `<w:pPr><w:pBdr><w:bottom ${BORDER}/></w:pBdr><w:tabs><w:tab w:val="right" w:pos="${TEXT_WIDTH}"/></w:tabs></w:pPr>` +
+  '<w:rPr><w:sz w:val="18"/><w:szCs w:val="18"/></w:rPr></w:style>' +
+  '<w:style w:type="paragraph" w:styleId="Footer"><w:name w:val="footer"/><w:basedOn w:val="Normal"/>' +
+  '<w:rPr><w:color w:val="6B7280"/><w:sz w:val="16"/><w:szCs w:val="16"/></w:rPr></w:style>' +
+  '</w:styles>';
+
+const CONTENT_TYPES_XML =
+  `${XML_DECL}<Types xmlns="http://schemas.openxmlformats.org/package/2006/content-types">` +
+  '<Default Extension="rels" ContentType="application/vnd.openxmlformats-package.relationships+xml"/>' +
+  '<Default Extension="xml" ContentType="application/xml"/>' +
+  '<Override PartName="/word/document.xml" ContentType="application/vnd.openxmlformats-officedocument.wordprocessingml.document.main+xml"/>' +
+  '<Override PartName="/word/styles.xml" ContentType="application/vnd.openxmlformats-officedocument.wordprocessingml.styles+xml"/>' +
+  '<Override PartName="/word/header1.xml" ContentType="application/vnd.openxmlformats-officedocument.wordprocessingml.header+xml"/>' +
+  '<Override PartName="/word/footer1.xml" ContentType="application/vnd.openxmlformats-officedocument.wordprocessingml.footer+xml"/>' +
+  '</Types>';
+
+const relationships = (rels: [string, string, string][]) =>
+  `${XML_DECL}<Relationships xmlns="http://schemas.openxmlformats.org/package/2006/relationships">` +
+  rels.map(([id, type, target]) => `<Relationship Id="${id}" Type="${REL_TYPE}/${type}" Target="${target}"/>`).join('') +
+  '</Relationships>';
+
+/**
+ * Renders minutes as a Word document. Written by hand so the app needs no extra dependency.
+ */
+export const minutesToDocx = (doc: MinutesDocument): Blob =>
+  createZip([
+    { name: '[Content_Types].xml', data: CONTENT_TYPES_XML },
+    { name: '_rels/.rels', data: relationships([['rId1', 'officeDocument', 'word/document.xml']]) },
+    {
+      name: 'word/_rels/document.xml.rels',
+      data: relationships([
+        ['rId1', 'styles', 'styles.xml'],
+        ['rId2', 'header', 'header1.xml'],
+        ['rId3', 'footer', 'footer1.xml'],
+      ]),
+    },
+    { name: 'word/document.xml', data: documentXml(doc) },
+    { name: 'word/styles.xml', data: STYLES_XML },
+    { name: 'word/header1.xml', data: headerXml(doc) },
+    { name: 'word/footer1.xml', data: footerXml() },
+  ], DOCX_MIME_TYPE);
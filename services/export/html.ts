@@ -0,0 +1,84 @@
+import { DocBlock, MinutesDocument } from './document';
+
+const escapeHtml = (text: string) =>
+  text.replace(/&/g, '&amp;').replace(/</g, '&lt;').replace(/>/g, '&gt;').replace(/"/g, '&quot;');
+
+const withBreaks = (text: string) => escapeHtml(text).replace(/\n/g, '<br>');
+
+const block = (b: DocBlock): string => {
+  switch (b.type) {
+    case 'heading':
+      return `<h2>${escapeHtml(b.text)}</h2>`;
+    case 'paragraph':
+      return `<p>${withBreaks(b.text)}</p>`;
+    case 'bullets':
+      return `<ul>${b.items.map(item => `<li>${withBreaks(item)}</li>`).join('')}</ul>`;
+    case 'table':
+      return (
+        `<table><thead><tr>${b.header.map(h => `<th>${escapeHtml(h)}</th>`).join('')}</tr></thead>` +
+        `<tbody>${b.rows.map(row => `<tr>${row.map(c => `<td>${withBreaks(c)}</td>`).join('')}</tr>`).join('')}</tbody></table>`
+      );
+  }
+};
+
+// Print rules keep headings with their content and table rows whole
+const STYLES = `
+  @page { size: A4; margin: 18mm 18mm 20mm; }
+  body { font-family: "Segoe UI", "Microsoft JhengHei", "PingFang TC", sans-serif; font-size: 10.5pt; color: #111827; line-height: 1.5; margin: 0 auto; max-width: 190mm; padding: 12mm 0; -webkit-print-color-adjust: exact; print-color-adjust: exact; }
+  header.company { display: flex; justify-content: space-between; border-bottom: 1px solid #9ca3af; padding-bottom: 4px; margin-bottom: 16px; font-size: 9pt; }
+  header.company strong { font-size: 10pt; }
+  h1 { font-size: 18pt; margin: 0 0 8px; }
+  h2 { font-size: 13pt; color: #3730a3; margin: 18px 0 6px; break-after: avoid; }
+  table { border-collapse: collapse; width: 100%; margin: 4px 0 8px; font-size: 9.5pt; }
+  th, td { border: 1px solid #9ca3af; padding: 3px 6px; text-align: left; vertical-align: top; }
+  th { background: #e5e7eb; }
+  tr { break-inside: avoid; }
+  table.meta td:first-child { width: 30%; color: #4b5563; }
+  table.meta td { border-color: #d1d5db; }
+  ul { margin: 4px 0; padding-left: 20px; }
+  @media print {
+    body { padding: 0; max-width: none; }
+  }
+`;
+
+/**
+ * Renders minutes as a standalone HTML page that prints cleanly (the PDF export prints this page).
+ */
+export const minutesToHtml = (doc: MinutesDocument): string => {
+  const { companyName, department, documentNumber } = doc.header;
+  const company = [companyName, department].filter(Boolean).map(escapeHtml);
+  return `<!DOCTYPE html>
+<html lang="zh-Hant">
+<head>
+<meta charset="utf-8">
+<title>${escapeHtml(doc.title)}</title>
+<style>${STYLES}</style>
+</head>
+<body>
+${company.length || documentNumber ? `<header class="company"><span><strong>${company[0] || ''}</strong>${company[1] ? ` · ${company[1]}` : ''}</span><span>${escapeHtml(documentNumber)}</span></header>` : ''}
+<h1>${escapeHtml(doc.title)}</h1>
+<table class="meta"><tbody>${doc.meta.map(([label, value]) => `<tr><td>${escapeHtml(label)}</td><td>${escapeHtml(value)}</td></tr>`).join('')}</tbody></table>
+${doc.blocks.map(block).join('\n')}
+</body>
+</html>`;
+};
+
+/**
+ * Opens the browser print dialog for the page, where the user picks "Save as PDF".
+ * Uses a hidden iframe so no popup blocker gets in the way.
+ */
+export const printHtml = (html: string) => {
+  const frame = document.createElement('iframe');
+  frame.style.cssText = 'position:fixed;right:0;bottom:0;width:0;height:0;border:0;';
+  document.body.appendChild(frame);
+  const win = frame.contentWindow!;
+  win.document.open();
+  win.document.write(html);
+  win.document.close();
+  // Give the fonts a moment to load, then clean up once the dialog has closed
+  setTimeout(() => {
+    win.focus();
+    win.print();
+    setTimeout(() => frame.remove(), 1000);
+  }, 250);
+};
@@ -0,0 +1,132 @@
+import { ExportFormat, ExportHeader, MeetingData } from '../../types';
+import { downloadBlob } from '../../utils/fileHelpers';
+import { minutesToMarkdown } from '../../utils/minutes';
+import { formatTranscriptText } from '../../utils/transcript';
+import { createRedactor, redactDeep } from '../../utils/redaction';
+import { loadRedactionSettings } from '../redaction';
+import { buildMinutesDocument } from './document';
+import { minutesToDocx } from './docx';
+import { minutesToHtml, printHtml } from './html';
+import { hasTimings, transcriptToSrt, transcriptToVtt } from './subtitles';
+
+const HEADER_STORAGE_KEY = 'meetingmind.exportHeader';
+const LAST_FORMAT_KEY = 'meetingmind.lastExportFormat';
+
+export const BUNDLE_FORMAT = 'meetingmind.meeting';
+export const BUNDLE_VERSION = 1;
+
+type Requirement = 'minutes' | 'transcript' | 'timings';
+
+interface FormatInfo {
+  label: string;
+  description: string;
+  requires: Requirement;
+}
+
+export const EXPORT_FORMATS: Record<ExportFormat, FormatInfo> = {
+  [ExportFormat.DOCX]: { label: 'Word (.docx)', description: 'Minutes with company header, for the quality records.', requires: 'minutes' },
+  [ExportFormat.PDF]: { label: 'PDF', description: 'Printable minutes. Choose "Save as PDF" in the print dialog.', requires: 'minutes' },
+  [ExportFormat.HTML]: { label: 'HTML', description: 'Printable minutes as a standalone web page.', requires: 'minutes' },
+  [ExportFormat.MARKDOWN]: { label: 'Markdown (.md)', description: 'Minutes as plain Markdown.', requires: 'minutes' },
+  [ExportFormat.TXT]: { label: 'Transcript (.txt)', description: 'Timestamped transcript, one line per utterance.', requires: 'transcript' },
+  [ExportFormat.SRT]: { label: 'Subtitles (.srt)', description: 'Subtitles for the recording.', requires: 'timings' },
+  [ExportFormat.VTT]: { label: 'Subtitles (.vtt)', description: 'WebVTT subtitles with speaker voices.', requires: 'timings' },
+  [ExportFormat.JSON]: { label: 'JSON bundle', description: 'Transcript, speakers and minutes in one file.', requires: 'transcript' },
+};
+
+const REQUIREMENT_HINTS: Record<Requirement, string> = {
+  minutes: 'Generate minutes first.',
+  transcript: 'No transcript yet.',
+  timings: 'The transcript has no timestamps.',
+};
+
+export const DEFAULT_EXPORT_HEADER: ExportHeader = { companyName: '', department: '', documentNumber: '' };
+
+export const loadExportHeader = (): ExportHeader => {
+  try {
+    const stored = localStorage.getItem(HEADER_STORAGE_KEY);
+    return stored ? { ...DEFAULT_EXPORT_HEADER, ...JSON.parse(stored) } : DEFAULT_EXPORT_HEADER;
+  } catch {
+    return DEFAULT_EXPORT_HEADER;
+  }
+};
+
+export const saveExportHeader = (header: ExportHeader) => {
+  localStorage.setItem(HEADER_STORAGE_KEY, JSON.stringify(header));
+};
+
+export const loadLastExportFormat = (): ExportFormat | null => {
+  const stored = localStorage.getItem(LAST_FORMAT_KEY);
+  return stored && stored in EXPORT_FORMATS ? (stored as ExportFormat) : null;
+};
+
+export const saveLastExportFormat = (format: ExportFormat) => {
+  localStorage.setItem(LAST_FORMAT_KEY, format);
+};
+
+/**
+ * Why a format cannot be exported for this meeting, or null when it can.
+ */
+export const unavailableReason = (format: ExportFormat, data: MeetingData): string | null => {
+  const requirement = EXPORT_FORMATS[format].requires;
+  const ok =
+    requirement === 'minutes' ? !!data.minutes :
+    requirement === 'timings' ? hasTimings(data.transcript) :
+    data.transcript.length > 0;
+  return ok ? null : REQUIREMENT_HINTS[requirement];
+};
+
+// "2024.05.01 line review.m4a" keeps everything up to its extension
+const baseName = (fileName: string) => fileName.replace(/\.[^.]+$/, '') || 'meeting';
+
+export const buildMeetingBundle = (data: MeetingData) => ({
+  format: BUNDLE_FORMAT,
+  version: BUNDLE_VERSION,
+  exportedAt: new Date().toISOString(),
+  meeting: data,
+});
+
+/**
+ * The meeting with sensitive values replaced by placeholders, as in a model call, for documents
+ * shared outside the team. One redactor covers the whole meeting, so placeholders agree across
+ * transcript and minutes.
+ */
+export const redactMeeting = (data: MeetingData): MeetingData => redactDeep(data, createRedactor(loadRedactionSettings()));
+
+/**
+ * Produces the file for a format and hands it to the browser (download, or the print dialog for PDF).
+ * `redacted` exports keep placeholders instead of the sensitive values.
+ */
+export const exportMeeting = (format: ExportFormat, meeting: MeetingData, header: ExportHeader, redacted = false) => {
+  const data = redacted ? redactMeeting(meeting) : meeting;
+  const name = `${baseName(meeting.fileName)}${redacted ? '_redacted' : ''}`;
+  const text = (content: string, type: string, suffix: string) =>
+    downloadBlob(new Blob([content], { type: `${type};charset=utf-8` }), `${name}${suffix}`);
+
+  switch (format) {
+    case ExportFormat.DOCX:
+      downloadBlob(minutesToDocx(buildMinutesDocument(data, header)), `${name}_minutes.docx`);
+      break;
+    case ExportFormat.PDF:
+      printHtml(minutesToHtml(buildMinutesDocument(data, header)));
+      break;
+    case ExportFormat.HTML:
+      text(minutesToHtml(buildMinutesDocument(data, header)), 'text/html', '_minutes.html');
+      break;
+    case ExportFormat.MARKDOWN:
+      text(minutesToMarkdown(data.minutes!), 'text/markdown', '_minutes.md');
+      break;
+    case ExportFormat.TXT:
+      text(formatTranscriptText(data.transcript), 'text/plain', '_transcript.txt');
+      break;
+    case ExportFormat.SRT:
+      text(transcriptToSrt(data.transcript), 'application/x-subrip', '.srt');
+      break;
+    case ExportFormat.VTT:
+      text(transcriptToVtt(data.transcript), 'text/vtt', '.vtt');
+      break;
+    case ExportFormat.JSON:
+      text(JSON.stringify(buildMeetingBundle(data), null, 2), 'application/json', '_meeting.json');
+      break;
+  }
+};
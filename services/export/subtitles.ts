@@ -0,0 +1,52 @@
+import { TranscriptSegment } from '../../types';
+
+// Cap for lines without an end time, so one cue does not stay up through a long pause
+const MAX_CUE_SECONDS = 8;
+
+interface Cue {
+  start: number;
+  end: number;
+  speaker: string;
+  text: string;
+}
+
+const formatCueTime = (seconds: number, separator: ',' | '.') => {
+  const totalMs = Math.max(0, Math.round(seconds * 1000));
+  const h = Math.floor(totalMs / 3600000);
+  const m = Math.floor((totalMs % 3600000) / 60000);
+  const s = Math.floor((totalMs % 60000) / 1000);
+  const ms = totalMs % 1000;
+  const pad = (n: number, width = 2) => String(n).padStart(width, '0');
+  return `${pad(h)}:${pad(m)}:${pad(s)}${separator}${pad(ms, 3)}`;
+};
+
+export const hasTimings = (segments: TranscriptSegment[]) => segments.some(s => s.start !== undefined);
+
+/**
+ * Untimed lines are skipped; missing end times run until the next line starts.
+ */
+const toCues = (segments: TranscriptSegment[]): Cue[] => {
+  const timed = segments
+    .filter(s => s.start !== undefined && s.text.trim())
+    .sort((a, b) => a.start! - b.start!);
+  return timed.map((segment, i) => {
+    const next = timed[i + 1]?.start;
+    const fallbackEnd = Math.min(segment.start! + MAX_CUE_SECONDS, next ?? Infinity);
+    const end = segment.end !== undefined && segment.end > segment.start! ? segment.end : fallbackEnd;
+    return { start: segment.start!, end: Math.max(end, segment.start! + 0.5), speaker: segment.speaker, text: segment.text.trim() };
+  });
+};
+
+export const transcriptToSrt = (segments: TranscriptSegment[]): string =>
+  toCues(segments)
+    .map((cue, i) => `${i + 1}\n${formatCueTime(cue.start, ',')} --> ${formatCueTime(cue.end, ',')}\n${cue.speaker}: ${cue.text}\n`)
+    .join('\n');
+
+const escapeVtt = (text: string) => text.replace(/&/g, '&amp;').replace(/</g, '&lt;').replace(/>/g, '&gt;');
+
+export const transcriptToVtt = (segments: TranscriptSegment[]): string =>
+  'WEBVTT\n\n' +
+  toCues(segments)
+    // Voice spans let players style or filter by speaker
+    .map(cue => `${formatCueTime(cue.start, '.')} --> ${formatCueTime(cue.end, '.')}\n<v ${escapeVtt(cue.speaker)}>${escapeVtt(cue.text)}\n`)
+    .join('\n');
@@ -1,40 +1,150 @@
-import { GoogleGenAI } from "@google/genai";
-
-// Helper to get the AI instance with the current API Key
-// Prioritizes process.env.API_KEY as per guidelines
-const getAI = () => {
-  // Try to get key from process.env (Node/Vite defines) or import.meta.env (Vite native)
-  const apiKey = process.env.API_KEY || (import.meta as any).env?.VITE_API_KEY;
-  
-  if (!apiKey) {
-    console.error("API Key missing. Checked process.env.API_KEY and VITE_API_KEY.");
-    throw new Error("API Key not found. Please ensure it is configured in the environment (.env file).");
+import { GlossaryTerm, IdentifiedSpeaker, LanguageSettings, MeetingMinutes, MeetingQuestion, MinutesTemplate, ModelUsage, SectionFormat, TrackedActionItem, TranscriptSegment, TranscriptionHints, UsageStep } from "../types";
+import { LLMProvider, ModelError, classifyError, getActiveProvider } from "./providers";
+import { recordUsage } from "./usage";
+import { DEFAULT_LANGUAGE_SETTINGS, effectiveMinutesLanguage, languagePromptName } from "./languages";
+import {
+  BILINGUAL_TRANSCRIPT_SCHEMA,
+  CORRECTION_SCHEMA,
+  TRANSCRIPT_SCHEMA,
+  parseSegmentsResponse,
+  segmentsFromJson,
+} from "../utils/transcript";
+import {
+  MinutesPart,
+  STATUS_LABELS,
+  buildMinutesPartSchema,
+  buildMinutesSchema,
+  followUpRef,
+  localIsoDate,
+  minutesFromJson,
+  minutesParts,
+  minutesToMarkdown,
+  parseMinutesPartResponse,
+  parseMinutesResponse,
+} from "../utils/minutes";
+import { buildGlossaryHint } from "../utils/glossary";
+import { ANSWER_SCHEMA, MeetingAnswer, numberTranscriptLines, parseAnswerResponse } from "../utils/meetingQA";
+import { parsePartialJson } from "../utils/partialJson";
+import { isAbortError } from "../utils/abort";
+import { retryWithBackoff } from "../utils/retry";
+
+export const MAX_ATTEMPTS = 4;
+
+export interface CallOptions {
+  signal?: AbortSignal;
+  // Called before waiting to retry a transient failure; `attempt` is the one that failed
+  onRetry?: (error: ModelError, attempt: number, delayMs: number) => void;
+  // The meeting the call is made for, so its usage and cost can be attributed
+  meetingId?: string;
+  // Used instead of the provider set up in this browser, e.g. when running under Node
+  provider?: LLMProvider;
+  // Receives each call's usage instead of this browser's usage store
+  onUsage?: (usage: ModelUsage, step: UsageStep) => void;
+}
+
+export interface TranscribeOptions extends CallOptions {
+  // Large recordings are uploaded before transcription starts
+  onUploadProgress?: (sentBytes: number, totalBytes: number) => void;
+  // Length of the audio, recorded with the usage when the provider only reports tokens
+  audioSeconds?: number;
+}
+
+export interface StreamOptions<T> extends CallOptions {
+  // Called with the result as far as it has streamed in
+  onPartial?: (partial: T) => void;
+}
+
+const providerFor = (options: CallOptions): LLMProvider => options.provider || getActiveProvider();
+
+/**
+ * Stores the usage a provider reports for one call. Recording is best effort: a full or blocked
+ * database must not fail the call that was already paid for.
+ */
+const usageRecorder = (step: UsageStep, provider: LLMProvider, { meetingId = '', audioSeconds = 0, onUsage }: TranscribeOptions) =>
+  (reported: ModelUsage) => {
+    const usage = { ...reported, audioSeconds: reported.audioSeconds || audioSeconds };
+    if (onUsage) return onUsage(usage, step);
+    recordUsage(usage, step, meetingId, provider.id).catch(error => console.warn('Could not record usage:', error));
+  };
+
+/**
+ * Runs one model call, retrying rate limits, network and server errors and empty responses.
+ * Whatever still fails is rethrown as a classified `ModelError`; cancellation passes through untouched.
+ */
+const callModel = async <T>(label: string, run: () => Promise<T>, { signal, onRetry }: CallOptions): Promise<T> => {
+  try {
+    return await retryWithBackoff(run, {
+      signal,
+      maxAttempts: MAX_ATTEMPTS,
+      shouldRetry: error => classifyError(error).retryable,
+      retryAfterMs: error => {
+        const seconds = classifyError(error).retryAfterSeconds;
+        return seconds !== undefined ? seconds * 1000 : undefined;
+      },
+      onRetry: (error, attempt, delayMs) => {
+        console.warn(`${label} failed (attempt ${attempt}/${MAX_ATTEMPTS}), retrying in ${delayMs} ms:`, error);
+        onRetry?.(classifyError(error), attempt, delayMs);
+      },
+    });
+  } catch (error) {
+    if (isAbortError(error)) throw error;
+    console.error(`${label} error:`, error);
+    throw classifyError(error);
   }
-  return new GoogleGenAI({ apiKey: apiKey });
 };
 
-// Model constants
-const AUDIO_MODEL = 'gemini-2.5-flash'; // Good for multimodal
-const TEXT_MODEL = 'gemini-2.5-flash'; // Fast and efficient for text tasks
+const transcriptionLanguageRules = ({ sourceLanguage, transcriptLanguage, bilingual }: LanguageSettings): string[] => {
+  const rules = [sourceLanguage
+    ? `The audio is spoken in **${languagePromptName(sourceLanguage)}**.`
+    : 'Detect the language of every utterance; a meeting may switch between languages.'];
+  if (!transcriptLanguage) {
+    rules.push('Transcribe every utterance in the language it is spoken in. Do NOT translate.');
+  } else if (bilingual) {
+    const target = languagePromptName(transcriptLanguage);
+    rules.push(
+      'Write "original" verbatim in the language the utterance is spoken in.',
+      `Write "text" as a faithful translation of "original" into **${target}**. If the utterance is already in ${target}, "text" repeats it.`,
+    );
+  } else {
+    const target = languagePromptName(transcriptLanguage);
+    rules.push(`Write the transcript in **${target}**: transcribe utterances spoken in ${target} verbatim and translate all others into ${target}.`);
+  }
+  return rules;
+};
 
 /**
- * Transcribes an audio file using Gemini Multimodal capabilities.
+ * Transcribes an audio file with the active provider.
  */
-export const transcribeAudio = async (base64Audio: string, mimeType: string): Promise<string> => {
-  try {
-    const ai = getAI();
-    const response = await ai.models.generateContent({
-      model: AUDIO_MODEL,
-      contents: {
-        parts: [
-          {
-            inlineData: {
-              mimeType: mimeType,
-              data: base64Audio,
-            },
-          },
-          {
-            text: `Please provide a FULL, VERBATIM transcript of this audio file.
+export const transcribeAudio = async (
+  audio: Blob,
+  mimeType: string,
+  { knownSpeakers, glossary, language }: TranscriptionHints,
+  options: TranscribeOptions = {}
+): Promise<TranscriptSegment[]> => {
+  const glossaryHint = glossary.length
+    ? `
+            **Plant Vocabulary:** These part numbers, machines, customers and terms occur in our meetings. Always write them with exactly this spelling:
+            ${buildGlossaryHint(glossary).split('\n').join('\n            ')}
+            `
+    : '';
+  const knownSpeakersHint = knownSpeakers.length
+    ? `
+            **Regular Attendees:** These people often attend. If a speaker is addressed by or introduces themselves with one of these names, use the name as their speaker label:
+            ${knownSpeakers.map(s => `- ${s.name}${s.role ? ` (${s.role})` : ''}`).join('\n            ')}
+            `
+    : '';
+
+  return callModel('Transcription', async () => {
+    const provider = providerFor(options);
+    const text = await provider.transcribe({
+      audio,
+      mimeType,
+      language: language.sourceLanguage || undefined,
+      signal: options.signal,
+      onUploadProgress: options.onUploadProgress,
+      onUsage: usageRecorder('transcription', provider, options),
+      jsonSchema: language.bilingual && language.transcriptLanguage ? BILINGUAL_TRANSCRIPT_SCHEMA : TRANSCRIPT_SCHEMA,
+      prompt: `Please provide a FULL, VERBATIM transcript of this audio file.
             
             **CRITICAL INSTRUCTIONS:**
             1. **DO NOT SUMMARIZE.** Your goal is to transcribe every single word spoken.
@@ -44,110 +154,303 @@ export const transcribeAudio = async (base64Audio: string, mimeType: string): Pr
             **Noise & Silence Handling (IMPORTANT):**
             1. **Ignore Silence/Noise:** If there is background noise, static, or silence at the end, **STOP TRANSCRIBING**. Do not output text for it.
             2. **No Hallucinations:** Do NOT output repetitive phrases like "我不知道" (I don't know), "不客氣", or "..." unless they are clearly spoken by a person.
-            3. If the audio is just music or noise, output "[Non-speech audio]".
+            3. If the audio is just music or noise, return an empty "segments" array.
 
             **Formatting Rules (STRICTLY FOLLOW):**
-            1. **Speaker Labels:** You MUST identify different speakers (e.g., "Speaker 1:", "Speaker 2:", or names if mentioned).
-            2. **New Lines:** Every time a speaker changes or a new sentence starts, **START ON A NEW LINE**.
-            3. **Structure Example:**
-               Speaker 1: Hello everyone.
-               Speaker 2: Hi, glad to be here.
-               Speaker 1: Let's start the meeting.
-            
+            1. **Segments:** Return JSON with a "segments" array. Every time a speaker changes or a new sentence starts, **START A NEW SEGMENT**.
+            2. **Speaker Labels:** You MUST identify different speakers (e.g., "Speaker 1", "Speaker 2", or names if mentioned) in the "speaker" field.
+            3. **Timing:** "start" and "end" are the seconds from the beginning of the audio where the segment is spoken.
+            4. **Structure Example:**
+               {"segments": [
+                 {"speaker": "Speaker 1", "start": 0.0, "end": 1.8, "text": "Hello everyone."},
+                 {"speaker": "Speaker 2", "start": 2.1, "end": 3.5, "text": "Hi, glad to be here."}
+               ]}
+            ${knownSpeakersHint}${glossaryHint}
             **Language Instructions:**
-            - Detect the primary language of the audio.
-            - If the language is **Mandarin/Chinese**, you MUST transcribe it in **Traditional Chinese (Taiwan usage)** (繁體中文).
-            - If the language is English, keep it in English and translate into **Traditional Chinese (Taiwan usage)** scripts.
-            - If the language is Japanese, keep it in Japanese and translate into **Traditional Chinese (Taiwan usage)** scripts.
-            - If the language is what you know, just translate into **Traditional Chinese (Taiwan usage)** scripts.
+            ${transcriptionLanguageRules(language).map(rule => `- ${rule}`).join('\n            ')}
             `,
-          },
-        ],
-      },
     });
 
-    return response.text || "No transcript generated.";
-  } catch (error: any) {
-    console.error("Transcription error:", error);
-    throw new Error(error.message || "Failed to transcribe audio.");
-  }
+    return parseSegmentsResponse(text);
+  }, options);
+};
+
+// The model only sees ids, speakers and text; carry the timing over from the original segments,
+// and the spoken-language text of bilingual lines should the model leave it out
+const withOriginalTimings = (corrected: TranscriptSegment[], rawTranscript: TranscriptSegment[]): TranscriptSegment[] => {
+  const byId = new Map(rawTranscript.map(segment => [segment.id, segment]));
+  return corrected.map(segment => {
+    const raw = byId.get(segment.id);
+    if (!raw) return segment;
+    const original = segment.original ?? raw.original;
+    return { ...segment, start: raw.start, end: raw.end, ...(original !== undefined && { original }) };
+  });
 };
 
 /**
- * Corrects the transcript for grammar and clarity.
+ * Corrects the transcript for grammar and clarity. While streaming, `onPartial` receives the
+ * corrected lines so far followed by the raw lines not reached yet.
  */
-export const correctTranscript = async (rawTranscript: string): Promise<string> => {
-  try {
-    const ai = getAI();
-    const response = await ai.models.generateContent({
-      model: TEXT_MODEL,
-      contents: `You are a professional editor. Please correct the following meeting transcript for grammar, punctuation, and clarity.
+export const correctTranscript = async (
+  rawTranscript: TranscriptSegment[],
+  glossary: GlossaryTerm[] = [],
+  language: LanguageSettings = DEFAULT_LANGUAGE_SETTINGS,
+  { onPartial, ...options }: StreamOptions<TranscriptSegment[]> = {}
+): Promise<TranscriptSegment[]> => {
+  const input = JSON.stringify({
+    segments: rawTranscript.map(({ id, speaker, text, original }) => ({ id, speaker, text, original })),
+  });
+  const languageRule = language.transcriptLanguage
+    ? `Keep the transcript in **${languagePromptName(language.transcriptLanguage)}**.`
+    : 'Maintain the **original language** of every line. Do NOT translate.';
+  const bilingualRule = rawTranscript.some(segment => segment.original !== undefined)
+    ? `
+      - Segments with an "original" hold the utterance as spoken and "text" its translation. Correct both and keep the translation faithful to the original.`
+    : '';
+  const indexById = new Map(rawTranscript.map((segment, i) => [segment.id, i]));
+
+  const handleText = onPartial && ((textSoFar: string) => {
+    const corrected = segmentsFromJson(parsePartialJson(textSoFar));
+    if (!corrected?.length) return;
+    const reached = Math.max(-1, ...corrected.map(segment => indexById.get(segment.id) ?? -1));
+    onPartial([...withOriginalTimings(corrected, rawTranscript), ...rawTranscript.slice(reached + 1)]);
+  });
+
+  return callModel('Correction', async () => {
+    const provider = providerFor(options);
+    const text = await provider.generateText({
+      task: 'correct',
+      input,
+      signal: options.signal,
+      onText: handleText,
+      onUsage: usageRecorder('correction', provider, options),
+      jsonSchema: CORRECTION_SCHEMA,
+      prompt: `You are a professional editor. Please correct the following meeting transcript for grammar, punctuation, and clarity.
       
       **Important Constraints:**
       - **Maintain the FULL CONTENT.** Do NOT summarize or delete any parts of the conversation.
-      - Maintain the **original language** of the transcript.
-      - If the text is in Chinese, ensure it uses **Traditional Chinese (Taiwan)**.
-      - Fix typos and phonetic errors.
+      - ${languageRule}${bilingualRule}
+      - Fix typos and phonetic errors.${glossary.length ? `
+      - **Plant Vocabulary:** Fix misheard part numbers, machine names, customer codes and jargon to exactly these spellings:
+      ${buildGlossaryHint(glossary).split('\n').join('\n      ')}` : ''}
       - **Remove Hallucinations:** If the transcript ends with repetitive phrases like "我不知道", "I don't know", "Silence", or gibberish that clearly doesn't fit the conversation context, DELETE THEM.
       
       **Formatting Constraints (CRITICAL):**
-      1. **Preserve Speaker Labels:** Do NOT remove "Speaker 1:", "Speaker 2:", etc. If they are missing, try to infer them.
-      2. **Strict Line Breaks:** Ensure every speaker's turn starts on a new line. Do NOT merge them into paragraphs.
-      3. **Layout:**
-         Speaker A: [Content]
-         Speaker B: [Content]
+      1. **Preserve Speaker Labels:** Do NOT remove "Speaker 1", "Speaker 2", etc. If they are missing, try to infer them.
+      2. **Keep Segments:** Return the same JSON shape. Keep every segment's "id" unchanged. Do NOT merge segments into paragraphs.
+      3. To delete a hallucinated segment, leave it out of the output.
       
-      Transcript to correct:
-      ${rawTranscript}`,
+      Transcript to correct (JSON):
+      ${input}`,
     });
 
-    return response.text || rawTranscript;
-  } catch (error: any) {
-    console.error("Correction error:", error);
-    throw new Error("Failed to correct transcript.");
-  }
+    const corrected = parseSegmentsResponse(text);
+    if (corrected.length === 0) return rawTranscript;
+    return withOriginalTimings(corrected, rawTranscript);
+  }, options);
+};
+
+const buildTemplateSection = (template: MinutesTemplate): string => {
+  if (!template.instructions && template.sections.length === 0) return '';
+  const sectionLines = template.sections.map(section =>
+    `- id "${section.id}" (${section.title}, ${section.format === SectionFormat.BULLETS ? 'one entry per bullet point' : 'one entry per paragraph'}): ${section.instructions}`
+  );
+  return `
+      **Meeting Type: ${template.name}**
+      ${template.instructions}
+      ${sectionLines.length ? `Also fill "sections" with one entry for each of these mandated sections, in this order:
+      ${sectionLines.join('\n      ')}` : ''}
+      `;
+};
+
+const buildFollowUpSection = (openItems: TrackedActionItem[]): string => {
+  if (openItems.length === 0) return '';
+  const lines = openItems.map(({ item, meetingTitle, meetingDate }, i) =>
+    `- ${followUpRef(i)}: ${item.task} (owner: ${item.owner || 'unassigned'}, due: ${item.dueDate || 'none'}, ${STATUS_LABELS[item.status]}; from "${meetingTitle}" on ${localIsoDate(meetingDate)})`
+  );
+  return `
+      **Open Action Items from Earlier Meetings:**
+      ${lines.join('\n      ')}
+      If this meeting reports progress on one of them, add it to "followUps" with its reference, the new status (IN_PROGRESS or DONE) and a short note on what was said. Do NOT repeat it in "actionItems" unless a new task was assigned.
+      `;
 };
 
 /**
- * Generates structured meeting minutes from the transcript.
+ * Generates structured meeting minutes from the transcript, laid out by the chosen template.
+ * `openItems` are the unfinished action items of earlier meetings; progress on them comes back as follow-ups.
  */
-export const generateMeetingMinutes = async (transcript: string): Promise<string> => {
-  try {
-    const ai = getAI();
-    const response = await ai.models.generateContent({
-      model: TEXT_MODEL,
-      contents: `You are an expert executive assistant. Based on the following meeting transcript, generate structured Meeting Minutes in Markdown format.
+export const generateMeetingMinutes = async (
+  segments: TranscriptSegment[],
+  speakers: IdentifiedSpeaker[],
+  template: MinutesTemplate,
+  language: LanguageSettings,
+  openItems: TrackedActionItem[] = [],
+  { onPartial, ...options }: StreamOptions<MeetingMinutes> = {}
+): Promise<MeetingMinutes> => {
+  // Numbered so action items can point at the line they were assigned in
+  const transcript = numberTranscriptLines(segments);
+  const context = { segments, openItems };
+  const minutesLanguage = effectiveMinutesLanguage(language);
+  const rosterSection = speakers.length
+    ? `
+      **Attendee Roster (confirmed by the user):**
+      ${speakers.map(s => `- "${s.label}": ${s.name}${s.role ? `, ${s.role}` : ''}`).join('\n      ')}
+      Use these real names for attendees and as the owners of action items.
+      `
+    : '';
+
+  return callModel('Minutes generation', async () => {
+    const provider = providerFor(options);
+    const text = await provider.generateText({
+      task: 'minutes',
+      input: transcript,
+      signal: options.signal,
+      onUsage: usageRecorder('minutes', provider, options),
+      onText: onPartial && ((textSoFar: string) => {
+        const partial = parsePartialJson(textSoFar);
+        if (partial && typeof partial === 'object') onPartial(minutesFromJson(partial, template, context));
+      }),
+      jsonSchema: buildMinutesSchema(template),
+      prompt: `You are an expert executive assistant. Based on the following meeting transcript, generate structured Meeting Minutes as JSON.
       
       **Language Rules:**
-      - The output language MUST match the primary language of the transcript.
-      - If the transcript is in Chinese, the minutes MUST be in **Traditional Chinese (Taiwan)**.
-      
-      The output should strictly follow this structure (translate headers if output is not English):
-      # Meeting Minutes / 會議紀錄
-      
-      ## 1. Summary / 摘要
-      (A brief executive summary of the meeting)
+      - ${minutesLanguage
+        ? `Write all minutes text in **${languagePromptName(minutesLanguage)}**, whatever language the transcript is in.`
+        : 'The output language MUST match the primary language of the transcript.'}
+      ${rosterSection}${buildTemplateSection(template)}${buildFollowUpSection(openItems)}
+      The output must contain these fields:
+      - "title": A short title for the meeting
+      - "summary": A brief executive summary of the meeting
+      - "attendees": List of inferred speakers or names mentioned
+      - "discussionPoints": Main topics discussed
+      - "decisions": Any conclusions or agreements reached
+      - "actionItems": Tasks assigned to specific people, if any. For each:
+        - "task": What needs to be done
+        - "owner": Who is responsible (empty string if nobody was assigned)
+        - "dueDate": Due date as YYYY-MM-DD (empty string if none was mentioned). Today is ${localIsoDate()}; resolve relative dates like "this Friday" against it.
+        - "priority": HIGH, MEDIUM or LOW, judged from urgency in the conversation
+        - "status": OPEN, unless the transcript says it is already in progress or done
+        - "productionLine": The production line it concerns as named in the meeting, e.g. "Line 3" or "三號線" (empty string if none)
+        - "sourceLine": The number of the transcript line where it was assigned
+      - "followUps": Progress on open items from earlier meetings, if any were listed above
 
-      ## 2. Attendees / 出席人員
-      (List of inferred speakers or names mentioned)
+      ---
+      Transcript (every line starts with its number in square brackets):
+      ${transcript}`,
+    });
 
-      ## 3. Key Discussion Points / 重點討論事項
-      (Bulleted list of main topics discussed)
+    return parseMinutesResponse(text, template, context);
+  }, options);
+};
 
-      ## 4. Decisions Made / 決議事項
-      (List of any conclusions or agreements reached)
+// What each regenerable part should contain, as the full minutes prompt describes it
+const partDescriptions = (today: string): Record<Exclude<MinutesPart, `section:${string}`>, string> => ({
+  summary: '"summary": A brief executive summary of the meeting',
+  attendees: '"attendees": List of inferred speakers or names mentioned',
+  discussionPoints: '"discussionPoints": Main topics discussed',
+  decisions: '"decisions": Any conclusions or agreements reached',
+  actionItems: `"actionItems": Tasks assigned to specific people, each with "task", "owner" (empty string if nobody was assigned), "dueDate" (YYYY-MM-DD or empty; today is ${today}), "priority" (HIGH, MEDIUM or LOW), "status" (OPEN unless said otherwise), "productionLine" (empty string if none) and "sourceLine" (number of the transcript line where it was assigned)`,
+});
 
-      ## 5. Action Items / 待辦事項
-      (Checklist of tasks assigned to specific people, if any)
+/**
+ * Rewrites one part of existing minutes, e.g. only the decisions, following the user's extra
+ * instructions. The rest of the minutes is given as context and comes back unchanged.
+ */
+export const regenerateMinutesPart = async (
+  segments: TranscriptSegment[],
+  speakers: IdentifiedSpeaker[],
+  template: MinutesTemplate,
+  language: LanguageSettings,
+  minutes: MeetingMinutes,
+  part: MinutesPart,
+  instructions: string,
+  options: CallOptions = {}
+): Promise<MeetingMinutes> => {
+  const transcript = numberTranscriptLines(segments);
+  const minutesLanguage = effectiveMinutesLanguage(language);
+  const title = minutesParts(minutes).find(p => p.part === part)?.title || part;
+  const section = minutes.sections.find(s => `section:${s.id}` === part);
+  const templateSection = section && template.sections.find(s => s.id === section.id);
+  const fieldDescription = section
+    ? `"sections": One entry with id "${section.id}" (${section.title}, ${section.format === SectionFormat.BULLETS ? 'one entry per bullet point' : 'one entry per paragraph'})${templateSection?.instructions ? `: ${templateSection.instructions}` : ''}`
+    : partDescriptions(localIsoDate())[part as Exclude<MinutesPart, `section:${string}`>];
+
+  return callModel('Section regeneration', async () => {
+    const provider = providerFor(options);
+    const text = await provider.generateText({
+      task: 'minutes',
+      input: transcript,
+      signal: options.signal,
+      onUsage: usageRecorder('section', provider, options),
+      jsonSchema: buildMinutesPartSchema(part),
+      prompt: `You are an expert executive assistant. Below are meeting minutes and the transcript they were written from. Rewrite ONLY the "${title}" section of the minutes from the transcript, as JSON.
+
+      **Language Rules:**
+      - ${minutesLanguage
+        ? `Write in **${languagePromptName(minutesLanguage)}**, whatever language the transcript is in.`
+        : 'Write in the same language as the current minutes.'}
+      ${speakers.length ? `- Use these real names for people: ${speakers.map(s => `"${s.label}" is ${s.name}`).join(', ')}.` : ''}
 
+      The output must contain only this field:
+      - ${fieldDescription}
+      ${instructions.trim() ? `
+      **Extra instructions from the user (follow them):**
+      ${instructions.trim()}
+      ` : ''}
       ---
-      Transcript:
+      Current minutes (for context; only the "${title}" section is being replaced):
+      ${minutesToMarkdown(minutes).split('\n').join('\n      ')}
+
+      ---
+      Transcript (every line starts with its number in square brackets):
       ${transcript}`,
     });
 
-    return response.text || "No minutes generated.";
-  } catch (error: any) {
-    console.error("Minutes generation error:", error);
-    throw new Error("Failed to generate meeting minutes.");
-  }
-};
\ No newline at end of file
+    return parseMinutesPartResponse(text, part, minutes, template, { segments });
+  }, options);
+};
+
+// Earlier questions sent along so follow-ups like "and who owns that?" make sense
+const QUESTION_HISTORY = 3;
+
+/**
+ * Answers a question about the meeting from its transcript alone, citing the lines it relies on.
+ */
+export const askAboutMeeting = async (
+  segments: TranscriptSegment[],
+  question: string,
+  previous: MeetingQuestion[],
+  options: CallOptions = {}
+): Promise<MeetingAnswer> => {
+  const input = `Question: ${question}\n\nTranscript:\n${numberTranscriptLines(segments)}`;
+  const history = previous.slice(-QUESTION_HISTORY);
+  const historySection = history.length
+    ? `
+      **Earlier questions in this conversation** (for context only):
+      ${history.map(q => `- Q: ${q.question}\n        A: ${q.answer}`).join('\n      ')}
+      `
+    : '';
+
+  return callModel('Question', async () => {
+    const provider = providerFor(options);
+    const text = await provider.generateText({
+      task: 'answer',
+      input,
+      signal: options.signal,
+      onUsage: usageRecorder('answer', provider, options),
+      jsonSchema: ANSWER_SCHEMA,
+      prompt: `You answer questions about a meeting using ONLY its transcript below. Every transcript line starts with its number in square brackets.
+
+      **Rules (STRICTLY FOLLOW):**
+      1. Use only what is said in the transcript. Do NOT use outside knowledge and do NOT guess.
+      2. Put the numbers of every line the answer relies on in "lines". Do not write line numbers in "answer".
+      3. If the transcript does not contain the answer, set "found" to false, leave "lines" empty and say plainly in "answer" that the meeting did not cover it.
+      4. Answer in the language of the question. Keep it short; quote figures and names exactly as they appear.
+      ${historySection}
+      ---
+      ${input}`,
+    });
+
+    return parseAnswerResponse(text, segments);
+  }, options);
+};
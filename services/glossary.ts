@@ -0,0 +1,73 @@
+import { GlossaryCategory, GlossaryTerm } from '../types';
+import { parseCsv, toCsv } from '../utils/csv';
+
+const STORAGE_KEY = 'meetingmind.glossary';
+const CSV_HEADER = ['term', 'preferred', 'category', 'misrecognitions'];
+// Separator for several misrecognitions inside one CSV cell
+const LIST_SEPARATOR = '|';
+
+export const CATEGORY_LABELS: Record<GlossaryCategory, string> = {
+  [GlossaryCategory.PART_NUMBER]: 'Part number',
+  [GlossaryCategory.MACHINE]: 'Machine',
+  [GlossaryCategory.CUSTOMER]: 'Customer',
+  [GlossaryCategory.JARGON]: 'Jargon',
+  [GlossaryCategory.OTHER]: 'Other',
+};
+
+export const createGlossaryTermId = (): string => Math.random().toString(36).slice(2, 10);
+
+export const loadGlossary = (): GlossaryTerm[] => {
+  try {
+    const stored = localStorage.getItem(STORAGE_KEY);
+    return stored ? JSON.parse(stored) : [];
+  } catch {
+    return [];
+  }
+};
+
+export const saveGlossary = (terms: GlossaryTerm[]) => {
+  localStorage.setItem(STORAGE_KEY, JSON.stringify(terms));
+};
+
+export const glossaryToCsv = (terms: GlossaryTerm[]): string =>
+  toCsv([
+    CSV_HEADER,
+    ...terms.map(t => [t.term, t.preferred, t.category, t.misrecognitions.join(LIST_SEPARATOR)]),
+  ]);
+
+const parseCategory = (value: string): GlossaryCategory => {
+  const normalized = value.trim().toUpperCase().replace(/[\s-]+/g, '_');
+  const byLabel = (Object.entries(CATEGORY_LABELS) as [GlossaryCategory, string][])
+    .find(([, label]) => label.toUpperCase().replace(/\s+/g, '_') === normalized);
+  if (byLabel) return byLabel[0];
+  return (Object.values(GlossaryCategory) as string[]).includes(normalized) ? (normalized as GlossaryCategory) : GlossaryCategory.OTHER;
+};
+
+/**
+ * Reads terms from CSV with a `term,preferred,category,misrecognitions` header.
+ * The header row is optional; columns are taken in that order when it is missing.
+ */
+export const glossaryFromCsv = (text: string): GlossaryTerm[] => {
+  const rows = parseCsv(text);
+  if (rows.length && rows[0][0]?.trim().toLowerCase() === CSV_HEADER[0]) rows.shift();
+
+  return rows
+    .filter(row => row[0]?.trim())
+    .map(([term, preferred = '', category = '', misrecognitions = '']) => ({
+      id: createGlossaryTermId(),
+      term: term.trim(),
+      preferred: preferred.trim(),
+      category: parseCategory(category),
+      misrecognitions: misrecognitions.split(LIST_SEPARATOR).map(m => m.trim()).filter(Boolean),
+    }));
+};
+
+/**
+ * Imported terms replace existing ones with the same term; the rest are appended.
+ */
+export const mergeGlossary = (existing: GlossaryTerm[], imported: GlossaryTerm[]): GlossaryTerm[] => {
+  const importedByTerm = new Map(imported.map(t => [t.term, t]));
+  const kept = existing.map(t => (importedByTerm.has(t.term) ? { ...importedByTerm.get(t.term)!, id: t.id } : t));
+  const keptTerms = new Set(existing.map(t => t.term));
+  return [...kept, ...imported.filter(t => !keptTerms.has(t.term))];
+};
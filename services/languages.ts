@@ -0,0 +1,56 @@
+import { LanguageSettings } from '../types';
+
+export interface Language {
+  code: string;
+  // Shown in the pickers, in the language itself so each plant finds its own
+  label: string;
+  // How prompts name the language; Chinese needs the script and regional usage spelled out
+  promptName: string;
+}
+
+export const LANGUAGES: Language[] = [
+  { code: 'zh-TW', label: '繁體中文 (台灣)', promptName: 'Traditional Chinese (Taiwan usage, 繁體中文)' },
+  { code: 'zh-CN', label: '简体中文', promptName: 'Simplified Chinese (Mainland usage, 简体中文)' },
+  { code: 'en', label: 'English', promptName: 'English' },
+  { code: 'ja', label: '日本語', promptName: 'Japanese' },
+  { code: 'vi', label: 'Tiếng Việt', promptName: 'Vietnamese' },
+  { code: 'th', label: 'ไทย', promptName: 'Thai' },
+  { code: 'ko', label: '한국어', promptName: 'Korean' },
+  { code: 'id', label: 'Bahasa Indonesia', promptName: 'Indonesian' },
+];
+
+const STORAGE_KEY = 'meetingmind.languageSettings';
+
+// What the app did before languages were configurable: everything ends up in Traditional Chinese
+export const DEFAULT_LANGUAGE_SETTINGS: LanguageSettings = {
+  sourceLanguage: '',
+  transcriptLanguage: 'zh-TW',
+  minutesLanguage: '',
+  bilingual: false,
+};
+
+export const getLanguage = (code: string): Language | undefined => LANGUAGES.find(language => language.code === code);
+
+export const languagePromptName = (code: string): string => getLanguage(code)?.promptName || code;
+
+/**
+ * The language the minutes end up in, or '' when they follow the transcript's spoken language.
+ */
+export const effectiveMinutesLanguage = (settings: LanguageSettings): string =>
+  settings.minutesLanguage || settings.transcriptLanguage;
+
+/**
+ * The settings new meetings start with: the ones used last in this browser.
+ */
+export const loadLanguageSettings = (): LanguageSettings => {
+  try {
+    const stored = localStorage.getItem(STORAGE_KEY);
+    return stored ? { ...DEFAULT_LANGUAGE_SETTINGS, ...JSON.parse(stored) } : DEFAULT_LANGUAGE_SETTINGS;
+  } catch {
+    return DEFAULT_LANGUAGE_SETTINGS;
+  }
+};
+
+export const saveLanguageSettings = (settings: LanguageSettings) => {
+  localStorage.setItem(STORAGE_KEY, JSON.stringify(settings));
+};
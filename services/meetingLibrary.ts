@@ -0,0 +1,117 @@
+import { MeetingData, MeetingRecord } from '../types';
+import { formatTranscriptText } from '../utils/transcript';
+import { minutesFromMarkdown, minutesToMarkdown } from '../utils/minutes';
+import { DEFAULT_TEMPLATE_ID } from './minutesTemplates';
+import { DEFAULT_LANGUAGE_SETTINGS } from './languages';
+import { AUDIO_STORE, HISTORY_STORE, MEETINGS_STORE, withStore } from './db';
+
+const normalizeMinutes = (minutes: any) => {
+  // Minutes used to be a Markdown string
+  if (typeof minutes === 'string') return minutes ? minutesFromMarkdown(minutes, DEFAULT_TEMPLATE_ID) : null;
+  // ...had no template sections before templates existed, and no follow-ups or production lines before the tracker
+  return minutes && {
+    templateId: DEFAULT_TEMPLATE_ID,
+    sections: [],
+    followUps: [],
+    ...minutes,
+    actionItems: (minutes.actionItems || []).map((item: any) => ({ productionLine: '', ...item })),
+  };
+};
+
+/**
+ * Upgrades records written by earlier versions of the app to the current `MeetingData` shape.
+ */
+const normalizeRecord = (record: MeetingRecord): MeetingRecord => {
+  const data: any = record.data;
+  return {
+    ...record,
+    data: {
+      ...data,
+      recordedAt: data.recordedAt ?? record.createdAt,
+      speakers: data.speakers || [],
+      rawTranscript: data.rawTranscript || [],
+      acceptedChanges: data.acceptedChanges || [],
+      language: data.language || DEFAULT_LANGUAGE_SETTINGS,
+      questions: data.questions || [],
+      minutes: normalizeMinutes(data.minutes),
+    },
+  };
+};
+
+export const createMeetingId = (): string => `${Date.now().toString(36)}-${Math.random().toString(36).slice(2, 8)}`;
+
+export const titleFromFileName = (fileName: string): string => fileName.replace(/\.[^.]+$/, '') || 'Untitled meeting';
+
+/**
+ * Most recently edited first.
+ */
+export const listMeetings = async (): Promise<MeetingRecord[]> => {
+  const records = await withStore<MeetingRecord[]>(MEETINGS_STORE, 'readonly', store => store.getAll());
+  return records.map(normalizeRecord).sort((a, b) => b.updatedAt - a.updatedAt);
+};
+
+export const getMeeting = async (id: string): Promise<MeetingRecord | undefined> => {
+  const record = await withStore<MeetingRecord | undefined>(MEETINGS_STORE, 'readonly', store => store.get(id));
+  return record && normalizeRecord(record);
+};
+
+export const getMeetingAudio = (id: string): Promise<Blob | undefined> =>
+  withStore<Blob | undefined>(AUDIO_STORE, 'readonly', store => store.get(id));
+
+/**
+ * Creates the record if needed, otherwise replaces its data and bumps the edit timestamp.
+ */
+export const saveMeeting = async (id: string, data: MeetingData, audio?: Blob): Promise<MeetingRecord> => {
+  const existing = await getMeeting(id);
+  const now = Date.now();
+  const record: MeetingRecord = {
+    id,
+    title: existing?.title || titleFromFileName(data.fileName),
+    createdAt: existing?.createdAt || now,
+    updatedAt: now,
+    hasAudio: existing?.hasAudio || !!audio,
+    data,
+  };
+  if (audio) {
+    await withStore(AUDIO_STORE, 'readwrite', store => store.put(audio, id));
+  }
+  await withStore(MEETINGS_STORE, 'readwrite', store => store.put(record));
+  return record;
+};
+
+export const renameMeeting = async (id: string, title: string): Promise<void> => {
+  const existing = await getMeeting(id);
+  if (!existing) return;
+  await withStore(MEETINGS_STORE, 'readwrite', store => store.put({ ...existing, title, updatedAt: Date.now() }));
+};
+
+export const duplicateMeeting = async (id: string): Promise<MeetingRecord | undefined> => {
+  const existing = await getMeeting(id);
+  if (!existing) return undefined;
+  const copyId = createMeetingId();
+  const audio = existing.hasAudio ? await getMeetingAudio(id) : undefined;
+  if (audio) {
+    await withStore(AUDIO_STORE, 'readwrite', store => store.put(audio, copyId));
+  }
+  const now = Date.now();
+  const copy: MeetingRecord = { ...existing, id: copyId, title: `${existing.title} (copy)`, createdAt: now, updatedAt: now };
+  await withStore(MEETINGS_STORE, 'readwrite', store => store.put(copy));
+  return copy;
+};
+
+export const deleteMeeting = async (id: string): Promise<void> => {
+  await withStore(MEETINGS_STORE, 'readwrite', store => store.delete(id));
+  await withStore(AUDIO_STORE, 'readwrite', store => store.delete(id));
+  await withStore(HISTORY_STORE, 'readwrite', store => store.delete(id));
+};
+
+/**
+ * Case-insensitive match on title, file name, transcript and minutes.
+ */
+export const matchesSearch = (record: MeetingRecord, query: string): boolean => {
+  const needle = query.trim().toLowerCase();
+  if (!needle) return true;
+  const minutes = record.data.minutes ? minutesToMarkdown(record.data.minutes) : '';
+  return [record.title, record.data.fileName, formatTranscriptText(record.data.transcript), minutes]
+    .some(field => field.toLowerCase().includes(needle));
+};
@@ -0,0 +1,83 @@
+import { ChunkStatus, MeetingData, MeetingMinutes, MinutesTemplate, TrackedActionItem, TranscriptSegment, TranscriptionHints } from '../types';
+import { LongTranscribeOptions, transcribeLongAudio } from './chunkedTranscription';
+import { StreamOptions, correctTranscript, generateMeetingMinutes } from './geminiService';
+import { formatFileSize } from '../utils/fileHelpers';
+import { applyGlossary } from '../utils/glossary';
+import { matchKnownSpeakers } from '../utils/speakers';
+
+export interface PipelineOptions extends LongTranscribeOptions {
+  // `fraction` runs from 0 to 1 over the whole recording; `chunks` is each chunk's state while transcribing
+  onProgress?: (fraction: number, message: string, chunks?: ChunkStatus[]) => void;
+  // The transcript before correction, as soon as transcription is done
+  onRawTranscript?: (rawTranscript: TranscriptSegment[]) => void;
+  // The corrected transcript as far as it has streamed in
+  onPartialTranscript?: (partial: TranscriptSegment[]) => void;
+  // Without this a failed or cancelled correction fails the run. With it, the error is passed here
+  // and the raw transcript is kept, unless this rethrows.
+  onCorrectionError?: (error: unknown) => void;
+}
+
+// Share of the progress bar each step takes
+const TRANSCRIBE_SHARE = 0.75;
+
+/**
+ * Transcribes and corrects a recording. Nothing here reads browser storage: the glossary and regular
+ * attendees come in with the hints and the provider, usage sink and decoder through the options, so
+ * it runs in the app, in the batch queue and under Node alike.
+ */
+export const processRecording = async (
+  file: File,
+  { knownSpeakers, glossary, language }: TranscriptionHints,
+  { onProgress, onRawTranscript, onPartialTranscript, onCorrectionError, ...options }: PipelineOptions = {}
+): Promise<MeetingData> => {
+  onProgress?.(0, options.decodeAudio === null ? 'Transcribing...' : 'Decoding audio...');
+  const rawTranscript = await transcribeLongAudio(file, (chunks) => {
+    const done = chunks.filter(c => c === ChunkStatus.DONE).length;
+    onProgress?.(
+      TRANSCRIBE_SHARE * done / chunks.length,
+      chunks.length > 1 ? `Transcribing chunk ${done}/${chunks.length}...` : 'Transcribing...',
+      chunks
+    );
+  }, { knownSpeakers, glossary, language }, {
+    ...options,
+    onUploadProgress: (sent, total) => onProgress?.(0, sent < total
+      ? `Uploading audio... ${formatFileSize(sent)} of ${formatFileSize(total)}`
+      : 'Transcribing...'),
+  });
+  onRawTranscript?.(rawTranscript);
+
+  onProgress?.(TRANSCRIBE_SHARE, 'Refining transcript...');
+  let corrected: TranscriptSegment[];
+  try {
+    corrected = await correctTranscript(rawTranscript, glossary, language, { ...options, onPartial: onPartialTranscript });
+  } catch (error) {
+    if (!onCorrectionError) throw error;
+    onCorrectionError(error);
+    corrected = rawTranscript;
+  }
+  // The model usually honours the glossary, the deterministic pass catches what it missed
+  const transcript = applyGlossary(corrected, glossary);
+  onProgress?.(1, 'Transcript ready');
+
+  return {
+    fileName: file.name,
+    fileType: file.type,
+    recordedAt: file.lastModified,
+    transcript,
+    // Kept so reviewers can see what the correction changed or deleted
+    rawTranscript,
+    acceptedChanges: [],
+    minutes: null,
+    speakers: matchKnownSpeakers(transcript, knownSpeakers),
+    language,
+    questions: [],
+  };
+};
+
+export const generateMinutesFor = (
+  data: MeetingData,
+  template: MinutesTemplate,
+  openItems: TrackedActionItem[] = [],
+  options: StreamOptions<MeetingMinutes> = {}
+): Promise<MeetingMinutes> =>
+  generateMeetingMinutes(data.transcript, data.speakers, template, data.language, openItems, options);
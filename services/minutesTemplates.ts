@@ -0,0 +1,106 @@
+import { MinutesTemplate, SectionFormat } from '../types';
+
+const STORAGE_KEY = 'meetingmind.customTemplates';
+const LAST_TEMPLATE_KEY = 'meetingmind.lastTemplateId';
+
+export const DEFAULT_TEMPLATE_ID = 'general';
+
+export const BUILT_IN_TEMPLATES: MinutesTemplate[] = [
+  {
+    id: DEFAULT_TEMPLATE_ID,
+    name: 'General meeting',
+    description: 'Summary, attendees, discussion points, decisions and action items.',
+    instructions: '',
+    sections: [],
+    builtIn: true,
+  },
+  {
+    id: 'sqdc-daily',
+    name: 'SQDC daily stand-up',
+    description: 'Safety, Quality, Delivery and Cost review for the daily tier meeting.',
+    instructions: 'This is a short daily SQDC tier meeting on the shop floor. Report each category against yesterday\'s targets. Keep every item factual and include the numbers that were mentioned.',
+    sections: [
+      { id: 'safety', title: 'Safety / 安全', format: SectionFormat.BULLETS, instructions: 'Start with "Status: Green" or "Status: Red". Then incidents, near misses and open safety concerns.' },
+      { id: 'quality', title: 'Quality / 品質', format: SectionFormat.BULLETS, instructions: 'Start with "Status: Green" or "Status: Red". Then defect / scrap rates, customer complaints and quality holds.' },
+      { id: 'delivery', title: 'Delivery / 交期', format: SectionFormat.BULLETS, instructions: 'Start with "Status: Green" or "Status: Red". Then output versus plan, downtime and shipments at risk.' },
+      { id: 'cost', title: 'Cost / 成本', format: SectionFormat.BULLETS, instructions: 'Start with "Status: Green" or "Status: Red". Then overtime, material usage, rework and other cost drivers.' },
+      { id: 'escalations', title: 'Escalations / 上呈事項', format: SectionFormat.BULLETS, instructions: 'Problems that need help from the next tier or another department.' },
+    ],
+    builtIn: true,
+  },
+  {
+    id: 'shift-handover',
+    name: 'Shift handover',
+    description: 'What the outgoing shift passes on to the incoming shift.',
+    instructions: 'This is a handover between an outgoing and an incoming production shift. Focus on what the incoming shift must know or do.',
+    sections: [
+      { id: 'production', title: 'Production Status / 生產狀況', format: SectionFormat.BULLETS, instructions: 'Output per line versus plan, work orders in progress, changeovers.' },
+      { id: 'equipment', title: 'Equipment / 設備狀況', format: SectionFormat.BULLETS, instructions: 'Machines down or degraded (with machine IDs), maintenance in progress, spare parts awaited.' },
+      { id: 'quality', title: 'Quality Issues / 品質異常', format: SectionFormat.BULLETS, instructions: 'Abnormalities, lots on hold, inspections pending.' },
+      { id: 'safety', title: 'Safety / 安全', format: SectionFormat.BULLETS, instructions: 'Incidents, hazards, lockout/tagout in place.' },
+      { id: 'next-shift', title: 'For the Next Shift / 交接事項', format: SectionFormat.BULLETS, instructions: 'Concrete tasks and follow-ups the incoming shift must pick up.' },
+    ],
+    builtIn: true,
+  },
+  {
+    id: '8d-review',
+    name: '8D problem-solving review',
+    description: 'The eight disciplines (D1–D8) of a problem-solving report.',
+    instructions: 'This is an 8D problem-solving review. Fill each discipline only with what was actually said; write "Not discussed" when a discipline did not come up.',
+    sections: [
+      { id: 'd1', title: 'D1 Team / 團隊', format: SectionFormat.BULLETS, instructions: 'Team members and their roles.' },
+      { id: 'd2', title: 'D2 Problem Description / 問題描述', format: SectionFormat.PARAGRAPH, instructions: 'What, where, when, how many (5W2H), including part numbers and customers.' },
+      { id: 'd3', title: 'D3 Containment / 暫時對策', format: SectionFormat.BULLETS, instructions: 'Interim containment actions and their effectiveness.' },
+      { id: 'd4', title: 'D4 Root Cause / 根本原因', format: SectionFormat.BULLETS, instructions: 'Root causes for occurrence and for escape, with the analysis used (5 Why, fishbone).' },
+      { id: 'd5', title: 'D5 Corrective Actions / 永久對策', format: SectionFormat.BULLETS, instructions: 'Chosen permanent corrective actions.' },
+      { id: 'd6', title: 'D6 Implementation & Validation / 執行與驗證', format: SectionFormat.BULLETS, instructions: 'Implementation status and validation results.' },
+      { id: 'd7', title: 'D7 Prevent Recurrence / 預防再發', format: SectionFormat.BULLETS, instructions: 'Systemic changes: FMEA, control plan, work instruction updates.' },
+      { id: 'd8', title: 'D8 Team Recognition / 團隊肯定', format: SectionFormat.PARAGRAPH, instructions: 'Closure and recognition of the team.' },
+    ],
+    builtIn: true,
+  },
+  {
+    id: 'kaizen',
+    name: 'Kaizen event',
+    description: 'Current state, target, improvements and results of a kaizen event.',
+    instructions: 'This is a kaizen (continuous improvement) event. Quantify before/after whenever numbers were mentioned.',
+    sections: [
+      { id: 'scope', title: 'Scope & Target / 範圍與目標', format: SectionFormat.PARAGRAPH, instructions: 'Process in scope and the improvement target.' },
+      { id: 'current-state', title: 'Current State / 現況', format: SectionFormat.BULLETS, instructions: 'Baseline measurements and observed waste (muda).' },
+      { id: 'root-causes', title: 'Root Causes / 原因分析', format: SectionFormat.BULLETS, instructions: 'Causes of the waste identified by the team.' },
+      { id: 'improvements', title: 'Improvements / 改善內容', format: SectionFormat.BULLETS, instructions: 'Changes tried or implemented.' },
+      { id: 'results', title: 'Results / 改善成果', format: SectionFormat.BULLETS, instructions: 'Before/after results.' },
+      { id: 'standardization', title: 'Standardization / 標準化', format: SectionFormat.BULLETS, instructions: 'Standard work, documents and training needed to sustain the change.' },
+    ],
+    builtIn: true,
+  },
+];
+
+export const loadCustomTemplates = (): MinutesTemplate[] => {
+  try {
+    const stored = localStorage.getItem(STORAGE_KEY);
+    return stored ? JSON.parse(stored) : [];
+  } catch {
+    return [];
+  }
+};
+
+export const saveCustomTemplates = (templates: MinutesTemplate[]) => {
+  localStorage.setItem(STORAGE_KEY, JSON.stringify(templates.map(t => ({ ...t, builtIn: false }))));
+};
+
+export const getAllTemplates = (): MinutesTemplate[] => [...BUILT_IN_TEMPLATES, ...loadCustomTemplates()];
+
+/**
+ * Falls back to the general template for ids that no longer exist (e.g. a deleted custom template).
+ */
+export const getTemplate = (id: string, templates: MinutesTemplate[] = getAllTemplates()): MinutesTemplate =>
+  templates.find(t => t.id === id) || BUILT_IN_TEMPLATES[0];
+
+export const createTemplateId = (): string => `custom-${Math.random().toString(36).slice(2, 10)}`;
+
+export const loadLastTemplateId = (): string => localStorage.getItem(LAST_TEMPLATE_KEY) || DEFAULT_TEMPLATE_ID;
+
+export const saveLastTemplateId = (id: string) => {
+  localStorage.setItem(LAST_TEMPLATE_KEY, id);
+};
@@ -0,0 +1,63 @@
+import { ModelErrorKind } from '../../types';
+
+// Worth another attempt after a pause; the rest need the user to change something first
+const RETRYABLE_KINDS = [ModelErrorKind.RATE_LIMIT, ModelErrorKind.NETWORK, ModelErrorKind.SERVER, ModelErrorKind.EMPTY_RESPONSE];
+
+/**
+ * A failed model call, classified so callers can decide whether to retry and what to tell the user.
+ */
+export class ModelError extends Error {
+  kind: ModelErrorKind;
+  retryAfterSeconds?: number;
+
+  constructor(kind: ModelErrorKind, message: string, retryAfterSeconds?: number) {
+    super(message);
+    this.name = 'ModelError';
+    this.kind = kind;
+    this.retryAfterSeconds = retryAfterSeconds;
+  }
+
+  get retryable(): boolean {
+    return RETRYABLE_KINDS.includes(this.kind);
+  }
+}
+
+export const kindFromStatus = (status: number): ModelErrorKind | null => {
+  if (status === 401 || status === 403) return ModelErrorKind.AUTH;
+  if (status === 413) return ModelErrorKind.PAYLOAD_TOO_LARGE;
+  if (status === 429) return ModelErrorKind.RATE_LIMIT;
+  if (status >= 500) return ModelErrorKind.SERVER;
+  return null;
+};
+
+// Gemini puts the delay in the error body ("retryDelay": "27s"), other servers in the message
+const parseRetryAfter = (message: string): number | undefined => {
+  const match = message.match(/"retryDelay":\s*"(\d+(?:\.\d+)?)s"/) || message.match(/retry (?:in|after) (\d+(?:\.\d+)?)\s*s/i);
+  return match ? Math.ceil(parseFloat(match[1])) : undefined;
+};
+
+const MESSAGE_PATTERNS: [RegExp, ModelErrorKind][] = [
+  [/api key|api_key_invalid|permission_denied|unauthenticated|requested entity was not found/i, ModelErrorKind.AUTH],
+  [/resource_exhausted|rate limit|quota|too many requests/i, ModelErrorKind.RATE_LIMIT],
+  [/payload|too large|exceeds the maximum|request entity/i, ModelErrorKind.PAYLOAD_TOO_LARGE],
+  [/unavailable|overloaded|internal error|deadline/i, ModelErrorKind.SERVER],
+  [/failed to fetch|networkerror|network request failed|load failed|err_network/i, ModelErrorKind.NETWORK],
+];
+
+/**
+ * Turns whatever a provider or the network threw into a `ModelError`.
+ */
+export const classifyError = (error: unknown): ModelError => {
+  if (error instanceof ModelError) return error;
+  const message = (error as any)?.message ? String((error as any).message) : String(error);
+  const status = typeof (error as any)?.status === 'number'
+    ? (error as any).status
+    : Number(message.match(/got status: (\d{3})/)?.[1]);
+
+  const kind =
+    (status ? kindFromStatus(status) : null) ||
+    MESSAGE_PATTERNS.find(([pattern]) => pattern.test(message))?.[1] ||
+    (typeof navigator !== 'undefined' && navigator.onLine === false ? ModelErrorKind.NETWORK : ModelErrorKind.UNKNOWN);
+
+  return new ModelError(kind, message, kind === ModelErrorKind.RATE_LIMIT ? parseRetryAfter(message) : undefined);
+};
@@ -0,0 +1,108 @@
+import { ModelUsage, ProviderId } from '../../types';
+import { delay } from '../../utils/abort';
+import { LLMProvider, TextRequest } from './provider';
+
+// Fixed demo transcript so the whole flow can be shown without any model or network access
+const DEMO_SEGMENTS = [
+  { speaker: 'Speaker 1', start: 0, end: 4, text: '大家早安，我們開始今天的產線早會。' },
+  { speaker: 'Speaker 2', start: 4, end: 10, text: '昨天三號線的 CNC-07 停機兩次，主要是主軸過熱。' },
+  { speaker: 'Speaker 1', start: 10, end: 12, text: '停機總共多久？' },
+  { speaker: 'Speaker 2', start: 12, end: 17, text: '大約四十分鐘，已經請設備課檢查冷卻系統。' },
+  { speaker: 'Speaker 3', start: 17, end: 23, text: '品質這邊，昨天的不良率是百分之一點二，比目標高一點。' },
+  { speaker: 'Speaker 1', start: 23, end: 31, text: '好，設備課今天下班前回報冷卻系統檢查結果，品保週五前提出改善對策。' },
+  { speaker: 'Speaker 3', start: 31, end: 33, text: '沒問題。' },
+];
+
+// Lines containing one of these are turned into action items, so the demo shows a filled table
+const ACTION_KEYWORDS = ['回報', '提出', '負責', 'follow up', 'will'];
+
+// Prompts number the transcript lines: "[3] (00:12) Speaker 2: text"
+const NUMBERED_LINE = /^\[(\d+)\] (?:\([\d:]+\) )?([^:]+): (.*)$/gm;
+
+const buildMinutes = (transcript: string): string => {
+  const segments = Array.from(transcript.matchAll(NUMBERED_LINE), ([, line, speaker, text]) => ({ line: Number(line), speaker, text }));
+  const speakers = Array.from(new Set(segments.map(s => s.speaker)));
+
+  return JSON.stringify({
+    title: 'Demo meeting',
+    summary: `(Demo provider) ${segments.length} transcript lines from ${speakers.length || 1} speaker(s).`,
+    attendees: speakers,
+    discussionPoints: segments.slice(0, 5).map(s => s.text),
+    decisions: [],
+    actionItems: segments
+      .filter(s => ACTION_KEYWORDS.some(keyword => s.text.toLowerCase().includes(keyword)))
+      .map(s => ({ task: s.text, owner: s.speaker, dueDate: '', priority: 'MEDIUM', status: 'OPEN', productionLine: '', sourceLine: s.line })),
+  });
+};
+
+// Cites the lines sharing the most words (pairs of characters for CJK) with the question
+const buildAnswer = (input: string): string => {
+  const question = input.match(/^Question: (.*)$/m)?.[1].toLowerCase() || '';
+  const terms = question.match(/[a-z0-9-]{3,}|[\p{Script=Han}]{2,}/gu)?.flatMap(term =>
+    /^[a-z0-9-]+$/.test(term) ? [term] : Array.from({ length: term.length - 1 }, (_, i) => term.slice(i, i + 2))
+  ) || [];
+  const scored = Array.from(input.matchAll(NUMBERED_LINE), ([, line, speaker, text]) => ({
+    line: Number(line),
+    text: `${speaker}: ${text}`,
+    score: terms.filter(term => text.toLowerCase().includes(term)).length,
+  }))
+    .filter(line => line.score > 0)
+    .sort((a, b) => b.score - a.score)
+    .slice(0, 3);
+
+  return JSON.stringify(scored.length
+    ? { found: true, answer: `(Demo provider) ${scored[0].text}`, lines: scored.map(line => line.line) }
+    : { found: false, answer: '(Demo provider) The transcript does not mention this.', lines: [] });
+};
+
+// Streamed responses arrive in this many pieces, so the demo shows progressive rendering
+const STREAM_STEPS = 20;
+const STREAM_STEP_MS = 60;
+
+const DEMO_MODEL = 'demo';
+// Rough token counts, so the usage view has something to show in demos
+const approxTokens = (text: string) => Math.ceil(text.length / 3);
+const DEMO_AUDIO_SECONDS = DEMO_SEGMENTS[DEMO_SEGMENTS.length - 1].end;
+
+const respond = async (text: string, { prompt, signal, onText, onUsage }: TextRequest): Promise<string> => {
+  if (!onText) {
+    await delay(0, signal);
+  } else {
+    const step = Math.ceil(text.length / STREAM_STEPS);
+    for (let end = step; end < text.length + step; end += step) {
+      await delay(STREAM_STEP_MS, signal);
+      onText(text.slice(0, end));
+    }
+  }
+  onUsage?.({ model: DEMO_MODEL, promptTokens: approxTokens(prompt), audioTokens: 0, responseTokens: approxTokens(text), audioSeconds: 0 });
+  return text;
+};
+
+/**
+ * Deterministic provider for demos and offline development. Never touches the network.
+ */
+export const fakeProvider: LLMProvider = {
+  id: ProviderId.FAKE,
+  models: { audio: DEMO_MODEL, text: DEMO_MODEL },
+
+  transcribe: async ({ prompt, signal, onUsage }) => {
+    await delay(0, signal);
+    const text = JSON.stringify({ segments: DEMO_SEGMENTS });
+    // Gemini counts 32 tokens per second of audio
+    const audioTokens = DEMO_AUDIO_SECONDS * 32;
+    onUsage?.({ model: DEMO_MODEL, promptTokens: approxTokens(prompt) + audioTokens, audioTokens, responseTokens: approxTokens(text), audioSeconds: 0 });
+    return text;
+  },
+
+  generateText: async (request: TextRequest) => {
+    switch (request.task) {
+      case 'correct':
+        // The correction input is already in the response shape
+        return respond(request.input, request);
+      case 'minutes':
+        return respond(buildMinutes(request.input), request);
+      case 'answer':
+        return respond(buildAnswer(request.input), request);
+    }
+  },
+};
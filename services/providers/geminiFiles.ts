@@ -0,0 +1,187 @@
+import { GoogleGenAI } from "@google/genai";
+import { ModelErrorKind } from '../../types';
+import { ModelError, classifyError, kindFromStatus } from './errors';
+import { delay, throwIfAborted } from '../../utils/abort';
+import { retryWithBackoff } from '../../utils/retry';
+
+export interface UploadedFile {
+  name: string;
+  uri: string;
+  mimeType: string;
+  // Epoch ms after which Gemini has deleted the file
+  expiresAt: number;
+}
+
+interface UploadOptions {
+  baseUrl: string;
+  apiKey: string;
+  signal?: AbortSignal;
+  onProgress?: (sentBytes: number, totalBytes: number) => void;
+}
+
+// The resumable protocol wants chunks in multiples of 256 KiB
+const UPLOAD_CHUNK_BYTES = 32 * 256 * 1024;
+const ACTIVE_POLL_MS = 2000;
+// Gemini keeps uploads for 48 hours; stop reusing them a little earlier
+const DEFAULT_LIFETIME_MS = 47 * 60 * 60 * 1000;
+const CACHE_KEY = 'meetingmind.geminiUploads';
+
+// Recordings picked from disk or the library survive a reload and are found again by their fingerprint;
+// audio built in the browser (WAV chunks) is only reused for as long as the Blob lives
+const sessionUploads = new WeakMap<Blob, UploadedFile>();
+
+const fingerprint = (audio: Blob): string | null =>
+  audio instanceof File ? `${audio.name}|${audio.size}|${audio.lastModified}|${audio.type}` : null;
+
+const loadCache = (): Record<string, UploadedFile> => {
+  try {
+    const stored = localStorage.getItem(CACHE_KEY);
+    return stored ? JSON.parse(stored) : {};
+  } catch {
+    return {};
+  }
+};
+
+const saveCache = (cache: Record<string, UploadedFile>) => {
+  const now = Date.now();
+  const live = Object.fromEntries(Object.entries(cache).filter(([, file]) => file.expiresAt > now));
+  try {
+    localStorage.setItem(CACHE_KEY, JSON.stringify(live));
+  } catch {
+    // No storage (Node) or it is full: the upload is only reused for as long as the Blob lives
+  }
+};
+
+const rememberUpload = (audio: Blob, file: UploadedFile | null) => {
+  if (file) sessionUploads.set(audio, file); else sessionUploads.delete(audio);
+  const key = fingerprint(audio);
+  if (!key) return;
+  const cache = loadCache();
+  if (file) cache[key] = file; else delete cache[key];
+  saveCache(cache);
+};
+
+const findUpload = (audio: Blob): UploadedFile | null => {
+  const key = fingerprint(audio);
+  const file = sessionUploads.get(audio) || (key ? loadCache()[key] : undefined);
+  return file && file.expiresAt > Date.now() ? file : null;
+};
+
+const uploadError = async (response: Response, label: string): Promise<ModelError> => {
+  const message = `${label} (${response.status}): ${await response.text().catch(() => response.statusText)}`;
+  return new ModelError(kindFromStatus(response.status) || ModelErrorKind.UNKNOWN, message);
+};
+
+const toUploadedFile = (file: any, fallbackMimeType: string): UploadedFile => ({
+  name: file.name,
+  uri: file.uri,
+  mimeType: file.mimeType || fallbackMimeType,
+  expiresAt: file.expirationTime ? Date.parse(file.expirationTime) : Date.now() + DEFAULT_LIFETIME_MS,
+});
+
+/**
+ * Uploads with Gemini's resumable protocol: one request opens a session, the audio follows in chunks.
+ * A failed chunk is retried from the offset the server reports it received, not from the start.
+ */
+const uploadResumable = async (
+  audio: Blob,
+  mimeType: string,
+  { baseUrl, apiKey, signal, onProgress }: UploadOptions
+): Promise<UploadedFile> => {
+  const start = await fetch(`${baseUrl}/upload/v1beta/files`, {
+    method: 'POST',
+    headers: {
+      'x-goog-api-key': apiKey,
+      'Content-Type': 'application/json',
+      'X-Goog-Upload-Protocol': 'resumable',
+      'X-Goog-Upload-Command': 'start',
+      'X-Goog-Upload-Header-Content-Length': String(audio.size),
+      'X-Goog-Upload-Header-Content-Type': mimeType,
+    },
+    body: JSON.stringify({ file: { displayName: audio instanceof File ? audio.name : 'audio' } }),
+    signal,
+  });
+  const uploadUrl = start.headers.get('X-Goog-Upload-URL');
+  if (!start.ok || !uploadUrl) throw await uploadError(start, 'Could not start the upload');
+
+  let offset = 0;
+  let resync = false;
+  onProgress?.(0, audio.size);
+  for (;;) {
+    const result = await retryWithBackoff(async () => {
+      if (resync) {
+        const query = await fetch(uploadUrl, { method: 'POST', headers: { 'X-Goog-Upload-Command': 'query' }, signal });
+        if (!query.ok) throw await uploadError(query, 'Could not resume the upload');
+        offset = Number(query.headers.get('X-Goog-Upload-Size-Received')) || 0;
+        resync = false;
+      }
+      const end = Math.min(offset + UPLOAD_CHUNK_BYTES, audio.size);
+      const isLast = end === audio.size;
+      try {
+        const response = await fetch(uploadUrl, {
+          method: 'POST',
+          headers: {
+            'X-Goog-Upload-Command': isLast ? 'upload, finalize' : 'upload',
+            'X-Goog-Upload-Offset': String(offset),
+          },
+          body: audio.slice(offset, end),
+          signal,
+        });
+        if (!response.ok) throw await uploadError(response, 'Upload failed');
+        offset = end;
+        onProgress?.(offset, audio.size);
+        return isLast ? await response.json() : null;
+      } catch (error) {
+        resync = true;
+        throw error;
+      }
+    }, {
+      signal,
+      shouldRetry: error => classifyError(error).retryable,
+      onRetry: (error, attempt, delayMs) => console.warn(`Upload chunk failed (attempt ${attempt}), retrying in ${delayMs} ms:`, error),
+    });
+    if (result) return toUploadedFile(result.file, mimeType);
+  }
+};
+
+// Audio is processed after the upload; it can only be referenced once it is ACTIVE
+const waitUntilActive = async (ai: GoogleGenAI, name: string, signal?: AbortSignal) => {
+  for (;;) {
+    const file = await ai.files.get({ name, config: { abortSignal: signal } });
+    if (file.state === 'ACTIVE') return;
+    if (file.state === 'FAILED') {
+      throw new ModelError(ModelErrorKind.UNKNOWN, `Gemini could not process the uploaded audio: ${file.error?.message || 'unknown reason'}.`);
+    }
+    await delay(ACTIVE_POLL_MS, signal);
+  }
+};
+
+/**
+ * Returns a Files API reference for the audio, uploading it only when no earlier upload of the same
+ * recording is still usable. Retries and re-runs of a meeting therefore send the audio once.
+ */
+export const ensureUploaded = async (
+  ai: GoogleGenAI,
+  audio: Blob,
+  mimeType: string,
+  options: UploadOptions
+): Promise<UploadedFile> => {
+  const previous = findUpload(audio);
+  if (previous) {
+    try {
+      await waitUntilActive(ai, previous.name, options.signal);
+      options.onProgress?.(audio.size, audio.size);
+      return previous;
+    } catch (error) {
+      throwIfAborted(options.signal);
+      // Deleted or failed on the server; upload again
+      console.warn('Previous upload is no longer usable, uploading again:', error);
+      rememberUpload(audio, null);
+    }
+  }
+
+  const uploaded = await uploadResumable(audio, mimeType, options);
+  await waitUntilActive(ai, uploaded.name, options.signal);
+  rememberUpload(audio, uploaded);
+  return uploaded;
+};
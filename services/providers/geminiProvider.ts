@@ -0,0 +1,131 @@
+import { GenerateContentResponse, GoogleGenAI } from "@google/genai";
+import { ModelErrorKind, ModelUsage, ProviderId } from '../../types';
+import { AudioRequest, LLMProvider, TextRequest } from './provider';
+import { ModelError } from './errors';
+import { ensureUploaded } from './geminiFiles';
+import { throwIfAborted } from '../../utils/abort';
+import { fileToBase64 } from '../../utils/fileHelpers';
+
+// A local stand-in for the Gemini API can be used by pointing this at it
+const BASE_URL = (import.meta as any).env?.VITE_GEMINI_BASE_URL || 'https://generativelanguage.googleapis.com';
+
+// Inline requests are capped at 20 MB and base64 adds a third; anything larger goes through the Files API
+const INLINE_AUDIO_LIMIT_BYTES = 14 * 1024 * 1024;
+
+const getApiKey = (): string => {
+  // Try to get key from process.env (Node/Vite defines) or import.meta.env (Vite native)
+  const apiKey = process.env.API_KEY || (import.meta as any).env?.VITE_API_KEY;
+
+  if (!apiKey) {
+    console.error("API Key missing. Checked process.env.API_KEY and VITE_API_KEY.");
+    throw new Error("API Key not found. Please ensure it is configured in the environment (.env file).");
+  }
+  return apiKey;
+};
+
+// Helper to get the AI instance with the current API Key
+// Prioritizes process.env.API_KEY as per guidelines
+const getAI = () => new GoogleGenAI({ apiKey: getApiKey(), httpOptions: { baseUrl: BASE_URL } });
+
+// Model constants
+const AUDIO_MODEL = 'gemini-2.5-flash'; // Good for multimodal
+const TEXT_MODEL = 'gemini-2.5-flash'; // Fast and efficient for text tasks
+
+const requestConfig = (jsonSchema?: object, signal?: AbortSignal) => ({
+  ...(jsonSchema && { responseMimeType: 'application/json', responseJsonSchema: jsonSchema }),
+  abortSignal: signal,
+});
+
+/**
+ * Usage from the response's metadata; streams carry it on the last chunk. Thinking is billed as output.
+ */
+const usageOf = (model: string, response?: GenerateContentResponse): ModelUsage | null => {
+  const metadata = response?.usageMetadata;
+  if (!metadata) return null;
+  return {
+    model,
+    promptTokens: metadata.promptTokenCount || 0,
+    audioTokens: (metadata.promptTokensDetails || [])
+      .filter(detail => detail.modality === 'AUDIO')
+      .reduce((sum, detail) => sum + (detail.tokenCount || 0), 0),
+    responseTokens: (metadata.candidatesTokenCount || 0) + (metadata.thoughtsTokenCount || 0),
+    audioSeconds: 0,
+  };
+};
+
+const BLOCKED_FINISH_REASONS = ['SAFETY', 'PROHIBITED_CONTENT', 'BLOCKLIST', 'SPII', 'RECITATION'];
+
+/**
+ * Returns the response text, or explains why there is none: a blocked prompt or answer is not worth retrying,
+ * an otherwise empty answer usually is.
+ */
+const requireText = (text: string, last?: GenerateContentResponse): string => {
+  if (text.trim()) return text;
+  const blockReason = last?.promptFeedback?.blockReason;
+  const finishReason = last?.candidates?.[0]?.finishReason;
+  if (blockReason || (finishReason && BLOCKED_FINISH_REASONS.includes(finishReason))) {
+    throw new ModelError(ModelErrorKind.SAFETY, `Gemini blocked the response (${blockReason || finishReason}).`);
+  }
+  throw new ModelError(ModelErrorKind.EMPTY_RESPONSE, `Gemini returned an empty response${finishReason ? ` (${finishReason})` : ''}.`);
+};
+
+export const geminiProvider: LLMProvider = {
+  id: ProviderId.GEMINI,
+  models: { audio: AUDIO_MODEL, text: TEXT_MODEL },
+
+  transcribe: async ({ audio, mimeType, prompt, jsonSchema, signal, onUploadProgress, onUsage }: AudioRequest) => {
+    const ai = getAI();
+    let audioPart;
+    if (audio.size <= INLINE_AUDIO_LIMIT_BYTES) {
+      audioPart = { inlineData: { mimeType, data: await fileToBase64(audio) } };
+    } else {
+      const uploaded = await ensureUploaded(ai, audio, mimeType, { baseUrl: BASE_URL, apiKey: getApiKey(), signal, onProgress: onUploadProgress });
+      audioPart = { fileData: { mimeType: uploaded.mimeType, fileUri: uploaded.uri } };
+    }
+    const response = await ai.models.generateContent({
+      model: AUDIO_MODEL,
+      contents: {
+        parts: [audioPart, { text: prompt }],
+      },
+      config: requestConfig(jsonSchema, signal),
+    });
+    throwIfAborted(signal);
+    const usage = usageOf(AUDIO_MODEL, response);
+    if (usage) onUsage?.(usage);
+    return requireText(response.text || '', response);
+  },
+
+  generateText: async ({ prompt, jsonSchema, signal, onText, onUsage }: TextRequest) => {
+    const ai = getAI();
+    if (!onText) {
+      const response = await ai.models.generateContent({
+        model: TEXT_MODEL,
+        contents: prompt,
+        config: requestConfig(jsonSchema, signal),
+      });
+      throwIfAborted(signal);
+      const usage = usageOf(TEXT_MODEL, response);
+      if (usage) onUsage?.(usage);
+      return requireText(response.text || '', response);
+    }
+
+    const stream = await ai.models.generateContentStream({
+      model: TEXT_MODEL,
+      contents: prompt,
+      config: requestConfig(jsonSchema, signal),
+    });
+    let text = '';
+    let last: GenerateContentResponse | undefined;
+    let usage: ModelUsage | null = null;
+    for await (const chunk of stream) {
+      // The SDK's abort only stops new requests; stop reading an already open stream ourselves
+      throwIfAborted(signal);
+      last = chunk;
+      usage = usageOf(TEXT_MODEL, chunk) || usage;
+      text += chunk.text || '';
+      onText(text);
+    }
+    if (usage) onUsage?.(usage);
+    return requireText(text, last);
+  },
+};
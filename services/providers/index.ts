@@ -0,0 +1,57 @@
+import { ProviderId, ProviderSettings } from '../../types';
+import { LLMProvider } from './provider';
+import { geminiProvider } from './geminiProvider';
+import { createOpenAICompatibleProvider } from './openAICompatibleProvider';
+import { fakeProvider } from './fakeProvider';
+import { withRedaction } from './redactingProvider';
+import { loadRedactionSettings } from '../redaction';
+
+export type { LLMProvider, AudioRequest, TextRequest, TextTask } from './provider';
+export { ModelError, classifyError } from './errors';
+
+const STORAGE_KEY = 'meetingmind.providerSettings';
+
+export const PROVIDER_LABELS: Record<ProviderId, string> = {
+  [ProviderId.GEMINI]: 'Google Gemini',
+  [ProviderId.OPENAI_COMPATIBLE]: 'OpenAI-compatible server',
+  [ProviderId.FAKE]: 'Demo (offline, fake output)',
+};
+
+export const DEFAULT_PROVIDER_SETTINGS: ProviderSettings = {
+  providerId: ProviderId.GEMINI,
+  openAIBaseUrl: (import.meta as any).env?.VITE_OPENAI_BASE_URL || 'http://localhost:8080/v1',
+  openAIApiKey: '',
+  openAITranscriptionModel: 'whisper-1',
+  openAITextModel: 'gpt-4o-mini',
+};
+
+export const loadProviderSettings = (): ProviderSettings => {
+  try {
+    const stored = localStorage.getItem(STORAGE_KEY);
+    return stored ? { ...DEFAULT_PROVIDER_SETTINGS, ...JSON.parse(stored) } : DEFAULT_PROVIDER_SETTINGS;
+  } catch {
+    return DEFAULT_PROVIDER_SETTINGS;
+  }
+};
+
+export const saveProviderSettings = (settings: ProviderSettings) => {
+  localStorage.setItem(STORAGE_KEY, JSON.stringify(settings));
+};
+
+export const getProvider = (settings: ProviderSettings): LLMProvider => {
+  switch (settings.providerId) {
+    case ProviderId.OPENAI_COMPATIBLE:
+      return createOpenAICompatibleProvider(settings);
+    case ProviderId.FAKE:
+      return fakeProvider;
+    case ProviderId.GEMINI:
+    default:
+      return geminiProvider;
+  }
+};
+
+/**
+ * Resolves the provider from the settings saved in this browser, so a switch takes effect on the next call.
+ * Text requests are redacted as configured in the redaction settings.
+ */
+export const getActiveProvider = (): LLMProvider => withRedaction(getProvider(loadProviderSettings()), loadRedactionSettings());
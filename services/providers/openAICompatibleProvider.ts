@@ -0,0 +1,187 @@
+import { ModelErrorKind, ModelUsage, ProviderId, ProviderSettings } from '../../types';
+import { AudioRequest, LLMProvider, TextRequest } from './provider';
+import { ModelError, classifyError, kindFromStatus } from './errors';
+
+interface WhisperSegment {
+  start: number;
+  end: number;
+  text: string;
+}
+
+const trimSlash = (url: string) => url.replace(/\/+$/, '');
+
+const authHeaders = (apiKey: string): Record<string, string> =>
+  apiKey ? { Authorization: `Bearer ${apiKey}` } : {};
+
+// Chat completions report `usage` on the response, or on the last chunk of a stream that asked for it
+interface ChatUsage {
+  prompt_tokens?: number;
+  completion_tokens?: number;
+}
+
+const chatUsage = (model: string, usage: ChatUsage | null | undefined): ModelUsage | null => usage ? {
+  model,
+  promptTokens: usage.prompt_tokens || 0,
+  audioTokens: 0,
+  responseTokens: usage.completion_tokens || 0,
+  audioSeconds: 0,
+} : null;
+
+/**
+ * Reads a `stream: true` chat completion (server-sent events) and reports the text as it grows.
+ */
+const readChatStream = async (response: Response, onText: (textSoFar: string) => void): Promise<{ text: string; usage: ChatUsage | null }> => {
+  const reader = response.body!.pipeThrough(new TextDecoderStream()).getReader();
+  let buffer = '';
+  let text = '';
+  let usage: ChatUsage | null = null;
+  for (;;) {
+    const { done, value } = await reader.read();
+    if (done) break;
+    buffer += value;
+    const lines = buffer.split('\n');
+    buffer = lines.pop() || '';
+    for (const line of lines) {
+      const data = line.replace(/^data:\s*/, '').trim();
+      if (!line.startsWith('data:') || !data || data === '[DONE]') continue;
+      let chunk: any;
+      try {
+        chunk = JSON.parse(data);
+      } catch {
+        // Some proxies interleave keep-alive or partial lines; they carry no content
+        continue;
+      }
+      // Servers that fail mid-stream send the error as an event instead of a status
+      if (chunk.error) throw classifyError({ message: chunk.error.message || String(chunk.error), status: Number(chunk.error.code) || undefined });
+      usage = chunk.usage || usage;
+      const delta = chunk.choices?.[0]?.delta?.content;
+      if (delta) {
+        text += delta;
+        onText(text);
+      }
+    }
+  }
+  return { text, usage };
+};
+
+const readError = async (response: Response): Promise<string> => {
+  try {
+    const body = await response.json();
+    return body?.error?.message || response.statusText;
+  } catch {
+    return response.statusText;
+  }
+};
+
+/**
+ * Classifies a failed response by its status, falling back to the message for servers with unusual codes.
+ */
+const responseError = async (response: Response, label: string): Promise<ModelError> => {
+  const message = `${label} (${response.status}): ${await readError(response)}`;
+  const retryAfter = Number(response.headers.get('Retry-After'));
+  const kind = kindFromStatus(response.status) || classifyError(new Error(message)).kind;
+  return new ModelError(kind, message, retryAfter > 0 ? retryAfter : undefined);
+};
+
+const requireText = (text: string): string => {
+  if (!text.trim()) throw new ModelError(ModelErrorKind.EMPTY_RESPONSE, 'The text model returned an empty response.');
+  return text;
+};
+
+// A server that is down or unreachable makes fetch throw a bare TypeError
+const send = (url: string, init: RequestInit): Promise<Response> =>
+  fetch(url, init).catch(error => {
+    if (error instanceof TypeError) throw new ModelError(ModelErrorKind.NETWORK, `Could not reach ${url}: ${error.message}`);
+    throw error;
+  });
+
+/**
+ * Provider for servers exposing the OpenAI REST shape
+ * (`/audio/transcriptions` and `/chat/completions`), e.g. a local whisper.cpp / llama.cpp server.
+ */
+export const createOpenAICompatibleProvider = (settings: ProviderSettings): LLMProvider => {
+  const baseUrl = trimSlash(settings.openAIBaseUrl);
+
+  return {
+    id: ProviderId.OPENAI_COMPATIBLE,
+    models: { audio: settings.openAITranscriptionModel, text: settings.openAITextModel },
+
+    transcribe: async ({ audio, prompt, language, signal, onUsage }: AudioRequest) => {
+      const form = new FormData();
+      form.append('file', audio, 'audio');
+      // Whisper takes ISO 639-1 codes, without the region
+      if (language) form.append('language', language.split('-')[0]);
+      form.append('model', settings.openAITranscriptionModel);
+      form.append('response_format', 'verbose_json');
+      // Whisper only uses the prompt as a style/vocabulary hint, so keep it short
+      form.append('prompt', prompt.slice(0, 800));
+
+      const response = await send(`${baseUrl}/audio/transcriptions`, {
+        method: 'POST',
+        headers: authHeaders(settings.openAIApiKey),
+        body: form,
+        signal,
+      });
+      if (!response.ok) {
+        throw await responseError(response, 'Transcription server error');
+      }
+
+      const body = await response.json();
+      // Whisper is billed by duration; token-billed transcription models report their tokens
+      const tokens = body.usage?.type === 'tokens' ? body.usage : null;
+      onUsage?.({
+        model: settings.openAITranscriptionModel,
+        promptTokens: tokens?.input_tokens || 0,
+        audioTokens: tokens?.input_token_details?.audio_tokens || 0,
+        responseTokens: tokens?.output_tokens || 0,
+        audioSeconds: body.duration || (body.usage?.type === 'duration' ? body.usage.seconds : 0) || 0,
+      });
+      const segments: WhisperSegment[] = body.segments || [];
+      if (segments.length === 0 && body.text) {
+        segments.push({ start: 0, end: body.duration || 0, text: String(body.text) });
+      }
+      // Whisper does not diarize; label everything as a single speaker, the correction step may split it
+      return JSON.stringify({
+        segments: segments
+          .filter(segment => segment.text.trim())
+          .map(segment => ({ speaker: 'Speaker 1', start: segment.start, end: segment.end, text: segment.text.trim() })),
+      });
+    },
+
+    generateText: async ({ prompt, jsonSchema, signal, onText, onUsage }: TextRequest) => {
+      const response = await send(`${baseUrl}/chat/completions`, {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json', ...authHeaders(settings.openAIApiKey) },
+        body: JSON.stringify({
+          model: settings.openAITextModel,
+          messages: [{ role: 'user', content: prompt }],
+          temperature: 0.2,
+          stream: !!onText,
+          ...(onText && { stream_options: { include_usage: true } }),
+          ...(jsonSchema && {
+            response_format: { type: 'json_schema', json_schema: { name: 'response', schema: jsonSchema } },
+          }),
+        }),
+        signal,
+      });
+      if (!response.ok) {
+        throw await responseError(response, 'Text model server error');
+      }
+
+      if (onText) {
+        const { text, usage } = await readChatStream(response, onText);
+        const reported = chatUsage(settings.openAITextModel, usage);
+        if (reported) onUsage?.(reported);
+        return requireText(text);
+      }
+      const body = await response.json();
+      const reported = chatUsage(settings.openAITextModel, body.usage);
+      if (reported) onUsage?.(reported);
+      const choice = body.choices?.[0];
+      if (choice?.finish_reason === 'content_filter') {
+        throw new ModelError(ModelErrorKind.SAFETY, 'The text model\'s content filter blocked the response.');
+      }
+      return requireText(choice?.message?.content || '');
+    },
+  };
+};
@@ -0,0 +1,47 @@
+import { ModelUsage, ProviderId } from '../../types';
+
+/**
+ * Pipeline step a text request belongs to.
+ * Providers that cannot follow free-form prompts (e.g. the fake provider) use it to pick a behaviour.
+ */
+export type TextTask = 'correct' | 'minutes' | 'answer';
+
+export interface AudioRequest {
+  audio: Blob;
+  mimeType: string;
+  prompt: string;
+  // JSON schema the response must follow; providers that cannot enforce it return plain text
+  jsonSchema?: object;
+  // Language code of the speech when the user fixed it; undefined means auto-detect
+  language?: string;
+  signal?: AbortSignal;
+  // Reported while a provider that uploads audio separately sends it
+  onUploadProgress?: (sentBytes: number, totalBytes: number) => void;
+  // Receives what the call used, when the provider reports it
+  onUsage?: (usage: ModelUsage) => void;
+}
+
+export interface TextRequest {
+  task: TextTask;
+  prompt: string;
+  // The document the prompt operates on, already embedded in `prompt`
+  input: string;
+  jsonSchema?: object;
+  signal?: AbortSignal;
+  // When set, the response is streamed and this receives the text received so far after every piece
+  onText?: (textSoFar: string) => void;
+  onUsage?: (usage: ModelUsage) => void;
+}
+
+/**
+ * A backend able to run the three pipeline operations.
+ * `geminiService.ts` builds the prompts and hands them to whichever provider is active.
+ * Requests whose signal aborts reject with an `AbortError`.
+ */
+export interface LLMProvider {
+  id: ProviderId;
+  // Models the requests go to, for usage records and cost estimates
+  models: { audio: string; text: string };
+  transcribe: (request: AudioRequest) => Promise<string>;
+  generateText: (request: TextRequest) => Promise<string>;
+}
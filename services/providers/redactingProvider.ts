@@ -0,0 +1,34 @@
+import { RedactionSettings } from '../../types';
+import { createRedactor } from '../../utils/redaction';
+import { LLMProvider } from './provider';
+
+const PLACEHOLDER_NOTE = `Some values in the text below were replaced with placeholders in square brackets, such as [PHONE_1] or [CUSTOMER_2]. Treat each placeholder as the value it stands for and copy it into your output exactly as written, brackets included; never guess what it hides.
+
+`;
+
+/**
+ * Wraps a provider so sensitive values in text requests never reach it: the prompt goes out redacted
+ * and the placeholders in the response, streamed or not, are put back before anyone reads it.
+ * Audio cannot be redacted, so transcription passes through unchanged.
+ */
+export const withRedaction = (provider: LLMProvider, settings: RedactionSettings): LLMProvider => {
+  if (!settings.enabled || (settings.detectors.length === 0 && settings.rules.length === 0)) return provider;
+  return {
+    ...provider,
+    generateText: async (request) => {
+      const redactor = createRedactor(settings);
+      const prompt = redactor.redact(request.prompt);
+      const input = redactor.redact(request.input);
+      if (redactor.count() === 0) return provider.generateText(request);
+
+      const json = !!request.jsonSchema;
+      const text = await provider.generateText({
+        ...request,
+        prompt: PLACEHOLDER_NOTE + prompt,
+        input,
+        onText: request.onText && (textSoFar => request.onText!(redactor.restore(textSoFar, { json }))),
+      });
+      return redactor.restore(text, { json });
+    },
+  };
+};
@@ -0,0 +1,64 @@
+import { RECORDING_CHUNKS_STORE, withStore } from './db';
+
+interface StoredChunk {
+  sessionId: string;
+  startedAt: number;
+  mimeType: string;
+  // Recorded time up to the end of this chunk, pauses excluded
+  elapsedSeconds: number;
+  blob: Blob;
+}
+
+export interface UnfinishedRecording {
+  startedAt: number;
+  elapsedSeconds: number;
+  file: File;
+}
+
+const EXTENSIONS: Record<string, string> = {
+  'audio/webm': 'webm',
+  'audio/ogg': 'ogg',
+  'audio/mp4': 'm4a',
+};
+
+// "audio/webm;codecs=opus" → "audio/webm"
+const baseMimeType = (mimeType: string) => mimeType.split(';')[0].trim() || 'audio/webm';
+
+const pad = (n: number) => String(n).padStart(2, '0');
+
+export const recordingFileName = (startedAt: number, mimeType: string): string => {
+  const d = new Date(startedAt);
+  const stamp = `${d.getFullYear()}-${pad(d.getMonth() + 1)}-${pad(d.getDate())} ${pad(d.getHours())}-${pad(d.getMinutes())}`;
+  return `Recording ${stamp}.${EXTENSIONS[baseMimeType(mimeType)] || 'webm'}`;
+};
+
+/**
+ * Concatenated MediaRecorder chunks of one session form a playable file,
+ * since only the first chunk carries the container header.
+ */
+export const chunksToFile = (chunks: Blob[], startedAt: number, mimeType: string): File =>
+  new File(chunks, recordingFileName(startedAt, mimeType), { type: baseMimeType(mimeType) });
+
+export const appendRecordingChunk = async (chunk: StoredChunk): Promise<void> => {
+  await withStore(RECORDING_CHUNKS_STORE, 'readwrite', store => store.add(chunk));
+};
+
+/**
+ * The recording left behind by a crashed or closed tab, if any.
+ */
+export const loadUnfinishedRecording = async (): Promise<UnfinishedRecording | null> => {
+  const chunks = await withStore<StoredChunk[]>(RECORDING_CHUNKS_STORE, 'readonly', store => store.getAll());
+  if (chunks.length === 0) return null;
+  // Only one recording runs at a time; keep the latest session should an older one linger
+  const latest = chunks.reduce((a, b) => (b.startedAt > a.startedAt ? b : a));
+  const session = chunks.filter(c => c.sessionId === latest.sessionId);
+  return {
+    startedAt: latest.startedAt,
+    elapsedSeconds: Math.max(...session.map(c => c.elapsedSeconds)),
+    file: chunksToFile(session.map(c => c.blob), latest.startedAt, latest.mimeType),
+  };
+};
+
+export const clearRecording = async (): Promise<void> => {
+  await withStore(RECORDING_CHUNKS_STORE, 'readwrite', store => store.clear());
+};
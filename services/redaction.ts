@@ -0,0 +1,20 @@
+import { RedactionDetector, RedactionSettings } from '../types';
+import { DEFAULT_REDACTION_SETTINGS } from '../utils/redaction';
+
+const STORAGE_KEY = 'meetingmind.redaction';
+
+export const loadRedactionSettings = (): RedactionSettings => {
+  try {
+    const stored = localStorage.getItem(STORAGE_KEY);
+    if (!stored) return DEFAULT_REDACTION_SETTINGS;
+    const parsed = { ...DEFAULT_REDACTION_SETTINGS, ...JSON.parse(stored) };
+    // Drop detectors a later version may have removed
+    return { ...parsed, detectors: parsed.detectors.filter((d: string) => d in RedactionDetector) };
+  } catch {
+    return DEFAULT_REDACTION_SETTINGS;
+  }
+};
+
+export const saveRedactionSettings = (settings: RedactionSettings) => {
+  localStorage.setItem(STORAGE_KEY, JSON.stringify(settings));
+};
@@ -0,0 +1,114 @@
+import { DocumentRevisions, HistoryContent, HistoryDocument, MeetingHistory, MeetingMinutes, Revision, RevisionSource, TranscriptSegment } from '../types';
+import { HISTORY_STORE, withStore } from './db';
+
+const EDITOR_NAME_KEY = 'meetingmind.editorName';
+
+// Typing pauses shorter than this stay in one manual edit revision
+const MANUAL_EDIT_MERGE_MS = 3000;
+// Unnamed revisions kept per document; named snapshots do not count and are never dropped.
+// Every revision is a full copy and the history is rewritten on each save, so its size is capped
+// too: about 50 versions of an hour-long meeting's transcript.
+const MAX_REVISIONS = 200;
+const MAX_HISTORY_SIZE = 5_000_000;
+
+export const REVISION_SOURCE_LABELS: Record<RevisionSource, string> = {
+  [RevisionSource.TRANSCRIPTION]: 'Transcription',
+  [RevisionSource.AI_CORRECTION]: 'AI correction',
+  [RevisionSource.MANUAL_EDIT]: 'Manual edit',
+  [RevisionSource.MINUTES_GENERATION]: 'Minutes generated',
+  [RevisionSource.RESTORE]: 'Restored',
+  [RevisionSource.BASELINE]: 'Before history was kept',
+};
+
+const createRevisionId = (): string => Math.random().toString(36).slice(2, 10);
+
+const sizeOf = <T>(revision: Revision<T>): number => revision.size ?? JSON.stringify(revision.content ?? null).length;
+
+// Drops the oldest unnamed revisions beyond the count and size limits; the newest one always stays
+const prune = <T>(revisions: Revision<T>[]): Revision<T>[] => {
+  const kept = new Set<string>();
+  let size = 0;
+  for (const revision of [...revisions].reverse()) {
+    if (!revision.name) {
+      size += sizeOf(revision);
+      if (kept.size && (kept.size >= MAX_REVISIONS || size > MAX_HISTORY_SIZE)) continue;
+    }
+    kept.add(revision.id);
+  }
+  return kept.size === revisions.length ? revisions : revisions.filter(revision => kept.has(revision.id));
+};
+
+export const emptyHistory = (meetingId = ''): MeetingHistory => ({ meetingId, transcript: [], minutes: [] });
+
+/**
+ * Appends a revision. A manual edit right after another by the same person updates that one
+ * instead, so a typing burst is one step; `merge: false` forces a new revision, e.g. after an undo.
+ */
+export const addRevision = <T>(
+  revisions: Revision<T>[],
+  content: T,
+  source: RevisionSource,
+  author: string,
+  { name, merge = true }: { name?: string; merge?: boolean } = {}
+): Revision<T>[] => {
+  const now = Date.now();
+  const last = revisions[revisions.length - 1];
+  if (
+    merge && !name && last && !last.name &&
+    source === RevisionSource.MANUAL_EDIT && last.source === source && last.author === author &&
+    now - last.createdAt < MANUAL_EDIT_MERGE_MS
+  ) {
+    return prune([...revisions.slice(0, -1), { ...last, createdAt: now, content, size: JSON.stringify(content ?? null).length }]);
+  }
+
+  const size = JSON.stringify(content ?? null).length;
+  return prune([...revisions, { id: createRevisionId(), createdAt: now, source, author, content, size, ...(name && { name }) }]);
+};
+
+/**
+ * Replaces one document's revisions, keeping the types of the two documents apart.
+ */
+export const updateRevisions = <D extends HistoryDocument>(
+  history: MeetingHistory,
+  document: D,
+  update: (revisions: Revision<HistoryContent[D]>[]) => Revision<HistoryContent[D]>[]
+): MeetingHistory => {
+  const revisions: DocumentRevisions = history;
+  return { ...history, [document]: update(revisions[document]) };
+};
+
+/**
+ * Names an existing revision, turning it into a snapshot.
+ */
+export const nameRevision = <T>(revisions: Revision<T>[], id: string, name: string): Revision<T>[] =>
+  revisions.map(revision => (revision.id === id ? { ...revision, name } : revision));
+
+/**
+ * Seeds the history of a meeting saved before history was kept with its current documents.
+ */
+export const withBaseline = (
+  history: MeetingHistory,
+  transcript: TranscriptSegment[],
+  minutes: MeetingMinutes | null
+): MeetingHistory => ({
+  ...history,
+  transcript: history.transcript.length || !transcript.length
+    ? history.transcript
+    : addRevision([], transcript, RevisionSource.BASELINE, ''),
+  minutes: history.minutes.length || !minutes
+    ? history.minutes
+    : addRevision([], minutes, RevisionSource.BASELINE, ''),
+});
+
+export const loadHistory = async (meetingId: string): Promise<MeetingHistory> =>
+  (await withStore<MeetingHistory | undefined>(HISTORY_STORE, 'readonly', store => store.get(meetingId))) || emptyHistory(meetingId);
+
+export const saveHistory = async (history: MeetingHistory): Promise<void> => {
+  await withStore(HISTORY_STORE, 'readwrite', store => store.put(history));
+};
+
+export const loadEditorName = (): string => localStorage.getItem(EDITOR_NAME_KEY) || '';
+
+export const saveEditorName = (name: string) => {
+  localStorage.setItem(EDITOR_NAME_KEY, name);
+};
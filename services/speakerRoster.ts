@@ -0,0 +1,34 @@
+import { SpeakerProfile } from '../types';
+
+const STORAGE_KEY = 'meetingmind.speakerRoster';
+
+/**
+ * People identified in earlier meetings, kept in this browser so regular attendees are offered again.
+ */
+export const loadKnownSpeakers = (): SpeakerProfile[] => {
+  try {
+    const stored = localStorage.getItem(STORAGE_KEY);
+    return stored ? JSON.parse(stored) : [];
+  } catch {
+    return [];
+  }
+};
+
+/**
+ * Adds or updates a person in the saved roster (matched by name) and returns the new roster.
+ */
+export const rememberSpeaker = (profile: SpeakerProfile): SpeakerProfile[] => {
+  const roster = loadKnownSpeakers().filter(p => p.name !== profile.name);
+  const updated = [...roster, profile].sort((a, b) => a.name.localeCompare(b.name));
+  localStorage.setItem(STORAGE_KEY, JSON.stringify(updated));
+  return updated;
+};
+
+/**
+ * Removes a person from the saved roster and returns the new roster. Meetings they were named in keep the name.
+ */
+export const forgetSpeaker = (name: string): SpeakerProfile[] => {
+  const updated = loadKnownSpeakers().filter(p => p.name !== name);
+  localStorage.setItem(STORAGE_KEY, JSON.stringify(updated));
+  return updated;
+};
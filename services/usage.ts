@@ -0,0 +1,155 @@
+import { BudgetMode, BudgetSettings, ModelErrorKind, ModelPrice, ModelUsage, ProviderId, UsageRecord, UsageStep } from '../types';
+import { USAGE_STORE, withStore } from './db';
+import { ModelError, getActiveProvider } from './providers';
+import { createAbortError } from '../utils/abort';
+
+const PRICES_KEY = 'meetingmind.prices';
+const BUDGET_KEY = 'meetingmind.budget';
+
+// Gemini bills audio at 32 tokens per second
+const AUDIO_TOKENS_PER_SECOND = 32;
+// A transcript in the JSON response shape runs to about this many tokens per second of speech
+const TRANSCRIPT_TOKENS_PER_SECOND = 8;
+// Instructions, glossary and attendees around the audio or transcript
+const PROMPT_OVERHEAD_TOKENS = 1500;
+
+export const USAGE_STEP_LABELS: Record<UsageStep, string> = {
+  transcription: 'Transcription',
+  correction: 'Correction',
+  minutes: 'Minutes',
+  section: 'Section regeneration',
+  answer: 'Questions',
+};
+
+// List prices at the time of writing; they change, so the table is editable on the Usage page
+export const DEFAULT_PRICES: ModelPrice[] = [
+  { model: 'gemini-2.5-flash', inputPerMillion: 0.3, audioInputPerMillion: 1, outputPerMillion: 2.5, perAudioMinute: 0 },
+  { model: 'gemini-2.5-flash-lite', inputPerMillion: 0.1, audioInputPerMillion: 0.3, outputPerMillion: 0.4, perAudioMinute: 0 },
+  { model: 'gemini-2.5-pro', inputPerMillion: 1.25, audioInputPerMillion: 1.25, outputPerMillion: 10, perAudioMinute: 0 },
+  { model: 'gpt-4o-mini', inputPerMillion: 0.15, audioInputPerMillion: 0.15, outputPerMillion: 0.6, perAudioMinute: 0 },
+  { model: 'whisper-1', inputPerMillion: 0, audioInputPerMillion: 0, outputPerMillion: 0, perAudioMinute: 0.006 },
+  { model: 'demo', inputPerMillion: 0, audioInputPerMillion: 0, outputPerMillion: 0, perAudioMinute: 0 },
+];
+
+export const DEFAULT_BUDGET: BudgetSettings = { monthlyLimit: 0, mode: BudgetMode.WARN };
+
+export const loadPrices = (): ModelPrice[] => {
+  try {
+    const stored = localStorage.getItem(PRICES_KEY);
+    return stored ? JSON.parse(stored) : DEFAULT_PRICES;
+  } catch {
+    return DEFAULT_PRICES;
+  }
+};
+
+export const savePrices = (prices: ModelPrice[]) => {
+  localStorage.setItem(PRICES_KEY, JSON.stringify(prices));
+};
+
+export const loadBudget = (): BudgetSettings => {
+  try {
+    const stored = localStorage.getItem(BUDGET_KEY);
+    return stored ? { ...DEFAULT_BUDGET, ...JSON.parse(stored) } : DEFAULT_BUDGET;
+  } catch {
+    return DEFAULT_BUDGET;
+  }
+};
+
+export const saveBudget = (budget: BudgetSettings) => {
+  localStorage.setItem(BUDGET_KEY, JSON.stringify(budget));
+};
+
+const createUsageId = (): string => Math.random().toString(36).slice(2, 10);
+
+export const recordUsage = async (usage: ModelUsage, step: UsageStep, meetingId: string, providerId: ProviderId): Promise<void> => {
+  const record: UsageRecord = { ...usage, id: createUsageId(), at: Date.now(), step, meetingId, providerId };
+  await withStore(USAGE_STORE, 'readwrite', store => store.put(record));
+};
+
+export const listUsage = async (): Promise<UsageRecord[]> =>
+  (await withStore<UsageRecord[]>(USAGE_STORE, 'readonly', store => store.getAll())).sort((a, b) => a.at - b.at);
+
+/**
+ * Calendar month of a timestamp in local time, e.g. "2025-03".
+ */
+export const monthOf = (at: number): string => {
+  const date = new Date(at);
+  return `${date.getFullYear()}-${String(date.getMonth() + 1).padStart(2, '0')}`;
+};
+
+const priceFor = (model: string, prices: ModelPrice[]): ModelPrice | undefined =>
+  prices
+    .filter(price => price.model && model.toLowerCase().startsWith(price.model.toLowerCase()))
+    .sort((a, b) => b.model.length - a.model.length)[0];
+
+/**
+ * Estimated cost in US dollars, or null when the price table has no entry for the model.
+ */
+export const costOf = (usage: ModelUsage, prices: ModelPrice[]): number | null => {
+  const price = priceFor(usage.model, prices);
+  if (!price) return null;
+  return (
+    (usage.promptTokens - usage.audioTokens) * price.inputPerMillion +
+    usage.audioTokens * price.audioInputPerMillion +
+    usage.responseTokens * price.outputPerMillion
+  ) / 1e6 + (usage.audioSeconds / 60) * price.perAudioMinute;
+};
+
+export const totalCost = (records: ModelUsage[], prices: ModelPrice[]): number =>
+  records.reduce((sum, record) => sum + (costOf(record, prices) || 0), 0);
+
+export const formatCost = (usd: number): string => `$${usd < 1 ? usd.toFixed(4) : usd.toFixed(2)}`;
+
+/**
+ * What transcribing and correcting a recording of this length will roughly use on the active provider.
+ */
+export const estimateTranscriptionUsage = (audioSeconds: number): ModelUsage[] => {
+  const { models } = getActiveProvider();
+  const transcriptTokens = Math.round(audioSeconds * TRANSCRIPT_TOKENS_PER_SECOND);
+  const audioTokens = Math.round(audioSeconds * AUDIO_TOKENS_PER_SECOND);
+  return [
+    { model: models.audio, promptTokens: audioTokens + PROMPT_OVERHEAD_TOKENS, audioTokens, responseTokens: transcriptTokens, audioSeconds },
+    { model: models.text, promptTokens: transcriptTokens + PROMPT_OVERHEAD_TOKENS, audioTokens: 0, responseTokens: transcriptTokens, audioSeconds: 0 },
+  ];
+};
+
+export interface BudgetCheck {
+  limit: number;
+  mode: BudgetMode;
+  spent: number;
+  estimate: number;
+}
+
+/**
+ * Compares this month's spend plus the estimate for a recording against the budget. Resolves to
+ * null when there is no cap or it is not reached; `audioSeconds` is null when the length is unknown.
+ */
+export const checkBudget = async (audioSeconds: number | null): Promise<BudgetCheck | null> => {
+  const budget = loadBudget();
+  if (!budget.monthlyLimit) return null;
+  const prices = loadPrices();
+  const month = monthOf(Date.now());
+  const spent = totalCost((await listUsage()).filter(record => monthOf(record.at) === month), prices);
+  const estimate = audioSeconds ? totalCost(estimateTranscriptionUsage(audioSeconds), prices) : 0;
+  return spent + estimate > budget.monthlyLimit ? { limit: budget.monthlyLimit, mode: budget.mode, spent, estimate } : null;
+};
+
+export const budgetMessage = ({ limit, spent, estimate }: BudgetCheck): string =>
+  `${estimate ? `This recording is estimated at ${formatCost(estimate)}. With` : 'With'} ${formatCost(spent)} already spent this month, ` +
+  `that is over the monthly budget of ${formatCost(limit)}.`;
+
+/**
+ * Runs the budget check before a transcription. Over a blocking cap it throws a budget error; over a
+ * warning cap it asks `confirm`, and declining cancels the run. Without `confirm`, warnings are only logged.
+ */
+export const enforceBudget = async (audioSeconds: number | null, confirm?: (message: string) => Promise<boolean>): Promise<void> => {
+  const check = await checkBudget(audioSeconds);
+  if (!check) return;
+  const message = budgetMessage(check);
+  if (check.mode === BudgetMode.BLOCK) throw new ModelError(ModelErrorKind.BUDGET, message);
+  if (!confirm) {
+    console.warn(message);
+  } else if (!(await confirm(message))) {
+    throw createAbortError();
+  }
+};
@@ -3,6 +3,10 @@ export enum AppStep {
   UPLOAD = 'UPLOAD',
   TRANSCRIBE = 'TRANSCRIBE',
   MINUTES = 'MINUTES',
+  LIBRARY = 'LIBRARY',
+  BATCH = 'BATCH',
+  ACTIONS = 'ACTIONS',
+  USAGE = 'USAGE',
 }
 
 export enum ProcessingStatus {
@@ -12,17 +16,404 @@ export enum ProcessingStatus {
   ERROR = 'ERROR',
 }
 
+export interface GlossaryFix {
+  from: string;
+  to: string;
+}
+
+export interface TranscriptSegment {
+  id: string;
+  speaker: string;
+  // Seconds from the start of the recording; unknown for transcripts parsed from plain text
+  start?: number;
+  end?: number;
+  text: string;
+  // The utterance as spoken, kept next to its translation in `text` in bilingual mode
+  original?: string;
+  // Replacements made by the glossary pass, so reviewers can double-check them
+  glossaryFixes?: GlossaryFix[];
+}
+
+export interface SpeakerProfile {
+  name: string;
+  role: string;
+}
+
+// A person identified in a meeting, and the label their lines carry in the transcript
+export interface IdentifiedSpeaker extends SpeakerProfile {
+  label: string;
+}
+
+export enum GlossaryCategory {
+  PART_NUMBER = 'PART_NUMBER',
+  MACHINE = 'MACHINE',
+  CUSTOMER = 'CUSTOMER',
+  JARGON = 'JARGON',
+  OTHER = 'OTHER',
+}
+
+export interface GlossaryTerm {
+  id: string;
+  // The term as people say or know it
+  term: string;
+  // How it must be written in transcripts; empty means `term` itself
+  preferred: string;
+  // Spellings the model is known to produce instead
+  misrecognitions: string[];
+  category: GlossaryCategory;
+}
+
+export enum RedactionDetector {
+  PHONE = 'PHONE',
+  EMAIL = 'EMAIL',
+  TW_ID = 'TW_ID',
+  CURRENCY = 'CURRENCY',
+}
+
+export enum RedactionRuleKind {
+  REGEX = 'REGEX',
+  DICTIONARY = 'DICTIONARY',
+}
+
+export interface RedactionRule {
+  id: string;
+  // Name used in the placeholders, e.g. CUSTOMER gives [CUSTOMER_1]
+  label: string;
+  kind: RedactionRuleKind;
+  // Regular expression source, for REGEX rules
+  pattern: string;
+  // Words and names to hide, for DICTIONARY rules
+  terms: string[];
+}
+
+export interface RedactionSettings {
+  // Redact text before every model call; redacted exports work either way
+  enabled: boolean;
+  detectors: RedactionDetector[];
+  rules: RedactionRule[];
+}
+
+// Context for transcription: names and terms to recognise, and the languages to expect and write
+export interface TranscriptionHints {
+  knownSpeakers: SpeakerProfile[];
+  glossary: GlossaryTerm[];
+  language: LanguageSettings;
+}
+
+/**
+ * Per-meeting language choices. Values are language codes from `services/languages.ts`;
+ * an empty string means "auto-detect" for the source and "same as the step before" for the outputs.
+ */
+export interface LanguageSettings {
+  sourceLanguage: string;
+  transcriptLanguage: string;
+  minutesLanguage: string;
+  // Keep each utterance in the spoken language next to its translation
+  bilingual: boolean;
+}
+
+export enum ActionItemPriority {
+  LOW = 'LOW',
+  MEDIUM = 'MEDIUM',
+  HIGH = 'HIGH',
+}
+
+export enum ActionItemStatus {
+  OPEN = 'OPEN',
+  IN_PROGRESS = 'IN_PROGRESS',
+  DONE = 'DONE',
+}
+
+export interface ActionItem {
+  id: string;
+  task: string;
+  owner: string;
+  // ISO date (YYYY-MM-DD), empty when no due date was mentioned
+  dueDate: string;
+  priority: ActionItemPriority;
+  status: ActionItemStatus;
+  // Production line the item concerns, e.g. "Line 3"; empty when none was named
+  productionLine: string;
+  // Transcript segment where the item was assigned, when the model could point to it
+  sourceSegmentId?: string;
+}
+
+// An action item from a saved meeting, as collected by the tracker
+export interface TrackedActionItem {
+  item: ActionItem;
+  meetingId: string;
+  meetingTitle: string;
+  meetingDate: number;
+}
+
+// Progress a later meeting reported on an open item from an earlier one
+export interface ActionItemFollowUp {
+  meetingId: string;
+  itemId: string;
+  task: string;
+  status: ActionItemStatus;
+  note: string;
+  // The item's status before the user applied this follow-up, for reverting it; unset while only proposed
+  previousStatus?: ActionItemStatus;
+}
+
+export enum SectionFormat {
+  PARAGRAPH = 'PARAGRAPH',
+  BULLETS = 'BULLETS',
+}
+
+export interface MinutesTemplateSection {
+  id: string;
+  title: string;
+  // What the model should extract into this section
+  instructions: string;
+  format: SectionFormat;
+}
+
+export interface MinutesTemplate {
+  id: string;
+  name: string;
+  description: string;
+  // Meeting-wide guidance added to the minutes prompt
+  instructions: string;
+  sections: MinutesTemplateSection[];
+  builtIn: boolean;
+}
+
+// A template section as filled in for one meeting
+export interface MinutesSection {
+  id: string;
+  title: string;
+  format: SectionFormat;
+  items: string[];
+}
+
+export interface MeetingMinutes {
+  templateId: string;
+  title: string;
+  summary: string;
+  sections: MinutesSection[];
+  attendees: string[];
+  discussionPoints: string[];
+  decisions: string[];
+  actionItems: ActionItem[];
+  followUps: ActionItemFollowUp[];
+}
+
+// A question asked about one meeting, answered from its transcript only
+export interface MeetingQuestion {
+  id: string;
+  question: string;
+  answer: string;
+  // False when the transcript does not contain the answer
+  found: boolean;
+  // Ids of the transcript segments the answer relies on
+  citations: string[];
+  askedAt: number;
+}
+
 export interface MeetingData {
   fileName: string;
   fileType: string;
-  transcript: string;
-  minutes: string;
+  // When the recording was made, taken from the file; meetings saved before it was kept use their save date
+  recordedAt?: number;
+  transcript: TranscriptSegment[];
+  // The transcript as the model first produced it, before correction and edits; empty for older meetings
+  rawTranscript: TranscriptSegment[];
+  // Keys of the changes against `rawTranscript` a reviewer accepted (see utils/transcriptReview.ts)
+  acceptedChanges: string[];
+  minutes: MeetingMinutes | null;
+  speakers: IdentifiedSpeaker[];
+  language: LanguageSettings;
+  questions: MeetingQuestion[];
+}
+
+export enum RevisionSource {
+  TRANSCRIPTION = 'TRANSCRIPTION',
+  AI_CORRECTION = 'AI_CORRECTION',
+  MANUAL_EDIT = 'MANUAL_EDIT',
+  MINUTES_GENERATION = 'MINUTES_GENERATION',
+  RESTORE = 'RESTORE',
+  // What a meeting saved before history was kept looked like when first opened
+  BASELINE = 'BASELINE',
+}
+
+// One version of the transcript or the minutes
+export interface Revision<T> {
+  id: string;
+  createdAt: number;
+  source: RevisionSource;
+  // Who made a manual edit or restore, from the editor name setting; empty for automatic steps
+  author: string;
+  // Set for named snapshots, which are never pruned
+  name?: string;
+  content: T;
+  // Length of the content as JSON, for pruning the history by size; missing on older revisions
+  size?: number;
+}
+
+export type HistoryDocument = 'transcript' | 'minutes';
+
+// What a revision of each document holds, the same as the meeting's field of that name
+export type HistoryContent = Pick<MeetingData, HistoryDocument>;
+
+// Each document's versions, oldest first
+export type DocumentRevisions = { [D in HistoryDocument]: Revision<HistoryContent[D]>[] };
+
+export interface MeetingHistory extends DocumentRevisions {
+  meetingId: string;
+}
+
+export enum ProviderId {
+  GEMINI = 'GEMINI',
+  OPENAI_COMPATIBLE = 'OPENAI_COMPATIBLE',
+  FAKE = 'FAKE',
+}
+
+// Tokens and audio one model call used, as the provider reported them
+export interface ModelUsage {
+  model: string;
+  // All input tokens, audio included
+  promptTokens: number;
+  // The part of `promptTokens` that was audio, for models that price it separately
+  audioTokens: number;
+  // Output tokens, thinking included
+  responseTokens: number;
+  audioSeconds: number;
+}
+
+export type UsageStep = 'transcription' | 'correction' | 'minutes' | 'section' | 'answer';
+
+export interface UsageRecord extends ModelUsage {
+  id: string;
+  at: number;
+  // Empty when the call was not made for a saved meeting
+  meetingId: string;
+  step: UsageStep;
+  providerId: ProviderId;
+}
+
+// Prices in US dollars; a model matches the entry with the longest name it starts with
+export interface ModelPrice {
+  model: string;
+  inputPerMillion: number;
+  audioInputPerMillion: number;
+  outputPerMillion: number;
+  // For speech-to-text APIs billed by the minute, e.g. Whisper
+  perAudioMinute: number;
+}
+
+export enum BudgetMode {
+  WARN = 'WARN',
+  BLOCK = 'BLOCK',
+}
+
+export interface BudgetSettings {
+  // Estimated spend per calendar month in US dollars; 0 means no cap
+  monthlyLimit: number;
+  mode: BudgetMode;
+}
+
+// A processed meeting as stored in the local library. The audio blob lives in its own store.
+export interface MeetingRecord {
+  id: string;
+  title: string;
+  createdAt: number;
+  updatedAt: number;
+  hasAudio: boolean;
+  data: MeetingData;
+}
+
+export interface ProviderSettings {
+  providerId: ProviderId;
+  // Only used by the OpenAI-compatible provider
+  openAIBaseUrl: string;
+  openAIApiKey: string;
+  openAITranscriptionModel: string;
+  openAITextModel: string;
+}
+
+export enum ExportFormat {
+  DOCX = 'DOCX',
+  PDF = 'PDF',
+  HTML = 'HTML',
+  MARKDOWN = 'MARKDOWN',
+  TXT = 'TXT',
+  SRT = 'SRT',
+  VTT = 'VTT',
+  JSON = 'JSON',
+}
+
+/**
+ * Company header printed on exported minutes.
+ */
+export interface ExportHeader {
+  companyName: string;
+  department: string;
+  // Document control number required by the quality system, e.g. "QR-7.5-03"
+  documentNumber: string;
+}
+
+export enum ChunkStatus {
+  PENDING = 'PENDING',
+  RUNNING = 'RUNNING',
+  DONE = 'DONE',
+  ERROR = 'ERROR',
+}
+
+export enum BatchJobStatus {
+  QUEUED = 'QUEUED',
+  RUNNING = 'RUNNING',
+  DONE = 'DONE',
+  ERROR = 'ERROR',
+  CANCELLED = 'CANCELLED',
+}
+
+// One recording in the batch queue, with the choices it was queued with
+export interface BatchJob {
+  id: string;
+  fileName: string;
+  createdAt: number;
+  // Dropped once the meeting is saved, the library keeps its own copy
+  audio?: Blob;
+  status: BatchJobStatus;
+  // 0..1
+  progress: number;
+  message: string;
+  error?: string;
+  errorKind?: ModelErrorKind;
+  // Something the job went ahead despite, e.g. a budget over its warning cap
+  warning?: string;
+  autoMinutes: boolean;
+  templateId: string;
+  language: LanguageSettings;
+  // The library meeting the job writes to
+  meetingId: string;
+  // Set once the transcript is in the library; a retry then only redoes the minutes
+  meetingSaved: boolean;
+}
+
+export enum ModelErrorKind {
+  AUTH = 'AUTH',
+  RATE_LIMIT = 'RATE_LIMIT',
+  SAFETY = 'SAFETY',
+  PAYLOAD_TOO_LARGE = 'PAYLOAD_TOO_LARGE',
+  NETWORK = 'NETWORK',
+  SERVER = 'SERVER',
+  EMPTY_RESPONSE = 'EMPTY_RESPONSE',
+  BUDGET = 'BUDGET',
+  UNKNOWN = 'UNKNOWN',
 }
 
 export interface ProcessingState {
   status: ProcessingStatus;
   message: string;
   error?: string;
+  errorKind?: ModelErrorKind;
+  // How long the provider asked us to wait, for rate limit errors
+  retryAfterSeconds?: number;
+  // Per-chunk status while a long recording is transcribed in pieces
+  chunks?: ChunkStatus[];
 }
 
 // Extend the Window interface to include aistudio
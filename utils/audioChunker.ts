@@ -0,0 +1,86 @@
+export interface AudioChunk {
+  index: number;
+  startSec: number;
+  endSec: number;
+  blob: Blob;
+}
+
+export interface DecodedAudio {
+  samples: Float32Array;
+  sampleRate: number;
+}
+
+// Speech models work at 16 kHz; decoding straight to it keeps long meetings within browser memory
+export const TARGET_SAMPLE_RATE = 16000;
+
+/**
+ * Decodes an audio file into mono PCM at 16 kHz.
+ */
+export const decodeToMono = async (file: Blob): Promise<DecodedAudio> => {
+  const arrayBuffer = await file.arrayBuffer();
+  const context = new OfflineAudioContext(1, 1, TARGET_SAMPLE_RATE);
+  const buffer = await context.decodeAudioData(arrayBuffer);
+
+  const samples = new Float32Array(buffer.length);
+  for (let channel = 0; channel < buffer.numberOfChannels; channel++) {
+    const data = buffer.getChannelData(channel);
+    for (let i = 0; i < data.length; i++) {
+      samples[i] += data[i] / buffer.numberOfChannels;
+    }
+  }
+  return { samples, sampleRate: buffer.sampleRate };
+};
+
+/**
+ * Encodes mono float samples as a 16-bit PCM WAV blob.
+ */
+export const encodeWav = (samples: Float32Array, sampleRate: number): Blob => {
+  const buffer = new ArrayBuffer(44 + samples.length * 2);
+  const view = new DataView(buffer);
+  const writeString = (offset: number, value: string) => {
+    for (let i = 0; i < value.length; i++) view.setUint8(offset + i, value.charCodeAt(i));
+  };
+
+  writeString(0, 'RIFF');
+  view.setUint32(4, 36 + samples.length * 2, true);
+  writeString(8, 'WAVE');
+  writeString(12, 'fmt ');
+  view.setUint32(16, 16, true);
+  view.setUint16(20, 1, true); // PCM
+  view.setUint16(22, 1, true); // mono
+  view.setUint32(24, sampleRate, true);
+  view.setUint32(28, sampleRate * 2, true);
+  view.setUint16(32, 2, true);
+  view.setUint16(34, 16, true);
+  writeString(36, 'data');
+  view.setUint32(40, samples.length * 2, true);
+
+  for (let i = 0; i < samples.length; i++) {
+    const s = Math.max(-1, Math.min(1, samples[i]));
+    view.setInt16(44 + i * 2, s < 0 ? s * 0x8000 : s * 0x7fff, true);
+  }
+  return new Blob([buffer], { type: 'audio/wav' });
+};
+
+/**
+ * Splits decoded audio into fixed-length WAV chunks. Consecutive chunks share `overlapSec`
+ * seconds so a sentence cut at a boundary appears whole in at least one of them.
+ */
+export const splitIntoChunks = (
+  samples: Float32Array,
+  sampleRate: number,
+  chunkSec: number,
+  overlapSec: number
+): AudioChunk[] => {
+  const durationSec = samples.length / sampleRate;
+  const stepSec = chunkSec - overlapSec;
+  const chunks: AudioChunk[] = [];
+
+  for (let startSec = 0, index = 0; startSec < durationSec; startSec += stepSec, index++) {
+    const endSec = Math.min(startSec + chunkSec, durationSec);
+    const slice = samples.subarray(Math.floor(startSec * sampleRate), Math.floor(endSec * sampleRate));
+    chunks.push({ index, startSec, endSec, blob: encodeWav(slice, sampleRate) });
+    if (endSec >= durationSec) break;
+  }
+  return chunks;
+};
@@ -0,0 +1,68 @@
+export type DiffPart =
+  | { type: 'equal'; text: string }
+  | { type: 'change'; removed: string; added: string };
+
+// CJK and Thai are written without spaces, so each character counts as a word there
+const TOKEN = /[\p{Script=Han}\p{Script=Hiragana}\p{Script=Katakana}\p{Script=Thai}]|[\p{L}\p{N}\p{M}_'’-]+|\s+|[^\s]/gu;
+
+// Past this many table cells the whole text is reported as one change instead
+const MAX_TABLE_CELLS = 4_000_000;
+
+export const tokenizeWords = (text: string): string[] => text.match(TOKEN) || [];
+
+/**
+ * Word-level diff of two texts, as runs of unchanged text and changes (a removal, an addition or both).
+ * Uses a longest-common-subsequence table, which is plenty for transcript lines.
+ */
+export const diffWords = (before: string, after: string): DiffPart[] => {
+  if (before === after) return before ? [{ type: 'equal', text: before }] : [];
+  const a = tokenizeWords(before);
+  const b = tokenizeWords(after);
+  if ((a.length + 1) * (b.length + 1) > MAX_TABLE_CELLS) return [{ type: 'change', removed: before, added: after }];
+
+  // lcs[i][j]: length of the common subsequence of a[i..] and b[j..]
+  const width = b.length + 1;
+  const lcs = new Uint32Array((a.length + 1) * width);
+  for (let i = a.length - 1; i >= 0; i--) {
+    for (let j = b.length - 1; j >= 0; j--) {
+      lcs[i * width + j] = a[i] === b[j]
+        ? lcs[(i + 1) * width + j + 1] + 1
+        : Math.max(lcs[(i + 1) * width + j], lcs[i * width + j + 1]);
+    }
+  }
+
+  const parts: DiffPart[] = [];
+  const push = (type: 'equal' | 'removed' | 'added', token: string) => {
+    const last = parts[parts.length - 1];
+    if (type === 'equal') {
+      if (last?.type === 'equal') last.text += token; else parts.push({ type: 'equal', text: token });
+      return;
+    }
+    if (last?.type === 'change') {
+      last[type] += token;
+    } else {
+      parts.push({ type: 'change', removed: '', added: '', [type]: token });
+    }
+  };
+
+  let i = 0;
+  let j = 0;
+  while (i < a.length || j < b.length) {
+    if (i < a.length && j < b.length && a[i] === b[j]) {
+      push('equal', a[i]);
+      i++;
+      j++;
+    } else if (j < b.length && (i === a.length || lcs[i * width + j + 1] >= lcs[(i + 1) * width + j])) {
+      push('added', b[j++]);
+    } else {
+      push('removed', a[i++]);
+    }
+  }
+  return parts;
+};
+
+/**
+ * Rebuilds a text from its diff parts, taking the old side of the changes `revert` picks.
+ */
+export const applyDiff = (parts: DiffPart[], revert: (index: number) => boolean): string =>
+  parts.map((part, index) => (part.type === 'equal' ? part.text : revert(index) ? part.removed : part.added)).join('');
@@ -0,0 +1,56 @@
+import { GlossaryFix, GlossaryTerm, TranscriptSegment } from '../types';
+
+export const preferredSpelling = (term: GlossaryTerm): string => term.preferred.trim() || term.term.trim();
+
+const escapeRegExp = (value: string) => value.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+
+// Latin words need word boundaries ("CNC 7" must not match inside "CNC 70"); CJK text has none
+const buildPattern = (misrecognition: string): RegExp => {
+  const escaped = escapeRegExp(misrecognition);
+  const startsAlnum = /^[A-Za-z0-9]/.test(misrecognition);
+  const endsAlnum = /[A-Za-z0-9]$/.test(misrecognition);
+  return new RegExp(`${startsAlnum ? '(?<![A-Za-z0-9])' : ''}${escaped}${endsAlnum ? '(?![A-Za-z0-9])' : ''}`, 'gi');
+};
+
+/**
+ * Vocabulary hint for prompts: one line per term with its preferred spelling, how it is said and
+ * the misrecognitions to avoid.
+ */
+export const buildGlossaryHint = (terms: GlossaryTerm[]): string => {
+  if (terms.length === 0) return '';
+  return terms
+    .map(term => {
+      const preferred = preferredSpelling(term);
+      const alias = term.term.trim() !== preferred ? ` (said as "${term.term.trim()}")` : '';
+      const wrong = term.misrecognitions.length ? `; NOT ${term.misrecognitions.map(m => `"${m}"`).join(', ')}` : '';
+      return `- ${preferred}${alias}${wrong}`;
+    })
+    .join('\n');
+};
+
+/**
+ * Deterministically replaces known misrecognitions with the preferred spelling.
+ * Changed segments carry the replacements in `glossaryFixes`.
+ */
+export const applyGlossary = (segments: TranscriptSegment[], terms: GlossaryTerm[]): TranscriptSegment[] => {
+  const rules = terms.flatMap(term =>
+    term.misrecognitions
+      .filter(m => m.trim() && m.trim() !== preferredSpelling(term))
+      .map(m => ({ pattern: buildPattern(m.trim()), to: preferredSpelling(term) }))
+  );
+  // Longer misrecognitions first, so "CNC 0 7" is not half-fixed by a rule for "CNC 0"
+  rules.sort((a, b) => b.pattern.source.length - a.pattern.source.length);
+  if (rules.length === 0) return segments;
+
+  return segments.map(segment => {
+    let text = segment.text;
+    const fixes: GlossaryFix[] = [];
+    rules.forEach(({ pattern, to }) => {
+      text = text.replace(pattern, match => {
+        fixes.push({ from: match, to });
+        return to;
+      });
+    });
+    return fixes.length ? { ...segment, text, glossaryFixes: [...(segment.glossaryFixes || []), ...fixes] } : segment;
+  });
+};
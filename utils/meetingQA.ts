@@ -0,0 +1,51 @@
+import { MeetingQuestion, TranscriptSegment } from '../types';
+import { formatTimestamp } from './transcript';
+import { stripCodeFence } from './partialJson';
+
+export type MeetingAnswer = Pick<MeetingQuestion, 'answer' | 'found' | 'citations'>;
+
+/**
+ * The transcript as the model sees it for questions: one numbered line per segment, so answers
+ * can cite lines by number. Numbers start at 1.
+ */
+export const numberTranscriptLines = (segments: TranscriptSegment[]): string =>
+  segments
+    .map((s, i) => `[${i + 1}] ${s.start !== undefined ? `(${formatTimestamp(s.start)}) ` : ''}${s.speaker}: ${s.text}`)
+    .join('\n');
+
+/**
+ * JSON schema for answers to questions about a meeting.
+ */
+export const ANSWER_SCHEMA = {
+  type: 'object',
+  properties: {
+    found: { type: 'boolean', description: 'Whether the transcript contains the answer' },
+    answer: { type: 'string', description: 'The answer, or a short statement that the transcript does not say' },
+    lines: { type: 'array', items: { type: 'integer' }, description: 'Numbers of the transcript lines the answer relies on' },
+  },
+  required: ['found', 'answer', 'lines'],
+};
+
+/**
+ * Maps the cited line numbers back to segment ids. An answer that cites no existing line is not
+ * grounded in the transcript and counts as not found.
+ */
+export const parseAnswerResponse = (text: string, segments: TranscriptSegment[]): MeetingAnswer => {
+  let parsed: any;
+  try {
+    parsed = JSON.parse(stripCodeFence(text));
+  } catch {
+    // Plain-text answers may still cite lines as [12]
+    parsed = { found: true, answer: text.trim(), lines: Array.from(text.matchAll(/\[(\d+)\]/g), match => Number(match[1])) };
+  }
+  const lines: unknown[] = Array.isArray(parsed?.lines) ? parsed.lines : [];
+  const citations = Array.from(new Set(lines
+    .map(line => segments[Number(line) - 1]?.id)
+    .filter((id): id is string => !!id)));
+  const found = parsed?.found !== false && citations.length > 0;
+  return {
+    answer: typeof parsed?.answer === 'string' ? parsed.answer.trim() : '',
+    found,
+    citations: found ? citations : [],
+  };
+};
@@ -0,0 +1,515 @@
+import { ActionItem, ActionItemFollowUp, ActionItemPriority, ActionItemStatus, MeetingMinutes, MinutesSection, MinutesTemplate, SectionFormat, TrackedActionItem, TranscriptSegment } from '../types';
+import { stripCodeFence } from './partialJson';
+
+export const createActionItemId = (): string => Math.random().toString(36).slice(2, 10);
+
+export const PRIORITY_LABELS: Record<ActionItemPriority, string> = {
+  [ActionItemPriority.HIGH]: 'High',
+  [ActionItemPriority.MEDIUM]: 'Medium',
+  [ActionItemPriority.LOW]: 'Low',
+};
+
+export const STATUS_LABELS: Record<ActionItemStatus, string> = {
+  [ActionItemStatus.OPEN]: 'Open',
+  [ActionItemStatus.IN_PROGRESS]: 'In progress',
+  [ActionItemStatus.DONE]: 'Done',
+};
+
+export const createActionItem = (patch: Partial<ActionItem> = {}): ActionItem => ({
+  id: createActionItemId(),
+  task: '',
+  owner: '',
+  dueDate: '',
+  priority: ActionItemPriority.MEDIUM,
+  status: ActionItemStatus.OPEN,
+  productionLine: '',
+  ...patch,
+});
+
+/**
+ * A date as YYYY-MM-DD in local time, the format due dates are kept in. `toISOString` would give
+ * the UTC date, which is a day off for part of the day outside UTC.
+ */
+export const localIsoDate = (at: number | Date = Date.now()): string => {
+  const date = new Date(at);
+  return new Date(date.getTime() - date.getTimezoneOffset() * 60000).toISOString().slice(0, 10);
+};
+
+/**
+ * How the minutes prompt refers to the open items of earlier meetings, e.g. "F3".
+ */
+export const followUpRef = (index: number): string => `F${index + 1}`;
+
+// What a minutes response refers to by number or reference
+export interface MinutesContext {
+  // The transcript as numbered in the prompt, for `sourceLine`
+  segments?: TranscriptSegment[];
+  // Open items of earlier meetings as listed in the prompt, for `followUps`
+  openItems?: TrackedActionItem[];
+}
+
+const MINUTES_BASE_PROPERTIES = {
+  title: { type: 'string', description: 'Short meeting title' },
+  summary: { type: 'string', description: 'Brief executive summary of the meeting' },
+  attendees: { type: 'array', items: { type: 'string' }, description: 'Inferred speakers or names mentioned' },
+  discussionPoints: { type: 'array', items: { type: 'string' }, description: 'Main topics discussed' },
+  decisions: { type: 'array', items: { type: 'string' }, description: 'Conclusions or agreements reached' },
+  actionItems: {
+    type: 'array',
+    items: {
+      type: 'object',
+      properties: {
+        task: { type: 'string' },
+        owner: { type: 'string', description: 'Person responsible, empty if not assigned' },
+        dueDate: { type: 'string', description: 'Due date as YYYY-MM-DD, empty if not mentioned' },
+        priority: { type: 'string', enum: Object.values(ActionItemPriority) },
+        status: { type: 'string', enum: Object.values(ActionItemStatus) },
+        productionLine: { type: 'string', description: 'Production line concerned, empty if none' },
+        sourceLine: { type: 'integer', description: 'Number of the transcript line where the item was assigned' },
+      },
+      required: ['task', 'owner', 'dueDate', 'priority', 'status', 'productionLine'],
+    },
+  },
+  followUps: {
+    type: 'array',
+    description: 'Progress reported on open items from earlier meetings',
+    items: {
+      type: 'object',
+      properties: {
+        ref: { type: 'string', description: 'Reference of the earlier item, e.g. "F1"' },
+        status: { type: 'string', enum: [ActionItemStatus.IN_PROGRESS, ActionItemStatus.DONE] },
+        note: { type: 'string', description: 'What was said about it' },
+      },
+      required: ['ref', 'status', 'note'],
+    },
+  },
+};
+
+/**
+ * JSON schema for minutes responses. Templates with their own sections add a `sections` array.
+ */
+export const buildMinutesSchema = (template: MinutesTemplate) => {
+  const required = ['title', 'summary', 'attendees', 'discussionPoints', 'decisions', 'actionItems'];
+  if (template.sections.length === 0) {
+    return { type: 'object', properties: MINUTES_BASE_PROPERTIES, required };
+  }
+  return {
+    type: 'object',
+    properties: {
+      ...MINUTES_BASE_PROPERTIES,
+      sections: {
+        type: 'array',
+        items: {
+          type: 'object',
+          properties: {
+            id: { type: 'string', enum: template.sections.map(section => section.id) },
+            items: { type: 'array', items: { type: 'string' } },
+          },
+          required: ['id', 'items'],
+        },
+      },
+    },
+    required: [...required, 'sections'],
+  };
+};
+
+const stringList = (value: unknown): string[] =>
+  Array.isArray(value) ? value.filter((v): v is string => typeof v === 'string' && !!v.trim()).map(v => v.trim()) : [];
+
+const oneOf = <T extends string>(values: T[], value: unknown, fallback: T): T =>
+  values.includes(value as T) ? (value as T) : fallback;
+
+/**
+ * Minutes from before they were structured: keep the Markdown as the summary so nothing is lost.
+ */
+export const minutesFromMarkdown = (markdown: string, templateId: string): MeetingMinutes => ({
+  templateId,
+  title: '',
+  summary: markdown,
+  sections: [],
+  attendees: [],
+  discussionPoints: [],
+  decisions: [],
+  actionItems: [],
+  followUps: [],
+});
+
+/**
+ * Every section of the template, in template order, filled from the response where present.
+ */
+const templateSections = (template: MinutesTemplate, raw: unknown): MinutesSection[] => {
+  const returned = Array.isArray(raw) ? raw : [];
+  return template.sections.map(section => {
+    const match = returned.find((r: any) => r && r.id === section.id);
+    return { id: section.id, title: section.title, format: section.format, items: stringList(match?.items) };
+  });
+};
+
+const followUpsFromJson = (raw: unknown, openItems: TrackedActionItem[]): ActionItemFollowUp[] =>
+  (Array.isArray(raw) ? raw : []).flatMap((followUp: any): ActionItemFollowUp[] => {
+    const tracked = openItems.find((_, i) => followUpRef(i) === followUp?.ref);
+    if (!tracked) return [];
+    return [{
+      meetingId: tracked.meetingId,
+      itemId: tracked.item.id,
+      task: tracked.item.task,
+      status: oneOf([ActionItemStatus.IN_PROGRESS, ActionItemStatus.DONE], followUp.status, ActionItemStatus.IN_PROGRESS),
+      note: typeof followUp.note === 'string' ? followUp.note.trim() : '',
+    }];
+  });
+
+/**
+ * Minutes from an already parsed response object; missing or malformed fields come back empty.
+ */
+export const minutesFromJson = (parsed: any, template: MinutesTemplate, { segments = [], openItems = [] }: MinutesContext = {}): MeetingMinutes => {
+  return {
+    templateId: template.id,
+    title: typeof parsed.title === 'string' ? parsed.title.trim() : '',
+    summary: typeof parsed.summary === 'string' ? parsed.summary.trim() : '',
+    sections: templateSections(template, parsed.sections),
+    attendees: stringList(parsed.attendees),
+    discussionPoints: stringList(parsed.discussionPoints),
+    decisions: stringList(parsed.decisions),
+    actionItems: (Array.isArray(parsed.actionItems) ? parsed.actionItems : [])
+      .filter((item: any) => item && typeof item.task === 'string' && item.task.trim())
+      .map((item: any) => createActionItem({
+        task: item.task.trim(),
+        owner: typeof item.owner === 'string' ? item.owner.trim() : '',
+        dueDate: typeof item.dueDate === 'string' && /^\d{4}-\d{2}-\d{2}$/.test(item.dueDate) ? item.dueDate : '',
+        priority: oneOf(Object.values(ActionItemPriority), item.priority, ActionItemPriority.MEDIUM),
+        status: oneOf(Object.values(ActionItemStatus), item.status, ActionItemStatus.OPEN),
+        productionLine: typeof item.productionLine === 'string' ? item.productionLine.trim() : '',
+        sourceSegmentId: segments[Number(item.sourceLine) - 1]?.id,
+      })),
+    followUps: followUpsFromJson(parsed.followUps, openItems),
+  };
+};
+
+/**
+ * Reads a model response that should follow `buildMinutesSchema(template)`. Providers that answer in
+ * Markdown instead get their text kept as the summary.
+ */
+export const parseMinutesResponse = (text: string, template: MinutesTemplate, context: MinutesContext = {}): MeetingMinutes => {
+  let parsed: any;
+  try {
+    parsed = JSON.parse(stripCodeFence(text));
+  } catch {
+    return minutesFromMarkdown(text, template.id);
+  }
+  if (!parsed || typeof parsed !== 'object') return minutesFromMarkdown(text, template.id);
+  return minutesFromJson(parsed, template, context);
+};
+
+// Headings of the built-in parts in the Markdown, shared by rendering and parsing it back
+export const MINUTES_HEADINGS = {
+  summary: 'Summary / 摘要',
+  attendees: 'Attendees / 出席人員',
+  discussionPoints: 'Key Discussion Points / 重點討論事項',
+  decisions: 'Decisions Made / 決議事項',
+  actionItems: 'Action Items / 待辦事項',
+  followUps: 'Follow-ups / 追蹤事項',
+};
+
+const DEFAULT_TITLE = 'Meeting Minutes / 會議紀錄';
+
+const bulletList = (items: string[]) => (items.length ? items.map(item => `- ${item}`).join('\n') : '- (none)');
+
+export const sectionToMarkdown = (section: MinutesSection): string => {
+  if (section.format === SectionFormat.PARAGRAPH) {
+    return section.items.length ? section.items.join('\n\n') : '(none)';
+  }
+  return bulletList(section.items);
+};
+
+/**
+ * Renders minutes as Markdown for preview and export.
+ */
+export const minutesToMarkdown = (minutes: MeetingMinutes): string => {
+  // Plain list rather than a table: tables need GFM, which the Markdown preview does not load
+  const actionLines = minutes.actionItems.map(item => {
+    const mark = item.status === ActionItemStatus.DONE ? 'x' : ' ';
+    const details = [
+      `Owner: ${item.owner || '-'}`,
+      ...(item.productionLine ? [`Line: ${item.productionLine}`] : []),
+      `Due: ${item.dueDate || '-'}`,
+      `Priority: ${PRIORITY_LABELS[item.priority]}`,
+      `Status: ${STATUS_LABELS[item.status]}`,
+    ].join(' · ');
+    return `- [${mark}] ${item.task} — ${details}`;
+  });
+
+  const blocks: [string, string][] = [
+    [MINUTES_HEADINGS.summary, minutes.summary || '(none)'],
+    [MINUTES_HEADINGS.attendees, bulletList(minutes.attendees)],
+    ...minutes.sections.map((section): [string, string] => [section.title, sectionToMarkdown(section)]),
+    [MINUTES_HEADINGS.discussionPoints, bulletList(minutes.discussionPoints)],
+    [MINUTES_HEADINGS.decisions, bulletList(minutes.decisions)],
+    [MINUTES_HEADINGS.actionItems, actionLines.length ? actionLines.join('\n') : '- (none)'],
+  ];
+  if (minutes.followUps.length) {
+    blocks.push([MINUTES_HEADINGS.followUps, minutes.followUps
+      .map(f => `- ${f.task} — ${STATUS_LABELS[f.status]}${f.note ? `: ${f.note}` : ''}`)
+      .join('\n')]);
+  }
+
+  return [
+    `# ${minutes.title || DEFAULT_TITLE}`,
+    ...blocks.map(([heading, body], i) => `\n## ${i + 1}. ${heading}\n${body}`),
+  ].join('\n');
+};
+
+// Parts of the minutes that can be regenerated on their own; template sections by id
+export type MinutesPart = 'summary' | 'attendees' | 'discussionPoints' | 'decisions' | 'actionItems' | `section:${string}`;
+
+const sectionPart = (id: string): MinutesPart => `section:${id}`;
+
+const sectionIdOf = (part: MinutesPart): string | null => (part.startsWith('section:') ? part.slice('section:'.length) : null);
+
+/**
+ * The regenerable parts of the minutes with their headings, in the order they are shown.
+ */
+export const minutesParts = (minutes: MeetingMinutes): { part: MinutesPart; title: string }[] => [
+  { part: 'summary', title: MINUTES_HEADINGS.summary },
+  { part: 'attendees', title: MINUTES_HEADINGS.attendees },
+  ...minutes.sections.map(section => ({ part: sectionPart(section.id), title: section.title })),
+  { part: 'discussionPoints', title: MINUTES_HEADINGS.discussionPoints },
+  { part: 'decisions', title: MINUTES_HEADINGS.decisions },
+  { part: 'actionItems', title: MINUTES_HEADINGS.actionItems },
+];
+
+/**
+ * JSON schema for a response that rewrites one part of the minutes, the same shape the full
+ * minutes schema uses for it.
+ */
+export const buildMinutesPartSchema = (part: MinutesPart) => {
+  const sectionId = sectionIdOf(part);
+  if (sectionId === null) {
+    const field = part as keyof typeof MINUTES_BASE_PROPERTIES;
+    return { type: 'object', properties: { [field]: MINUTES_BASE_PROPERTIES[field] }, required: [field] };
+  }
+  return {
+    type: 'object',
+    properties: {
+      sections: {
+        type: 'array',
+        items: {
+          type: 'object',
+          properties: { id: { type: 'string', enum: [sectionId] }, items: { type: 'array', items: { type: 'string' } } },
+          required: ['id', 'items'],
+        },
+      },
+    },
+    required: ['sections'],
+  };
+};
+
+/**
+ * Replaces one part of the minutes with the one in a `buildMinutesPartSchema` response; every other
+ * part stays as it is. Extra fields in the response are ignored.
+ */
+export const parseMinutesPartResponse = (
+  text: string,
+  part: MinutesPart,
+  minutes: MeetingMinutes,
+  template: MinutesTemplate,
+  context: MinutesContext = {}
+): MeetingMinutes => {
+  let parsed: any;
+  try {
+    parsed = JSON.parse(stripCodeFence(text));
+  } catch {
+    parsed = null;
+  }
+  const missing = new Error('The response did not contain the regenerated section.');
+  if (!parsed || typeof parsed !== 'object') {
+    // A provider answering in Markdown can still rewrite the summary
+    if (part === 'summary' && text.trim()) return { ...minutes, summary: text.trim() };
+    throw missing;
+  }
+
+  // A part missing from the response is an error rather than an emptied part
+  const sectionId = sectionIdOf(part);
+  if (sectionId !== null) {
+    const match = (Array.isArray(parsed.sections) ? parsed.sections : []).find((s: any) => s && s.id === sectionId);
+    if (!match) throw missing;
+    return {
+      ...minutes,
+      sections: minutes.sections.map(section => (section.id === sectionId ? { ...section, items: stringList(match?.items) } : section)),
+    };
+  }
+  const field = part as Exclude<MinutesPart, `section:${string}`>;
+  if (parsed[field] === undefined) throw missing;
+  const regenerated = minutesFromJson(parsed, template, context);
+  if (field === 'actionItems') {
+    // Items the tracker already knows keep their ids, so links to them and their history stay valid
+    const matches = matchActionItems(regenerated.actionItems, minutes.actionItems, false);
+    return { ...minutes, actionItems: regenerated.actionItems.map((item, i) => (matches[i] ? { ...item, id: matches[i]!.id } : item)) };
+  }
+  return { ...minutes, [field]: regenerated[field] };
+};
+
+const EMPTY_MARKER = /^(?:[-*]\s*)?\(none\)$/i;
+
+const labelValue = <T extends string>(labels: Record<T, string>, label: string): T | undefined =>
+  (Object.keys(labels) as T[]).find(key => labels[key].toLowerCase() === label.toLowerCase());
+
+const headingMatches = (heading: string, label: string): boolean =>
+  [label, ...label.split(' / ')].some(variant => variant.trim().toLowerCase() === heading.toLowerCase());
+
+const bulletItems = (body: string): string[] =>
+  body.split('\n')
+    .map(line => line.trim().replace(/^[-*]\s+/, ''))
+    .filter(line => line && !EMPTY_MARKER.test(line));
+
+const paragraphItems = (body: string): string[] =>
+  body.split(/\n\s*\n/).map(paragraph => paragraph.trim()).filter(paragraph => paragraph && !EMPTY_MARKER.test(paragraph));
+
+/**
+ * One action item line as `minutesToMarkdown` writes it. The checkbox wins over the status text
+ * when they disagree; a plain bullet becomes a new open item.
+ */
+const actionItemFromLine = (line: string): Partial<ActionItem> | null => {
+  const match = line.trim().match(/^[-*]\s+(?:\[([ xX])\]\s*)?(.*)$/);
+  if (!match || !match[2].trim() || EMPTY_MARKER.test(match[2].trim())) return null;
+  const separator = match[2].lastIndexOf(' — ');
+  const hasDetails = separator >= 0 && /Owner:|Due:|Priority:|Status:/.test(match[2].slice(separator));
+  const item: Partial<ActionItem> = { task: (hasDetails ? match[2].slice(0, separator) : match[2]).trim() };
+
+  if (hasDetails) {
+    for (const detail of match[2].slice(separator + 3).split(' · ')) {
+      const colon = detail.indexOf(':');
+      if (colon < 0) continue;
+      const key = detail.slice(0, colon).trim().toLowerCase();
+      const raw = detail.slice(colon + 1).trim();
+      const value = raw === '-' ? '' : raw;
+      if (key === 'owner') item.owner = value;
+      else if (key === 'line') item.productionLine = value;
+      else if (key === 'due') item.dueDate = /^\d{4}-\d{2}-\d{2}$/.test(value) ? value : '';
+      else if (key === 'priority') item.priority = labelValue(PRIORITY_LABELS, value);
+      else if (key === 'status') item.status = labelValue(STATUS_LABELS, value);
+    }
+  }
+  const checked = match[1] !== undefined && match[1] !== ' ';
+  if (checked) item.status = ActionItemStatus.DONE;
+  else if (item.status === ActionItemStatus.DONE) item.status = ActionItemStatus.OPEN;
+  return item;
+};
+
+const sameTask = (a = '', b = '') => a.replace(/\s+/g, ' ').trim().toLowerCase() === b.replace(/\s+/g, ' ').trim().toLowerCase();
+
+/**
+ * The previous item each new one continues: the same task first, then, `byPosition`, the item at
+ * the same place whose task was edited.
+ */
+const matchActionItems = (items: Partial<ActionItem>[], previous: ActionItem[], byPosition: boolean): (ActionItem | undefined)[] => {
+  const used = new Set<string>();
+  const matches = items.map(item => {
+    const same = previous.find(p => !used.has(p.id) && sameTask(p.task, item.task));
+    if (same) used.add(same.id);
+    return same;
+  });
+  if (!byPosition) return matches;
+  return matches.map((match, i) => {
+    const candidate = previous[i];
+    if (match || !candidate || used.has(candidate.id) || items.some(item => sameTask(item.task, candidate.task))) return match;
+    used.add(candidate.id);
+    return candidate;
+  });
+};
+
+/**
+ * Keeps the ids and transcript links of items that are still there.
+ */
+const actionItemsFromMarkdown = (body: string, previous: ActionItem[]): ActionItem[] => {
+  const parsed = body.split('\n').map(actionItemFromLine).filter((item): item is Partial<ActionItem> => !!item);
+  const matches = matchActionItems(parsed, previous, true);
+  return parsed.map((item, i) => {
+    const base = matches[i];
+    const fields = Object.fromEntries(Object.entries(item).filter(([, value]) => value !== undefined));
+    return base ? { ...base, ...fields } : createActionItem(fields);
+  });
+};
+
+const slugify = (title: string) => title.toLowerCase().replace(/[^\p{L}\p{N}]+/gu, '-').replace(/^-|-$/g, '') || 'section';
+
+const BUILT_IN_PARTS = ['summary', 'attendees', 'discussionPoints', 'decisions', 'actionItems', 'followUps'] as const;
+
+const builtInPart = (heading: string) => BUILT_IN_PARTS.find(part => headingMatches(heading, MINUTES_HEADINGS[part]));
+
+export interface EditedMinutes {
+  minutes: MeetingMinutes;
+  // Headings that appear more than once; only the first block under each is read
+  duplicateHeadings: string[];
+}
+
+/**
+ * Reads minutes back from Markdown edited by hand, e.g. in the minutes editor. Built-in parts are
+ * found by their headings as `minutesToMarkdown` writes them. Other headings are template sections,
+ * matched by title or else by position, so a renamed heading keeps its section; one beyond those
+ * becomes a new bullet section. A part whose heading was removed comes back empty. Follow-ups are
+ * kept from `previous`, since they point at items of other meetings.
+ */
+export const minutesFromEditedMarkdown = (markdown: string, previous: MeetingMinutes): EditedMinutes => {
+  const minutes: MeetingMinutes = {
+    ...previous,
+    title: '',
+    summary: '',
+    sections: [],
+    attendees: [],
+    discussionPoints: [],
+    decisions: [],
+    actionItems: [],
+  };
+  const preamble: string[] = [];
+  const blocks: { heading: string; lines: string[] }[] = [];
+  for (const line of markdown.split('\n')) {
+    const heading = line.match(/^##\s+(?:\d+\.\s*)?(.*?)\s*$/);
+    const title = line.match(/^#\s+(.*?)\s*$/);
+    if (heading) blocks.push({ heading: heading[1], lines: [] });
+    else if (title && !blocks.length && !minutes.title) minutes.title = title[1] === DEFAULT_TITLE ? '' : title[1];
+    else (blocks.length ? blocks[blocks.length - 1].lines : preamble).push(line);
+  }
+
+  const seen = new Set<string>();
+  const duplicateHeadings: string[] = [];
+  const sectionBlocks: { heading: string; body: string }[] = [];
+  for (const { heading, lines } of blocks) {
+    const body = lines.join('\n').trim();
+    const part = builtInPart(heading);
+    const key = part || heading.toLowerCase();
+    if (seen.has(key)) {
+      duplicateHeadings.push(heading);
+      continue;
+    }
+    seen.add(key);
+    if (part === 'summary') minutes.summary = EMPTY_MARKER.test(body) ? '' : body;
+    else if (part === 'attendees') minutes.attendees = bulletItems(body);
+    else if (part === 'discussionPoints') minutes.discussionPoints = bulletItems(body);
+    else if (part === 'decisions') minutes.decisions = bulletItems(body);
+    else if (part === 'actionItems') minutes.actionItems = actionItemsFromMarkdown(body, previous.actionItems);
+    else if (!part) sectionBlocks.push({ heading, body });
+  }
+
+  const used = new Set<string>();
+  const matches = sectionBlocks.map(({ heading }) => {
+    const same = previous.sections.find(section => !used.has(section.id) && section.title === heading);
+    if (same) used.add(same.id);
+    return same;
+  });
+  sectionBlocks.forEach(({ heading, body }, i) => {
+    let base = matches[i];
+    const candidate = previous.sections[i];
+    if (!base && candidate && !used.has(candidate.id) && !sectionBlocks.some(block => block.heading === candidate.title)) {
+      base = candidate;
+      used.add(candidate.id);
+    }
+    let id = base?.id || slugify(heading);
+    for (let n = 2; !base && [...previous.sections, ...minutes.sections].some(section => section.id === id); n++) id = `${slugify(heading)}-${n}`;
+    const section: MinutesSection = base ? { ...base, title: heading } : { id, title: heading, format: SectionFormat.BULLETS, items: [] };
+    minutes.sections.push({ ...section, items: section.format === SectionFormat.PARAGRAPH ? paragraphItems(body) : bulletItems(body) });
+  });
+
+  const leading = preamble.join('\n').trim();
+  if (leading) minutes.summary = minutes.summary ? `${leading}\n\n${minutes.summary}` : leading;
+  return { minutes, duplicateHeadings };
+};
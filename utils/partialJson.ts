@@ -0,0 +1,84 @@
+type Container = '{' | '[';
+
+const CLOSERS: Record<Container, string> = { '{': '}', '[': ']' };
+
+const closeAll = (stack: Container[]) => stack.map(c => CLOSERS[c]).reverse().join('');
+
+/**
+ * The JSON inside a reply the model wrapped in a Markdown code fence, or the reply as is.
+ */
+export const stripCodeFence = (text: string) => text.trim().replace(/^```(?:json)?\s*/i, '').replace(/\s*```$/, '');
+
+/**
+ * Best-effort parse of a JSON document that is still being streamed, e.g. `{"segments":[{"id":"a","text":"Hel`.
+ * Unfinished keys and literals are dropped, an unfinished string value is kept as far as it got,
+ * and open objects and arrays are closed. Returns undefined while there is nothing usable yet.
+ */
+export const parsePartialJson = (text: string): any => {
+  const source = text.replace(/^\s*```(?:json)?\s*/i, '');
+  const stack: Container[] = [];
+  // Per open object: whether the next string is a key
+  const expectKey: boolean[] = [];
+  // The longest prefix that is valid JSON once the containers open at that point are closed
+  let safeEnd = -1;
+  let safeStack: Container[] = [];
+  const markSafe = (end: number) => {
+    safeEnd = end;
+    safeStack = [...stack];
+  };
+
+  let i = 0;
+  while (i < source.length) {
+    const ch = source[i];
+    if (ch === '"') {
+      const isKey = stack[stack.length - 1] === '{' && expectKey[expectKey.length - 1];
+      let j = i + 1;
+      while (j < source.length && source[j] !== '"') j += source[j] === '\\' ? 2 : 1;
+      if (j >= source.length) {
+        if (isKey) break;
+        // Unfinished string value: keep it, minus a dangling escape sequence
+        const partial = source.slice(i, source.length).replace(/\\(u[0-9a-fA-F]{0,3})?$/, '');
+        const candidate = source.slice(0, i) + partial + '"' + closeAll(stack);
+        try {
+          return JSON.parse(candidate);
+        } catch {
+          break;
+        }
+      }
+      if (isKey) {
+        expectKey[expectKey.length - 1] = false;
+      } else {
+        markSafe(j + 1);
+      }
+      i = j + 1;
+    } else if (ch === '{' || ch === '[') {
+      stack.push(ch);
+      if (ch === '{') expectKey.push(true);
+      markSafe(i + 1);
+      i++;
+    } else if (ch === '}' || ch === ']') {
+      if (stack.pop() === '{') expectKey.pop();
+      markSafe(i + 1);
+      i++;
+    } else if (ch === ',') {
+      if (stack[stack.length - 1] === '{') expectKey[expectKey.length - 1] = true;
+      i++;
+    } else if (/[-0-9tfn]/.test(ch)) {
+      // Numbers and literals only count once something ends them, "12" may still become "120"
+      let j = i;
+      while (j < source.length && /[-+0-9.eEtruefalsn]/.test(source[j])) j++;
+      if (j >= source.length) break;
+      markSafe(j);
+      i = j;
+    } else {
+      i++;
+    }
+  }
+
+  if (safeEnd < 0) return undefined;
+  try {
+    return JSON.parse(source.slice(0, safeEnd) + closeAll(safeStack));
+  } catch {
+    return undefined;
+  }
+};
@@ -0,0 +1,138 @@
+import { RedactionDetector, RedactionRule, RedactionRuleKind, RedactionSettings } from '../types';
+
+export const DETECTOR_INFO: Record<RedactionDetector, { label: string; placeholder: string; example: string }> = {
+  [RedactionDetector.PHONE]: { label: 'Phone numbers', placeholder: 'PHONE', example: '0912-345-678, (02) 2345-6789, +886 912 345 678' },
+  [RedactionDetector.EMAIL]: { label: 'Email addresses', placeholder: 'EMAIL', example: 'wang@example.com.tw' },
+  [RedactionDetector.TW_ID]: { label: 'Taiwan ID numbers', placeholder: 'TW_ID', example: 'A123456789' },
+  [RedactionDetector.CURRENCY]: { label: 'Currency amounts', placeholder: 'AMOUNT', example: 'NT$12,500, 3.5萬元, USD 1.2' },
+};
+
+// Latin digits and letters only: CJK text has no word boundaries to respect
+const DETECTOR_PATTERNS: Record<RedactionDetector, RegExp> = {
+  [RedactionDetector.PHONE]: /(?<![\dA-Za-z])(?:\+886[\s-]?|\(?0)(?:9\d{2}[\s-]?\d{3}[\s-]?\d{3}|\(?[2-8]\d?\)?[\s-]?\d{3,4}[\s-]?\d{4})(?:\s?(?:#|ext\.?|分機)\s?\d{1,5})?(?!\d)/g,
+  [RedactionDetector.EMAIL]: /[A-Za-z0-9._%+-]+@[A-Za-z0-9-]+(?:\.[A-Za-z0-9-]+)*\.[A-Za-z]{2,}/g,
+  [RedactionDetector.TW_ID]: /(?<![A-Za-z0-9])[A-Za-z][12489]\d{8}(?![A-Za-z0-9])/g,
+  [RedactionDetector.CURRENCY]: /(?:(?:NT|US)\$|NTD|TWD|USD|RMB|[$€¥£])\s?\d[\d,]*(?:\.\d+)?(?:\s?(?:[kKmM]|萬|千|百萬|億)(?![A-Za-z]))?|(?<![\d.,-])\d[\d,]*(?:\.\d+)?\s?(?:萬|千|百萬|億)?\s?(?:元|塊錢|美元|美金|台幣|新台幣|人民幣|歐元|(?:NTD|TWD|USD|RMB|dollars?)(?![A-Za-z]))/g,
+};
+
+export const createRedactionRuleId = (): string => Math.random().toString(36).slice(2, 10);
+
+// Opt-in: placeholders cost the model context, and amounts are usually what minutes are about
+export const DEFAULT_REDACTION_SETTINGS: RedactionSettings = {
+  enabled: false,
+  detectors: [RedactionDetector.PHONE, RedactionDetector.EMAIL, RedactionDetector.TW_ID],
+  rules: [],
+};
+
+const escapeRegExp = (value: string) => value.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+
+// Placeholder names are upper case words, so they cannot clash with transcript line numbers like [12]
+const placeholderName = (label: string) => label.trim().toUpperCase().replace(/[^A-Z0-9]+/g, '_').replace(/^_|_$/g, '') || 'REDACTED';
+
+const PLACEHOLDER = /\[([A-Z][A-Z0-9_]*_\d+)\]/g;
+
+/**
+ * Why a rule cannot be used, or null when it is fine.
+ */
+export const ruleError = (rule: RedactionRule): string | null => {
+  if (rule.kind === RedactionRuleKind.DICTIONARY) return rule.terms.some(t => t.trim()) ? null : 'No terms.';
+  if (!rule.pattern.trim()) return 'No pattern.';
+  try {
+    // Patterns matching the empty string would put a placeholder between every character
+    return new RegExp(rule.pattern, 'u').test('') ? 'The pattern matches empty text.' : null;
+  } catch (e: any) {
+    return e?.message || 'Invalid regular expression.';
+  }
+};
+
+const rulePattern = (rule: RedactionRule): RegExp => {
+  if (rule.kind === RedactionRuleKind.REGEX) return new RegExp(rule.pattern, 'gu');
+  // Longest terms first, so "Acme Taiwan" is not cut short by "Acme"
+  const terms = rule.terms.map(t => t.trim()).filter(Boolean).sort((a, b) => b.length - a.length);
+  return new RegExp(terms.map(term => {
+    const escaped = escapeRegExp(term);
+    return `${/^[A-Za-z0-9]/.test(term) ? '(?<![A-Za-z0-9])' : ''}${escaped}${/[A-Za-z0-9]$/.test(term) ? '(?![A-Za-z0-9])' : ''}`;
+  }).join('|'), 'giu');
+};
+
+export interface Redactor {
+  redact: (text: string) => string;
+  // `json` escapes the restored values for text that is a JSON document
+  restore: (text: string, options?: { json?: boolean }) => string;
+  // How many different values were replaced so far
+  count: () => number;
+}
+
+/**
+ * Replaces sensitive values with placeholders like [PHONE_1] and puts them back afterwards. The same
+ * value gets the same placeholder for the life of the redactor, so the model can still tell that two
+ * mentions are one customer. Custom rules win over built-in detectors where they overlap; rules that
+ * do not compile are skipped.
+ */
+export const createRedactor = ({ detectors, rules }: Pick<RedactionSettings, 'detectors' | 'rules'>): Redactor => {
+  const matchers = [
+    ...rules.filter(rule => !ruleError(rule)).map(rule => ({ name: placeholderName(rule.label), pattern: rulePattern(rule) })),
+    ...detectors.map(detector => ({ name: DETECTOR_INFO[detector].placeholder, pattern: DETECTOR_PATTERNS[detector] })),
+  ];
+  const byValue = new Map<string, string>();
+  const byPlaceholder = new Map<string, string>();
+  const counters = new Map<string, number>();
+
+  const placeholderFor = (name: string, value: string): string => {
+    const key = `${name}\u0000${value}`;
+    let placeholder = byValue.get(key);
+    if (!placeholder) {
+      const n = (counters.get(name) || 0) + 1;
+      counters.set(name, n);
+      placeholder = `[${name}_${n}]`;
+      byValue.set(key, placeholder);
+      byPlaceholder.set(placeholder, value);
+    }
+    return placeholder;
+  };
+
+  const redact = (text: string): string => {
+    const found: { start: number; end: number; name: string; value: string; order: number }[] = [];
+    matchers.forEach(({ name, pattern }, order) => {
+      for (const match of text.matchAll(new RegExp(pattern.source, pattern.flags))) {
+        if (match[0]) found.push({ start: match.index!, end: match.index! + match[0].length, name, value: match[0], order });
+      }
+    });
+    // Earlier matches first; at the same position the earlier matcher, then the longer match
+    found.sort((a, b) => a.start - b.start || a.order - b.order || b.end - a.end);
+
+    let result = '';
+    let position = 0;
+    for (const match of found) {
+      if (match.start < position) continue;
+      result += text.slice(position, match.start) + placeholderFor(match.name, match.value);
+      position = match.end;
+    }
+    return result + text.slice(position);
+  };
+
+  const restore = (text: string, { json = false }: { json?: boolean } = {}): string =>
+    text.replace(PLACEHOLDER, (placeholder: string) => {
+      const value = byPlaceholder.get(placeholder);
+      if (value === undefined) return placeholder;
+      return json ? JSON.stringify(value).slice(1, -1) : value;
+    });
+
+  return { redact, restore, count: () => byPlaceholder.size };
+};
+
+// Fields holding ids, codes and dates rather than text people wrote or said
+const NON_TEXT_KEYS = new Set(['id', 'itemId', 'meetingId', 'sourceSegmentId', 'templateId', 'fileType', 'dueDate', 'priority', 'status', 'format']);
+
+/**
+ * Redacts every text field of a value, e.g. a whole meeting for a redacted export.
+ */
+export const redactDeep = <T>(value: T, redactor: Redactor): T => {
+  const walk = (v: any, key?: string): any => {
+    if (typeof v === 'string') return key && NON_TEXT_KEYS.has(key) ? v : redactor.redact(v);
+    if (Array.isArray(v)) return v.map(item => walk(item));
+    if (v && typeof v === 'object') return Object.fromEntries(Object.entries(v).map(([k, item]) => [k, walk(item, k)]));
+    return v;
+  };
+  return walk(value);
+};
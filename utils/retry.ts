@@ -0,0 +1,36 @@
+import { delay, isAbortError } from './abort';
+
+export interface RetryOptions {
+  signal?: AbortSignal;
+  maxAttempts?: number;
+  baseDelayMs?: number;
+  maxDelayMs?: number;
+  shouldRetry: (error: unknown) => boolean;
+  // A wait the server asked for; the backoff never goes below it
+  retryAfterMs?: (error: unknown) => number | undefined;
+  onRetry?: (error: unknown, attempt: number, delayMs: number) => void;
+}
+
+/**
+ * Runs `run` until it succeeds, retrying failures that `shouldRetry` accepts with exponential backoff
+ * and jitter, so that parallel chunks hitting the same rate limit do not all come back at once.
+ * Cancellation is never retried and also interrupts the wait.
+ */
+export const retryWithBackoff = async <T>(
+  run: () => Promise<T>,
+  { signal, maxAttempts = 4, baseDelayMs = 2000, maxDelayMs = 60_000, shouldRetry, retryAfterMs, onRetry }: RetryOptions
+): Promise<T> => {
+  for (let attempt = 1; ; attempt++) {
+    try {
+      return await run();
+    } catch (error) {
+      if (isAbortError(error) || attempt >= maxAttempts || !shouldRetry(error)) throw error;
+      // "Equal jitter": half the exponential step is fixed, the other half random
+      const step = Math.min(maxDelayMs, baseDelayMs * 2 ** (attempt - 1));
+      const backoff = step / 2 + Math.random() * (step / 2);
+      const delayMs = Math.round(Math.max(backoff, retryAfterMs?.(error) ?? 0));
+      onRetry?.(error, attempt, delayMs);
+      await delay(delayMs, signal);
+    }
+  }
+};
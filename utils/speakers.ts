@@ -0,0 +1,45 @@
+import { IdentifiedSpeaker, SpeakerProfile, TranscriptSegment } from '../types';
+
+export interface SpeakerStats {
+  label: string;
+  lines: number;
+  // Seconds; only counts segments with known timing
+  talkTime: number;
+}
+
+/**
+ * Line count and talk time per speaker label, most talkative first.
+ */
+export const computeSpeakerStats = (segments: TranscriptSegment[]): SpeakerStats[] => {
+  const stats = new Map<string, SpeakerStats>();
+  segments.forEach(segment => {
+    const entry = stats.get(segment.speaker) || { label: segment.speaker, lines: 0, talkTime: 0 };
+    entry.lines += 1;
+    if (segment.start !== undefined && segment.end !== undefined && segment.end > segment.start) {
+      entry.talkTime += segment.end - segment.start;
+    }
+    stats.set(segment.speaker, entry);
+  });
+  return Array.from(stats.values()).sort((a, b) => b.talkTime - a.talkTime || b.lines - a.lines);
+};
+
+/**
+ * Relabels every line of `from` as `to`. Used for both renaming and merging two labels.
+ */
+export const relabelSpeaker = (segments: TranscriptSegment[], from: string, to: string): TranscriptSegment[] =>
+  segments.map(segment => (segment.speaker === from ? { ...segment, speaker: to } : segment));
+
+export const formatSpeakerLabel = ({ name, role }: SpeakerProfile): string =>
+  role.trim() ? `${role.trim()} – ${name.trim()}` : name.trim();
+
+/**
+ * Regular attendees whose name or full label already appears as a speaker label,
+ * e.g. because the model recognised them from the roster hint.
+ */
+export const matchKnownSpeakers = (segments: TranscriptSegment[], known: SpeakerProfile[]): IdentifiedSpeaker[] => {
+  const labels = new Set(segments.map(s => s.speaker));
+  return known.flatMap(profile => {
+    const label = [formatSpeakerLabel(profile), profile.name].find(candidate => labels.has(candidate));
+    return label ? [{ ...profile, label }] : [];
+  });
+};
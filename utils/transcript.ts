@@ -0,0 +1,190 @@
+import { TranscriptSegment } from '../types';
+import { stripCodeFence } from './partialJson';
+
+const TIMESTAMP_PREFIX = /^\[(\d{1,2}(?::\d{1,2}){1,2}(?:\.\d+)?)\]\s*/;
+const LABEL_PREFIX = /^([^:：\[\]]{1,40})[:：]\s*/;
+const DEFAULT_SPEAKER = 'Speaker 1';
+// Labels the models use for unidentified voices
+const GENERIC_LABEL = /^(?:Speaker|Participant|發言人|講者|說話者)\s*\d+$/i;
+// Punctuation that ends or splits a sentence, which a name does not contain
+const SENTENCE_PUNCTUATION = /[,;!?，。、；！？…「」"“”]/;
+const MAX_LABEL_WORDS = 3;
+
+/**
+ * Whether the text before a colon reads as a name rather than the start of a sentence: no sentence
+ * punctuation, a few words at most, and not the hour of a time like "10:30".
+ */
+const looksLikeLabel = (label: string, rest: string): boolean =>
+  !(/\d$/.test(label) && /^\d/.test(rest)) &&
+  !SENTENCE_PUNCTUATION.test(label) &&
+  label.split(/\s+/).length <= MAX_LABEL_WORDS;
+
+export const createSegmentId = (): string => Math.random().toString(36).slice(2, 10);
+
+/**
+ * Formats seconds as `MM:SS`, or `H:MM:SS` past the first hour.
+ */
+export const formatTimestamp = (seconds: number): string => {
+  const total = Math.max(0, Math.floor(seconds));
+  const h = Math.floor(total / 3600);
+  const m = Math.floor((total % 3600) / 60);
+  const s = total % 60;
+  const mm = String(m).padStart(2, '0');
+  const ss = String(s).padStart(2, '0');
+  return h > 0 ? `${h}:${mm}:${ss}` : `${mm}:${ss}`;
+};
+
+/**
+ * Parses `MM:SS`, `H:MM:SS` or a plain number of seconds.
+ */
+export const parseTimestamp = (value: string | number | undefined | null): number | undefined => {
+  if (value === undefined || value === null || value === '') return undefined;
+  if (typeof value === 'number') return Number.isFinite(value) ? value : undefined;
+  const parts = value.trim().split(':').map(Number);
+  if (parts.some(p => Number.isNaN(p))) return undefined;
+  return parts.reduce((acc, part) => acc * 60 + part, 0);
+};
+
+/**
+ * Parses the legacy plain-text format ("Speaker 1: text" per line, optionally
+ * prefixed with "[MM:SS]") into segments. Lines without a label continue the previous speaker.
+ *
+ * A colon alone does not make a label ("會議時間：下午三點"): besides looking like a name, it has to
+ * be a generic label like "Speaker 2" or label more than one line.
+ */
+export const parseTranscriptText = (text: string): TranscriptSegment[] => {
+  const lines = text.split('\n').map(raw => raw.trim()).filter(Boolean).map(line => {
+    const timestamp = line.match(TIMESTAMP_PREFIX);
+    const rest = timestamp ? line.slice(timestamp[0].length) : line;
+    const labelled = rest.match(LABEL_PREFIX);
+    const label = labelled?.[1].trim();
+    const said = labelled ? rest.slice(labelled[0].length) : rest;
+    return { start: timestamp?.[1], rest, said, label: label && looksLikeLabel(label, said) ? label : undefined };
+  });
+  const uses = new Map<string, number>();
+  lines.forEach(({ label }) => label && uses.set(label, (uses.get(label) || 0) + 1));
+  const isSpeaker = (label: string) => GENERIC_LABEL.test(label) || uses.get(label)! > 1;
+
+  const segments: TranscriptSegment[] = [];
+  lines.forEach(({ start, rest, said, label }) => {
+    const speaker = label && isSpeaker(label) ? label : undefined;
+    const content = (speaker ? said : rest).trim();
+    if (!content) return;
+    segments.push({
+      id: createSegmentId(),
+      speaker: speaker || segments[segments.length - 1]?.speaker || DEFAULT_SPEAKER,
+      start: parseTimestamp(start),
+      text: content,
+    });
+  });
+  return segments;
+};
+
+/**
+ * Serializes segments back to the plain-text format, with timestamps when they are known.
+ */
+export const formatTranscriptText = (segments: TranscriptSegment[]): string =>
+  segments
+    .map(s => `${s.start !== undefined ? `[${formatTimestamp(s.start)}] ` : ''}${s.speaker}: ${s.text}`)
+    .join('\n');
+
+/**
+ * Segments from an already parsed `{ segments: [...] }` response, or null when it has another shape.
+ */
+export const segmentsFromJson = (parsed: any): TranscriptSegment[] | null => {
+  const items: any[] = Array.isArray(parsed) ? parsed : parsed?.segments;
+  if (!Array.isArray(items)) return null;
+
+  return items
+    .filter(item => item && typeof item.text === 'string' && item.text.trim())
+    .map(item => ({
+      id: typeof item.id === 'string' && item.id ? item.id : createSegmentId(),
+      speaker: typeof item.speaker === 'string' && item.speaker.trim() ? item.speaker.trim() : DEFAULT_SPEAKER,
+      start: parseTimestamp(item.start),
+      end: parseTimestamp(item.end),
+      text: item.text.trim(),
+      ...(typeof item.original === 'string' && { original: item.original.trim() }),
+    }));
+};
+
+/**
+ * Reads a model response that should contain `{ segments: [...] }`.
+ * Falls back to the plain-text format for providers that ignore the response schema.
+ */
+export const parseSegmentsResponse = (text: string): TranscriptSegment[] => {
+  let parsed: any;
+  try {
+    parsed = JSON.parse(stripCodeFence(text));
+  } catch {
+    return parseTranscriptText(text);
+  }
+  return segmentsFromJson(parsed) || parseTranscriptText(text);
+};
+
+/**
+ * JSON schema for transcription responses.
+ */
+export const TRANSCRIPT_SCHEMA = {
+  type: 'object',
+  properties: {
+    segments: {
+      type: 'array',
+      items: {
+        type: 'object',
+        properties: {
+          speaker: { type: 'string', description: 'Speaker label, e.g. "Speaker 1", or a name if mentioned' },
+          start: { type: 'number', description: 'Start time in seconds from the beginning of the audio' },
+          end: { type: 'number', description: 'End time in seconds from the beginning of the audio' },
+          text: { type: 'string', description: 'Verbatim text of the utterance' },
+        },
+        required: ['speaker', 'start', 'end', 'text'],
+      },
+    },
+  },
+  required: ['segments'],
+};
+
+/**
+ * Transcription schema for bilingual mode, where each segment also carries the utterance as spoken.
+ */
+export const BILINGUAL_TRANSCRIPT_SCHEMA = {
+  ...TRANSCRIPT_SCHEMA,
+  properties: {
+    segments: {
+      type: 'array',
+      items: {
+        type: 'object',
+        properties: {
+          ...TRANSCRIPT_SCHEMA.properties.segments.items.properties,
+          original: { type: 'string', description: 'Verbatim text of the utterance in the language it was spoken in' },
+          text: { type: 'string', description: 'Translation of the utterance into the transcript language' },
+        },
+        required: ['speaker', 'start', 'end', 'original', 'text'],
+      },
+    },
+  },
+};
+
+/**
+ * JSON schema for correction responses. Segment ids are echoed back so timings survive the edit.
+ */
+export const CORRECTION_SCHEMA = {
+  type: 'object',
+  properties: {
+    segments: {
+      type: 'array',
+      items: {
+        type: 'object',
+        properties: {
+          id: { type: 'string' },
+          speaker: { type: 'string' },
+          text: { type: 'string' },
+          // Only for bilingual transcripts
+          original: { type: 'string' },
+        },
+        required: ['id', 'speaker', 'text'],
+      },
+    },
+  },
+  required: ['segments'],
+};
@@ -0,0 +1,182 @@
+import { TranscriptSegment } from '../types';
+
+export type QualityIssueKind = 'LOOP' | 'REPEATED_LINE' | 'TRAILING_FILLER' | 'SPEAKING_RATE';
+
+export interface QualityIssue {
+  kind: QualityIssueKind;
+  segmentId: string;
+  // For loops: the characters repeating the first occurrence, which removal cuts; timing issues clear the
+  // end time, other issues remove the line
+  range?: [number, number];
+  detail: string;
+  // Words (CJK characters) affected, for the score
+  words: number;
+}
+
+export interface TranscriptQuality {
+  // 0..100: the share of words not flagged
+  score: number;
+  issues: QualityIssue[];
+}
+
+export const ISSUE_LABELS: Record<QualityIssueKind, string> = {
+  LOOP: 'Loop',
+  REPEATED_LINE: 'Repeated line',
+  TRAILING_FILLER: 'Trailing filler',
+  SPEAKING_RATE: 'Implausible timing',
+};
+
+// Phrases models produce over silence or noise at the end of a recording, compared without punctuation
+const FILLER_PHRASES = [
+  '我不知道', '不客氣', '謝謝', '謝謝大家', '謝謝觀看', '謝謝收看', '謝謝聆聽', '請訂閱', '字幕由amaraorg社群提供',
+  '请不吝点赞订阅转发打赏支持明镜与点点栏目', '谢谢观看', '谢谢收看',
+  'ご視聴ありがとうございました', 'thankyou', 'thanks', 'thanksforwatching', 'thankyouforwatching', 'pleasesubscribe',
+  'cảmơncácbạnđãtheodõi', 'silence', 'music', 'noise',
+];
+
+// CJK and Thai count per character, other scripts per word
+const WORD = /[\p{Script=Han}\p{Script=Hiragana}\p{Script=Katakana}\p{Script=Thai}]|[\p{L}\p{N}\p{M}_'’-]+/gu;
+const SINGLE_CHAR_SCRIPT = /^[\p{Script=Han}\p{Script=Hiragana}\p{Script=Katakana}\p{Script=Thai}]$/u;
+
+// A phrase repeated this often, covering at least this many words, is a loop; "對對對" is not
+const MIN_LOOP_REPEATS = 3;
+const MIN_LOOP_WORDS = 8;
+const MAX_LOOP_PHRASE = 10;
+const MIN_REPEATED_LINES = 3;
+// Fastest plausible speech, in characters or words per second
+const MAX_CJK_RATE = 9;
+const MAX_WORD_RATE = 6;
+// Short lines are often timed to the frame, "好" at 12.0 to 12.0; only longer ones are judged
+const MIN_RATE_WORDS = 6;
+// Lines stretched over long silences are usually made up
+const MIN_SLOW_LINE_SECONDS = 15;
+const MAX_SILENT_SHARE = 0.9;
+
+interface Word {
+  text: string;
+  start: number;
+  end: number;
+}
+
+const wordsOf = (text: string): Word[] =>
+  Array.from(text.matchAll(WORD), match => ({ text: match[0].toLowerCase(), start: match.index!, end: match.index! + match[0].length }));
+
+const normalize = (text: string) => wordsOf(text).map(word => word.text).join('');
+
+const isFiller = (text: string): boolean => {
+  const normalized = normalize(text);
+  if (!normalized) return true;
+  // Also catches the phrase said several times over, "我不知道我不知道"
+  return FILLER_PHRASES.some(phrase => normalized.replace(new RegExp(phrase, 'g'), '') === '' && normalized.includes(phrase));
+};
+
+const findLoops = (segment: TranscriptSegment): QualityIssue[] => {
+  const words = wordsOf(segment.text);
+  const issues: QualityIssue[] = [];
+  let i = 0;
+  while (i < words.length) {
+    let found = false;
+    for (let n = 1; n <= MAX_LOOP_PHRASE && i + n * MIN_LOOP_REPEATS <= words.length; n++) {
+      let repeats = 1;
+      while (
+        i + (repeats + 1) * n <= words.length &&
+        words.slice(i + repeats * n, i + (repeats + 1) * n).every((word, k) => word.text === words[i + k].text)
+      ) repeats++;
+      if (repeats >= MIN_LOOP_REPEATS && repeats * n >= MIN_LOOP_WORDS) {
+        const phrase = segment.text.slice(words[i].start, words[i + n - 1].end);
+        issues.push({
+          kind: 'LOOP',
+          segmentId: segment.id,
+          range: [words[i + n].start, words[i + repeats * n - 1].end],
+          detail: `"${phrase}" repeated ${repeats} times`,
+          words: (repeats - 1) * n,
+        });
+        i += repeats * n;
+        found = true;
+        break;
+      }
+    }
+    if (!found) i++;
+  }
+  return issues;
+};
+
+const checkSpeakingRate = (segment: TranscriptSegment, words: Word[]): QualityIssue | null => {
+  if (segment.start === undefined || segment.end === undefined || words.length === 0) return null;
+  const duration = segment.end - segment.start;
+  const cjk = words.filter(word => SINGLE_CHAR_SCRIPT.test(word.text)).length;
+  // The time the words take at the fastest plausible rate
+  const minSpeaking = cjk / MAX_CJK_RATE + (words.length - cjk) / MAX_WORD_RATE;
+  if (words.length >= MIN_RATE_WORDS && duration < minSpeaking) {
+    return { kind: 'SPEAKING_RATE', segmentId: segment.id, detail: `${words.length} words in ${Math.max(0, duration).toFixed(1)}s is faster than anyone speaks`, words: words.length };
+  }
+  if (duration >= MIN_SLOW_LINE_SECONDS && minSpeaking * 2 < duration * (1 - MAX_SILENT_SHARE)) {
+    return { kind: 'SPEAKING_RATE', segmentId: segment.id, detail: `${words.length} words stretched over ${duration.toFixed(0)}s`, words: words.length };
+  }
+  return null;
+};
+
+/**
+ * Flags what transcription models typically make up: phrases looping within a line, the same line
+ * over and over, filler after the speech has ended, and lines whose timing no speaker could manage.
+ */
+export const analyzeTranscript = (segments: TranscriptSegment[]): TranscriptQuality => {
+  const issues: QualityIssue[] = [];
+  const wordCounts = segments.map(segment => wordsOf(segment.text));
+
+  segments.forEach((segment, i) => {
+    issues.push(...findLoops(segment));
+    const rate = checkSpeakingRate(segment, wordCounts[i]);
+    if (rate) issues.push(rate);
+  });
+
+  // Runs of identical lines keep their first line
+  for (let i = 0; i < segments.length;) {
+    const text = normalize(segments[i].text);
+    let j = i + 1;
+    while (j < segments.length && text.length >= 2 && normalize(segments[j].text) === text) j++;
+    if (j - i >= MIN_REPEATED_LINES) {
+      for (let k = i + 1; k < j; k++) {
+        issues.push({ kind: 'REPEATED_LINE', segmentId: segments[k].id, detail: `Same as the line above (${j - i} in a row)`, words: wordCounts[k].length });
+      }
+    }
+    i = j;
+  }
+
+  for (let i = segments.length - 1; i >= 0 && isFiller(segments[i].text); i--) {
+    issues.push({ kind: 'TRAILING_FILLER', segmentId: segments[i].id, detail: 'Filler after the end of the speech', words: wordCounts[i].length });
+  }
+
+  // A line flagged twice still only counts once towards the score
+  const total = wordCounts.reduce((sum, words) => sum + words.length, 0);
+  const flaggedLines = new Set(issues.filter(issue => !issue.range).map(issue => issue.segmentId));
+  const flagged = segments.reduce((sum, segment, i) => sum + (flaggedLines.has(segment.id)
+    ? wordCounts[i].length
+    : issues.filter(issue => issue.range && issue.segmentId === segment.id).reduce((s, issue) => s + issue.words, 0)), 0);
+  return {
+    score: total === 0 ? 100 : Math.round(100 * (1 - Math.min(flagged, total) / total)),
+    issues,
+  };
+};
+
+/**
+ * Removes what the issues flag: the repeats of a loop, or the whole line for repeated lines and filler.
+ * Lines with implausible timing are real speech, so they keep their text and lose only the end time.
+ */
+export const removeFlagged = (segments: TranscriptSegment[], issues: QualityIssue[]): TranscriptSegment[] => {
+  const dropped = new Set(issues.filter(issue => !issue.range && issue.kind !== 'SPEAKING_RATE').map(issue => issue.segmentId));
+  const untimed = new Set(issues.filter(issue => issue.kind === 'SPEAKING_RATE').map(issue => issue.segmentId));
+  return segments
+    .filter(segment => !dropped.has(segment.id))
+    .map(segment => (untimed.has(segment.id) ? { ...segment, end: undefined } : segment))
+    .map(segment => {
+      // Cut from the back so earlier ranges stay valid
+      const ranges = issues
+        .filter(issue => issue.range && issue.segmentId === segment.id)
+        .map(issue => issue.range!)
+        .sort((a, b) => b[0] - a[0]);
+      if (ranges.length === 0) return segment;
+      const text = ranges.reduce((t, [start, end]) => t.slice(0, start) + t.slice(end), segment.text);
+      return { ...segment, text: text.replace(/\s{2,}/g, ' ').trim() };
+    });
+};
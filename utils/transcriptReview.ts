@@ -0,0 +1,93 @@
+import { TranscriptSegment } from '../types';
+import { DiffPart, applyDiff, diffWords } from './diff';
+
+export type ChangeKind = 'text' | 'deleted' | 'added';
+
+export interface TranscriptChange {
+  // Stable for as long as the change exists, so accepted changes can be remembered
+  key: string;
+  kind: ChangeKind;
+  // For text changes, the index of the change in the line's diff parts
+  partIndex?: number;
+}
+
+/**
+ * One line of the review: the transcript as first transcribed against the current one.
+ * `raw` is missing for lines added later, `segment` for lines that were deleted.
+ * Speaker labels are left out, renaming speakers would otherwise flag every line.
+ */
+export interface LineReview {
+  raw?: TranscriptSegment;
+  segment?: TranscriptSegment;
+  parts: DiffPart[];
+  changes: TranscriptChange[];
+}
+
+const reviewLine = (raw: TranscriptSegment | undefined, segment: TranscriptSegment | undefined): LineReview => {
+  if (!segment) return { raw, parts: [], changes: [{ key: `${raw!.id}:deleted`, kind: 'deleted' }] };
+  if (!raw) return { segment, parts: [], changes: [{ key: `${segment.id}:added`, kind: 'added' }] };
+
+  const parts = diffWords(raw.text, segment.text);
+  const changes: TranscriptChange[] = [];
+  // The same edit can occur twice in a line; number the repeats so each keeps its own key
+  const seen = new Map<string, number>();
+  parts.forEach((part, partIndex) => {
+    if (part.type !== 'change') return;
+    const base = `${segment.id}:text:${part.removed}→${part.added}`;
+    const n = seen.get(base) || 0;
+    seen.set(base, n + 1);
+    changes.push({ key: `${base}:${n}`, kind: 'text', partIndex });
+  });
+  return { raw, segment, parts, changes };
+};
+
+/**
+ * Pairs the raw and current transcript by segment id, in transcript order, with deleted lines
+ * placed where they used to be.
+ */
+export const reviewTranscript = (raw: TranscriptSegment[], current: TranscriptSegment[]): LineReview[] => {
+  const rawIndex = new Map(raw.map((segment, i) => [segment.id, i]));
+  const currentIds = new Set(current.map(segment => segment.id));
+  const lines: LineReview[] = [];
+  let nextRaw = 0;
+  const emitDeletedBefore = (end: number) => {
+    for (; nextRaw < end; nextRaw++) {
+      if (!currentIds.has(raw[nextRaw].id)) lines.push(reviewLine(raw[nextRaw], undefined));
+    }
+  };
+
+  current.forEach(segment => {
+    const index = rawIndex.get(segment.id);
+    if (index !== undefined) {
+      emitDeletedBefore(index);
+      nextRaw = Math.max(nextRaw, index + 1);
+    }
+    lines.push(reviewLine(index !== undefined ? raw[index] : undefined, segment));
+  });
+  emitDeletedBefore(raw.length);
+  return lines;
+};
+
+/**
+ * The current transcript with the given changes undone: wording goes back to the raw transcript,
+ * deleted lines come back and added lines go away.
+ */
+export const revertChanges = (lines: LineReview[], keys: Set<string>): TranscriptSegment[] => {
+  const result: TranscriptSegment[] = [];
+  lines.forEach(({ raw, segment, parts, changes }) => {
+    const reverted = (kind: ChangeKind) => changes.some(change => change.kind === kind && keys.has(change.key));
+    if (!segment) {
+      if (reverted('deleted')) result.push(raw!);
+      return;
+    }
+    if (!raw) {
+      if (!reverted('added')) result.push(segment);
+      return;
+    }
+    const revertedParts = new Set(changes.filter(c => c.kind === 'text' && keys.has(c.key)).map(c => c.partIndex));
+    result.push(revertedParts.size === 0
+      ? segment
+      : { ...segment, text: applyDiff(parts, index => revertedParts.has(index)) });
+  });
+  return result;
+};
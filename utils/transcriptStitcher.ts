@@ -0,0 +1,133 @@
+import { TranscriptSegment } from '../types';
+
+const GENERIC_SPEAKER = /^Speaker\s+(\d+)$/i;
+
+// How many segments at each side of a boundary are compared when looking for the overlap
+const BOUNDARY_WINDOW = 12;
+// Model timestamps drift by a second or so, so the overlap is widened by this much on both sides
+const TIMING_SLACK_SECONDS = 2;
+// Shorter utterances ("好", "OK") match too easily to mark the overlap on their own
+const MIN_DISTINCT_LENGTH = 4;
+const SIMILARITY_THRESHOLD = 0.75;
+
+const normalize = (text: string) => text.toLowerCase().replace(/[\s\p{P}\p{S}]/gu, '');
+
+const bigrams = (text: string) => {
+  const grams = new Map<string, number>();
+  for (let i = 0; i < text.length - 1; i++) {
+    const gram = text.slice(i, i + 2);
+    grams.set(gram, (grams.get(gram) || 0) + 1);
+  }
+  return grams;
+};
+
+/**
+ * Whether two transcript segments are the same utterance transcribed twice.
+ */
+const isSameUtterance = (a: string, b: string): boolean => {
+  const na = normalize(a);
+  const nb = normalize(b);
+  if (!na || !nb) return false;
+  if (na === nb) return true;
+  if (Math.min(na.length, nb.length) < MIN_DISTINCT_LENGTH) return false;
+  if (na.includes(nb) || nb.includes(na)) return true;
+
+  const ga = bigrams(na);
+  const gb = bigrams(nb);
+  let shared = 0;
+  ga.forEach((count, gram) => {
+    shared += Math.min(count, gb.get(gram) || 0);
+  });
+  return (2 * shared) / (na.length - 1 + nb.length - 1) >= SIMILARITY_THRESHOLD;
+};
+
+const nextGenericLabel = (used: Set<string>) => {
+  let max = 0;
+  used.forEach(label => {
+    const match = label.match(GENERIC_SPEAKER);
+    if (match) max = Math.max(max, Number(match[1]));
+  });
+  return `Speaker ${max + 1}`;
+};
+
+export interface ChunkTranscript {
+  // Where the chunk starts in the recording; its segments are already on the recording's timeline
+  startSec: number;
+  segments: TranscriptSegment[];
+}
+
+/**
+ * Merges the transcripts of overlapping audio chunks into one transcript.
+ *
+ * Segments at the head of a chunk that repeat the tail of the previous one are dropped, and the
+ * speakers of those repeated segments tell us how the chunk's labels map onto the labels used so far.
+ * Only one unbroken run of repeats from the head counts, and only within the `overlapSeconds` both
+ * chunks cover; anything else is kept, since a duplicated line costs less than lost speech.
+ */
+export const stitchTranscripts = (chunks: ChunkTranscript[], overlapSeconds: number): TranscriptSegment[] => {
+  const result: TranscriptSegment[] = [];
+  const usedLabels = new Set<string>();
+
+  chunks.forEach(({ startSec, segments }) => {
+    const overlapEnd = startSec + overlapSeconds + TIMING_SLACK_SECONDS;
+    const tail = result.slice(-BOUNDARY_WINDOW).filter(prev => {
+      const end = prev.end ?? prev.start;
+      return end !== undefined && end > startSec - TIMING_SLACK_SECONDS;
+    });
+
+    // Pairs of (head segment, the earlier segment it repeats), in order, stopping at the first miss
+    const run: [TranscriptSegment, TranscriptSegment][] = [];
+    let from = 0;
+    for (const segment of segments.slice(0, BOUNDARY_WINDOW)) {
+      if (segment.start === undefined || segment.start >= overlapEnd) break;
+      const at = tail.findIndex((prev, i) => i >= from && isSameUtterance(prev.text, segment.text));
+      if (at === -1) break;
+      run.push([segment, tail[at]]);
+      from = at + 1;
+    }
+    // The run only reaches as far as its last distinctive repeat
+    let duplicates = run.length;
+    while (duplicates > 0 && normalize(run[duplicates - 1][0].text).length < MIN_DISTINCT_LENGTH) duplicates--;
+
+    const votes = new Map<string, Map<string, number>>();
+    run.slice(0, duplicates).forEach(([segment, match]) => {
+      // A sentence cut at the end of the previous chunk is usually complete in this one
+      if (normalize(segment.text).length > normalize(match.text).length) {
+        match.text = segment.text;
+        match.original = segment.original ?? match.original;
+        match.end = segment.end ?? match.end;
+      }
+      const byTarget = votes.get(segment.speaker) || new Map<string, number>();
+      byTarget.set(match.speaker, (byTarget.get(match.speaker) || 0) + 1);
+      votes.set(segment.speaker, byTarget);
+    });
+
+    const mapping = new Map<string, string>();
+    votes.forEach((byTarget, label) => {
+      const [target] = Array.from(byTarget.entries()).sort((a, b) => b[1] - a[1])[0];
+      mapping.set(label, target);
+    });
+
+    // Labels not seen in the overlap keep their name unless a mapped label already took it
+    const taken = new Set(mapping.values());
+    segments.forEach(segment => {
+      if (mapping.has(segment.speaker)) return;
+      if (taken.has(segment.speaker) && GENERIC_SPEAKER.test(segment.speaker)) {
+        const label = nextGenericLabel(new Set([...usedLabels, ...taken]));
+        mapping.set(segment.speaker, label);
+        taken.add(label);
+      } else {
+        mapping.set(segment.speaker, segment.speaker);
+        taken.add(segment.speaker);
+      }
+    });
+
+    segments.slice(duplicates).forEach(segment => {
+      const speaker = mapping.get(segment.speaker)!;
+      usedLabels.add(speaker);
+      result.push({ ...segment, speaker });
+    });
+  });
+
+  return result;
+};